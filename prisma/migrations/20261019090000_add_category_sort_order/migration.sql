@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "public"."Category" ADD COLUMN     "sortOrder" INTEGER NOT NULL DEFAULT 0;
+
+-- Seed positions from the current alphabetical order so nothing visibly moves
+UPDATE "public"."Category" c
+SET "sortOrder" = ordered.pos
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "parentId" ORDER BY "title" ASC) - 1 AS pos
+  FROM "public"."Category"
+) ordered
+WHERE c."id" = ordered."id";
+
+-- CreateIndex
+CREATE INDEX "Category_parentId_sortOrder_idx" ON "public"."Category"("parentId", "sortOrder");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "public"."CategorySlugHistory" (
+    "id" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CategorySlugHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CategorySlugHistory_slug_key" ON "public"."CategorySlugHistory"("slug");
+
+-- CreateIndex
+CREATE INDEX "CategorySlugHistory_categoryId_idx" ON "public"."CategorySlugHistory"("categoryId");
+
+-- AddForeignKey
+ALTER TABLE "public"."CategorySlugHistory" ADD CONSTRAINT "CategorySlugHistory_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "public"."Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
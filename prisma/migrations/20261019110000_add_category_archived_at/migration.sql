@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."Category" ADD COLUMN     "archivedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Category_archivedAt_idx" ON "public"."Category"("archivedAt");
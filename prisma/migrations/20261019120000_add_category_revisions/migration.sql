@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "public"."CategoryRevisionAction" AS ENUM ('CREATE', 'UPDATE', 'DELETE', 'REVERT');
+
+-- CreateTable
+CREATE TABLE "public"."CategoryRevision" (
+    "id" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "action" "public"."CategoryRevisionAction" NOT NULL,
+    "actor" TEXT,
+    "snapshot" JSONB NOT NULL,
+    "diff" JSONB NOT NULL,
+    "revertOfId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CategoryRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CategoryRevision_categoryId_createdAt_idx" ON "public"."CategoryRevision"("categoryId", "createdAt");
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "public"."CategoryClosure" (
+    "ancestorId" TEXT NOT NULL,
+    "descendantId" TEXT NOT NULL,
+    "depth" INTEGER NOT NULL,
+
+    CONSTRAINT "CategoryClosure_pkey" PRIMARY KEY ("ancestorId","descendantId")
+);
+
+-- CreateIndex
+CREATE INDEX "CategoryClosure_descendantId_depth_idx" ON "public"."CategoryClosure"("descendantId", "depth");
+
+-- AddForeignKey
+ALTER TABLE "public"."CategoryClosure" ADD CONSTRAINT "CategoryClosure_ancestorId_fkey" FOREIGN KEY ("ancestorId") REFERENCES "public"."Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CategoryClosure" ADD CONSTRAINT "CategoryClosure_descendantId_fkey" FOREIGN KEY ("descendantId") REFERENCES "public"."Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill from the existing parentId tree (the path array guards against cycles)
+WITH RECURSIVE "walk"("ancestorId", "descendantId", "depth", "path") AS (
+    SELECT "id", "id", 0, ARRAY["id"] FROM "public"."Category"
+  UNION ALL
+    SELECT w."ancestorId", c."id", w."depth" + 1, w."path" || c."id"
+    FROM "walk" w
+    JOIN "public"."Category" c ON c."parentId" = w."descendantId"
+    WHERE NOT c."id" = ANY(w."path")
+)
+INSERT INTO "public"."CategoryClosure" ("ancestorId", "descendantId", "depth")
+SELECT "ancestorId", "descendantId", MIN("depth") FROM "walk" GROUP BY "ancestorId", "descendantId";
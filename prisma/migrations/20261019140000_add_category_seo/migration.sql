@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."Category" ADD COLUMN     "noindex" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "seoDescription" TEXT,
+ADD COLUMN     "seoTitle" TEXT;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "public"."CategoryTranslation" (
+    "id" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "locale" TEXT NOT NULL,
+    "title" TEXT,
+    "description" TEXT,
+    "seoTitle" TEXT,
+    "seoDescription" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CategoryTranslation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CategoryTranslation_locale_idx" ON "public"."CategoryTranslation"("locale");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CategoryTranslation_categoryId_locale_key" ON "public"."CategoryTranslation"("categoryId", "locale");
+
+-- AddForeignKey
+ALTER TABLE "public"."CategoryTranslation" ADD CONSTRAINT "CategoryTranslation_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "public"."Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "public"."CategoryAttributeType" AS ENUM ('ENUM', 'NUMBER', 'BOOLEAN');
+
+-- CreateTable
+CREATE TABLE "public"."CategoryAttribute" (
+    "id" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "type" "public"."CategoryAttributeType" NOT NULL,
+    "unit" TEXT,
+    "options" TEXT[],
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CategoryAttribute_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ProductAttributeValue" (
+    "id" TEXT NOT NULL,
+    "productGid" TEXT NOT NULL,
+    "attributeId" TEXT NOT NULL,
+    "valueText" TEXT,
+    "valueNumber" DOUBLE PRECISION,
+    "valueBoolean" BOOLEAN,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductAttributeValue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CategoryAttribute_key_idx" ON "public"."CategoryAttribute"("key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CategoryAttribute_categoryId_key_key" ON "public"."CategoryAttribute"("categoryId", "key");
+
+-- CreateIndex
+CREATE INDEX "ProductAttributeValue_attributeId_idx" ON "public"."ProductAttributeValue"("attributeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductAttributeValue_productGid_attributeId_key" ON "public"."ProductAttributeValue"("productGid", "attributeId");
+
+-- AddForeignKey
+ALTER TABLE "public"."CategoryAttribute" ADD CONSTRAINT "CategoryAttribute_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "public"."Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ProductAttributeValue" ADD CONSTRAINT "ProductAttributeValue_attributeId_fkey" FOREIGN KEY ("attributeId") REFERENCES "public"."CategoryAttribute"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "public"."ProductCategorySource" AS ENUM ('MANUAL', 'RULE');
+
+-- AlterTable
+ALTER TABLE "public"."Category" ADD COLUMN     "rules" JSONB;
+
+-- AlterTable
+ALTER TABLE "public"."ProductCategory" ADD COLUMN     "source" "public"."ProductCategorySource" NOT NULL DEFAULT 'MANUAL';
+
+-- CreateIndex
+CREATE INDEX "ProductCategory_categoryId_source_idx" ON "public"."ProductCategory"("categoryId", "source");
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."Category" ADD COLUMN     "imageAlt" TEXT,
+ADD COLUMN     "imageHeight" INTEGER,
+ADD COLUMN     "imageWidth" INTEGER;
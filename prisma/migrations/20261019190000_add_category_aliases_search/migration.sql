@@ -0,0 +1,24 @@
+-- Trigram matching for category search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- CreateTable
+CREATE TABLE "public"."CategoryAlias" (
+    "id" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "term" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CategoryAlias_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CategoryAlias_term_idx" ON "public"."CategoryAlias" USING GIN ("term" gin_trgm_ops);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CategoryAlias_categoryId_term_key" ON "public"."CategoryAlias"("categoryId", "term");
+
+-- CreateIndex
+CREATE INDEX "Category_title_idx" ON "public"."Category" USING GIN ("title" gin_trgm_ops);
+
+-- AddForeignKey
+ALTER TABLE "public"."CategoryAlias" ADD CONSTRAINT "CategoryAlias_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "public"."Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "public"."Taxonomy" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "metafieldKey" TEXT NOT NULL,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Taxonomy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Taxonomy_key_key" ON "public"."Taxonomy"("key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Taxonomy_metafieldKey_key" ON "public"."Taxonomy"("metafieldKey");
+
+-- The existing tree becomes the default taxonomy, keeping taxonomy.category_slugs
+INSERT INTO "public"."Taxonomy" ("id", "key", "name", "metafieldKey", "isDefault", "updatedAt")
+VALUES ('default', 'default', 'Categories', 'category_slugs', true, CURRENT_TIMESTAMP);
+
+-- AlterTable
+ALTER TABLE "public"."Category" ADD COLUMN     "taxonomyId" TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE "public"."Category" ALTER COLUMN "taxonomyId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "public"."CategorySlugHistory" ADD COLUMN     "taxonomyId" TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE "public"."CategorySlugHistory" ALTER COLUMN "taxonomyId" DROP DEFAULT;
+
+-- DropIndex
+DROP INDEX "public"."Category_slug_key";
+
+-- DropIndex
+DROP INDEX "public"."CategorySlugHistory_slug_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Category_taxonomyId_slug_key" ON "public"."Category"("taxonomyId", "slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CategorySlugHistory_taxonomyId_slug_key" ON "public"."CategorySlugHistory"("taxonomyId", "slug");
+
+-- AddForeignKey
+ALTER TABLE "public"."Category" ADD CONSTRAINT "Category_taxonomyId_fkey" FOREIGN KEY ("taxonomyId") REFERENCES "public"."Taxonomy"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CategorySlugHistory" ADD CONSTRAINT "CategorySlugHistory_taxonomyId_fkey" FOREIGN KEY ("taxonomyId") REFERENCES "public"."Taxonomy"("id") ON DELETE CASCADE ON UPDATE CASCADE;
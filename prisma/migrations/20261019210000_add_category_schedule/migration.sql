@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "public"."Category" ADD COLUMN     "publishAt" TIMESTAMP(3),
+ADD COLUMN     "scheduleAppliedAt" TIMESTAMP(3),
+ADD COLUMN     "unpublishAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Category_publishAt_idx" ON "public"."Category"("publishAt");
+
+-- CreateIndex
+CREATE INDEX "Category_unpublishAt_idx" ON "public"."Category"("unpublishAt");
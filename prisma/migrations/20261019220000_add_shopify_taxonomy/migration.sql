@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "public"."Category" ADD COLUMN     "shopifyTaxonomyId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."ShopifyTaxonomyNode" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "fullName" TEXT NOT NULL,
+    "level" INTEGER NOT NULL,
+    "parentId" TEXT,
+    "isLeaf" BOOLEAN NOT NULL,
+    "version" TEXT NOT NULL,
+
+    CONSTRAINT "ShopifyTaxonomyNode_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Category_shopifyTaxonomyId_idx" ON "public"."Category"("shopifyTaxonomyId");
+
+-- CreateIndex
+CREATE INDEX "ShopifyTaxonomyNode_parentId_idx" ON "public"."ShopifyTaxonomyNode"("parentId");
+
+-- CreateIndex
+CREATE INDEX "ShopifyTaxonomyNode_fullName_idx" ON "public"."ShopifyTaxonomyNode" USING GIN ("fullName" gin_trgm_ops);
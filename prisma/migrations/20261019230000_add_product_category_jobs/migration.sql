@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "public"."ProductCategoryJobMode" AS ENUM ('ADD', 'REMOVE', 'REPLACE');
+
+-- CreateEnum
+CREATE TYPE "public"."ProductCategoryJobStatus" AS ENUM ('QUEUED', 'RUNNING', 'DONE');
+
+-- CreateEnum
+CREATE TYPE "public"."ProductCategoryJobItemStatus" AS ENUM ('PENDING', 'DONE', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."ProductCategoryJob" (
+    "id" TEXT NOT NULL,
+    "mode" "public"."ProductCategoryJobMode" NOT NULL,
+    "categoryIds" TEXT[],
+    "status" "public"."ProductCategoryJobStatus" NOT NULL DEFAULT 'QUEUED',
+    "total" INTEGER NOT NULL,
+    "processed" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "linksAdded" INTEGER NOT NULL DEFAULT 0,
+    "linksRemoved" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ProductCategoryJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ProductCategoryJobItem" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "productGid" TEXT NOT NULL,
+    "status" "public"."ProductCategoryJobItemStatus" NOT NULL DEFAULT 'PENDING',
+    "error" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductCategoryJobItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProductCategoryJob_createdAt_idx" ON "public"."ProductCategoryJob"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "ProductCategoryJobItem_jobId_status_idx" ON "public"."ProductCategoryJobItem"("jobId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductCategoryJobItem_jobId_productGid_key" ON "public"."ProductCategoryJobItem"("jobId", "productGid");
+
+-- AddForeignKey
+ALTER TABLE "public"."ProductCategoryJobItem" ADD CONSTRAINT "ProductCategoryJobItem_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "public"."ProductCategoryJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
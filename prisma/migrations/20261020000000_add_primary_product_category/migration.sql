@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."ProductCategory" ADD COLUMN     "isPrimary" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex (partial: one primary link per product; not expressible in schema.prisma)
+CREATE UNIQUE INDEX "ProductCategory_productGid_primary_key" ON "public"."ProductCategory"("productGid") WHERE "isPrimary";
@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "public"."CategoryDriftScanStatus" AS ENUM ('RUNNING', 'DONE', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."CategoryDriftScan" (
+    "id" TEXT NOT NULL,
+    "status" "public"."CategoryDriftScanStatus" NOT NULL DEFAULT 'RUNNING',
+    "productsScanned" INTEGER NOT NULL DEFAULT 0,
+    "mismatches" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "CategoryDriftScan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."CategoryDriftItem" (
+    "id" TEXT NOT NULL,
+    "scanId" TEXT NOT NULL,
+    "productGid" TEXT NOT NULL,
+    "taxonomyId" TEXT NOT NULL,
+    "metafieldKey" TEXT NOT NULL,
+    "expected" TEXT[],
+    "actual" TEXT[],
+    "resolution" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "error" TEXT,
+
+    CONSTRAINT "CategoryDriftItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CategoryDriftScan_startedAt_idx" ON "public"."CategoryDriftScan"("startedAt");
+
+-- CreateIndex
+CREATE INDEX "CategoryDriftItem_scanId_resolvedAt_idx" ON "public"."CategoryDriftItem"("scanId", "resolvedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CategoryDriftItem_scanId_productGid_metafieldKey_key" ON "public"."CategoryDriftItem"("scanId", "productGid", "metafieldKey");
+
+-- AddForeignKey
+ALTER TABLE "public"."CategoryDriftItem" ADD CONSTRAINT "CategoryDriftItem_scanId_fkey" FOREIGN KEY ("scanId") REFERENCES "public"."CategoryDriftScan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."ProductCategoryJobMode" ADD VALUE 'REBUILD';
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "public"."CategoryDriftScanStatus" ADD VALUE 'REPAIRING';
+
+-- AlterTable
+ALTER TABLE "public"."CategoryDriftScan" ADD COLUMN     "repairStartedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."CategoryDriftItem" ADD COLUMN     "note" TEXT;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "public"."ProductCategoryJobStatus" ADD VALUE 'FAILED';
+
+-- AlterTable
+ALTER TABLE "public"."ProductCategoryJob" ADD COLUMN     "error" TEXT;
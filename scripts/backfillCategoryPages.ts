@@ -5,6 +5,7 @@ import {
   shopifyAdminREST,
   findPageIdByHandle,
 } from '@/lib/shopify';
+import { pageHandleFor } from '@/lib/taxonomies';
 
 type PageCreateResponse = { page: { id: number; handle: string } };
 type Gid = `gid://shopify/Page/${string}`;
@@ -45,7 +46,15 @@ async function run() {
   // Make sure env vars exist where you run this:
   // SHOPIFY_SHOP, SHOPIFY_ADMIN_TOKEN, (optional) SHOPIFY_ADMIN_API_VERSION
   const cats = await prisma.category.findMany({
-    select: { id: true, slug: true, title: true, description: true, shopifyPageId: true, shopifyHandle: true },
+    select: {
+      id: true,
+      slug: true,
+      title: true,
+      description: true,
+      shopifyPageId: true,
+      shopifyHandle: true,
+      taxonomy: { select: { key: true, isDefault: true } },
+    },
     orderBy: { slug: 'asc' },
   });
 
@@ -53,7 +62,7 @@ async function run() {
   let backfilled = 0;
 
   for (const c of cats) {
-    const handle = c.slug; // adjust if your page handle differs
+    const handle = pageHandleFor(c.taxonomy, c.slug); // non-default taxonomies prefix their key
 
     // 1) Try to find an existing page by handle → GraphQL-ID if found
     let gid = await findPageIdByHandle(handle);
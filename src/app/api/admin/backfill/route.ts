@@ -1,14 +1,9 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from 'next/server'
 import prisma from '@/lib/prisma'
-import { rebuildProductCategoryMetafield } from '@/lib/product-metafields'
+import { rebuildProductCategoryMetafields } from '@/lib/product-metafields'
 
 export const dynamic = 'force-dynamic'
 
-function sleep(ms: number) {
-  return new Promise(r => setTimeout(r, ms))
-}
-
 export async function POST(req: NextRequest) {
   const auth = req.headers.get('x-backfill-secret') || req.nextUrl.searchParams.get('secret')
   if (!auth || auth !== process.env.BACKFILL_SECRET) {
@@ -22,27 +17,15 @@ export async function POST(req: NextRequest) {
     orderBy: { productGid: 'asc' },
   })
 
-  let ok = 0
-  const fails: { productGid: string; error: string }[] = []
-
-  // Keep it gentle on Shopify rate limits: sequential with a tiny delay
-  for (const row of distinct) {
-    try {
-      await rebuildProductCategoryMetafield(row.productGid)
-      ok++
-      await sleep(250) // ~4/sec, safe for Admin API
-    } catch (e: any) {
-      fails.push({ productGid: row.productGid, error: e?.message || 'unknown error' })
-      // small delay even on failure
-      await sleep(250)
-    }
-  }
+  // Slugs, primary paths and Shopify categories load in bulk up front; the rebuild
+  // itself is sequential and paced for Shopify rate limits
+  const { total, updated, failures } = await rebuildProductCategoryMetafields(distinct.map(r => r.productGid))
 
   return NextResponse.json({
-    totalProducts: distinct.length,
-    updated: ok,
-    failed: fails.length,
-    failures: fails, // remove if noisy
+    totalProducts: total,
+    updated,
+    failed: failures.length,
+    failures, // remove if noisy
   })
 }
 
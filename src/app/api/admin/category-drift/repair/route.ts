@@ -0,0 +1,29 @@
+// src/app/api/admin/category-drift/repair/route.ts
+// Repairs mismatches of a scan: { scanId, mode: 'push' | 'import', itemIds? }.
+// push rewrites Shopify from the DB; import makes the DB links match Shopify.
+// Runs after the response; the scan is REPAIRING until it is done.
+import { NextRequest, NextResponse, after } from 'next/server';
+import { repairDrift, startDriftRepair } from '@/lib/category-drift';
+
+export const dynamic = 'force-dynamic';
+
+type RepairBody = { scanId?: string; mode?: string; itemIds?: string[] };
+
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => ({}))) as RepairBody;
+  const { scanId, mode, itemIds } = body;
+  if (!scanId) return NextResponse.json({ error: 'scanId is required' }, { status: 400 });
+  if (mode !== 'push' && mode !== 'import') {
+    return NextResponse.json({ error: 'mode must be "push" or "import"' }, { status: 400 });
+  }
+
+  try {
+    const busy = await startDriftRepair(scanId);
+    if (busy) return NextResponse.json({ error: busy }, { status: 409 });
+    after(() => repairDrift(scanId, mode, itemIds));
+    return NextResponse.json({ scanId, mode }, { status: 202 });
+  } catch (err) {
+    console.error('POST /api/admin/category-drift/repair error', err);
+    return NextResponse.json({ error: 'Failed to start repair' }, { status: 500 });
+  }
+}
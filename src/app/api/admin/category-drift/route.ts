@@ -0,0 +1,32 @@
+// src/app/api/admin/category-drift/route.ts
+// Metafield drift scans. POST starts one (runs after the response); GET lists
+// recent scans, or ?scanId= returns one with its mismatches.
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getDriftScan, listDriftScans, runDriftScan, startDriftScan } from '@/lib/category-drift';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: NextRequest) {
+  const scanId = req.nextUrl.searchParams.get('scanId');
+  try {
+    if (!scanId) return NextResponse.json({ scans: await listDriftScans() });
+    const scan = await getDriftScan(scanId);
+    if (!scan) return NextResponse.json({ error: 'Scan not found' }, { status: 404 });
+    return NextResponse.json(scan);
+  } catch (err) {
+    console.error('GET /api/admin/category-drift error', err);
+    return NextResponse.json({ error: 'Failed to load scans' }, { status: 500 });
+  }
+}
+
+export async function POST() {
+  try {
+    const scan = await startDriftScan();
+    if (typeof scan === 'string') return NextResponse.json({ error: scan }, { status: 409 });
+    after(() => runDriftScan(scan.id));
+    return NextResponse.json({ scanId: scan.id, ...scan }, { status: 202 });
+  } catch (err) {
+    console.error('POST /api/admin/category-drift error', err);
+    return NextResponse.json({ error: 'Failed to start scan' }, { status: 500 });
+  }
+}
@@ -10,6 +10,7 @@ interface ProductNode {
   handle: string
   status?: string | null
   metafield?: { value?: string | null } | null
+  primaryPath?: { value?: string | null } | null
 }
 
 interface ProductEdge { node: ProductNode }
@@ -68,6 +69,9 @@ export async function GET(req: NextRequest) {
               metafield(namespace: "taxonomy", key: "category_slugs") {
                 value
               }
+              primaryPath: metafield(namespace: "taxonomy", key: "primary_path") {
+                value
+              }
             }
           }
           pageInfo { hasNextPage endCursor }
@@ -98,12 +102,21 @@ export async function GET(req: NextRequest) {
           slugs = [raw]
         }
       }
+      // primary_path is a json breadcrumb: [{ title, slug }, ...] root first
+      let primaryPath: { title: string; slug: string }[] = []
+      try {
+        const parsed = JSON.parse(n.primaryPath?.value ?? '[]')
+        if (Array.isArray(parsed)) primaryPath = parsed
+      } catch {
+        // malformed; treat as no primary
+      }
       return {
         id: n.id,
         title: n.title,
         handle: n.handle,
         status: n.status ?? null,
         slugs,
+        primaryPath,
       }
     })
 
@@ -3,6 +3,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import prisma from '@/lib/prisma'
 import { shopifyAdminGraphQL, findPageIdByHandle } from '@/lib/shopify'
+import { flattenCategoryRows, isCategoryPublic } from '@/lib/categories'
+import { setShopifyPageSeo } from '@/lib/category-pages'
+import { pageHandleFor } from '@/lib/taxonomies'
 
 export const dynamic = 'force-dynamic'
 
@@ -30,9 +33,19 @@ type DbCategory = {
   title: string
   slug: string
   parentId: string | null
+  seoTitle: string | null
+  seoDescription: string | null
+  noindex: boolean
+  archivedAt: Date | null
+  publishAt: Date | null
+  unpublishAt: Date | null
+  taxonomy: { key: string; isDefault: boolean }
 }
 
-type FlatCat = { title: string; slug: string }
+type FlatCat = Pick<DbCategory, 'title' | 'slug' | 'seoTitle' | 'seoDescription' | 'noindex'> & {
+  handle: string
+  published: boolean // inside its publishAt/unpublishAt window
+}
 
 function authOK(req: NextRequest): boolean {
   const q = req.nextUrl.searchParams.get('secret')
@@ -45,21 +58,15 @@ function sleep(ms: number) {
 }
 
 function flattenCategories(rows: DbCategory[]): FlatCat[] {
-  const byParent = new Map<string | null, DbCategory[]>()
-  for (const r of rows) {
-    const k = r.parentId ?? null
-    if (!byParent.has(k)) byParent.set(k, [])
-    byParent.get(k)!.push(r)
-  }
-  const out: FlatCat[] = []
-  const walk = (parentId: string | null) => {
-    for (const n of byParent.get(parentId) || []) {
-      out.push({ title: n.title, slug: n.slug })
-      walk(n.id)
-    }
-  }
-  walk(null)
-  return out
+  return flattenCategoryRows(rows).map((n) => ({
+    title: n.title,
+    slug: n.slug,
+    handle: pageHandleFor(n.taxonomy, n.slug),
+    seoTitle: n.seoTitle,
+    seoDescription: n.seoDescription,
+    noindex: n.noindex,
+    published: isCategoryPublic(n),
+  }))
 }
 
 // ---- Preview
@@ -67,8 +74,21 @@ export async function GET(req: NextRequest) {
   if (!authOK(req)) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   try {
     const rows = await prisma.category.findMany({
-      select: { id: true, title: true, slug: true, parentId: true },
-      orderBy: { title: 'asc' },
+      where: { archivedAt: null }, // archived pages stay unpublished
+      select: {
+        id: true,
+        title: true,
+        slug: true,
+        parentId: true,
+        seoTitle: true,
+        seoDescription: true,
+        noindex: true,
+        archivedAt: true,
+        publishAt: true,
+        unpublishAt: true,
+        taxonomy: { select: { key: true, isDefault: true } },
+      },
+      orderBy: [{ sortOrder: 'asc' }, { title: 'asc' }],
     })
     const flat = flattenCategories(rows)
     return NextResponse.json({
@@ -90,8 +110,21 @@ export async function POST(req: NextRequest) {
 
   try {
     const rows = await prisma.category.findMany({
-      select: { id: true, title: true, slug: true, parentId: true },
-      orderBy: { title: 'asc' },
+      where: { archivedAt: null }, // archived pages stay unpublished
+      select: {
+        id: true,
+        title: true,
+        slug: true,
+        parentId: true,
+        seoTitle: true,
+        seoDescription: true,
+        noindex: true,
+        archivedAt: true,
+        publishAt: true,
+        unpublishAt: true,
+        taxonomy: { select: { key: true, isDefault: true } },
+      },
+      orderBy: [{ sortOrder: 'asc' }, { title: 'asc' }],
     })
     const flat = flattenCategories(rows)
 
@@ -103,9 +136,9 @@ export async function POST(req: NextRequest) {
       | { slug: string; action: 'skip (exists)'; ok: true; id: string }
     > = []
 
-    for (const { slug, title } of flat) {
+    for (const { slug, handle, title, published, ...seo } of flat) {
       try {
-        const existingId = await findPageIdByHandle(slug)
+        const existingId = await findPageIdByHandle(handle)
 
         if (existingId) {
           if (createOnly) {
@@ -120,13 +153,14 @@ export async function POST(req: NextRequest) {
                 title,
                 templateSuffix,
                 body: '', // optional; section template renders the UI
-                // isPublished: true, // uncomment if you want to force publish
+                isPublished: published, // scheduled or expired categories stay hidden
               },
             })
             const errs = data.pageUpdate.userErrors
             if (errs?.length) {
               results.push({ slug, action: 'update', ok: false, errors: JSON.stringify(errs) })
             } else {
+              await setShopifyPageSeo(existingId, seo)
               results.push({ slug, action: 'update', ok: true, id: existingId })
             }
           }
@@ -137,8 +171,8 @@ export async function POST(req: NextRequest) {
           }>(CREATE_PAGE, {
             page: {
               title,
-              handle: slug,     // becomes /pages/<slug>
-              isPublished: true, // publish immediately
+              handle,           // becomes /pages/<handle>
+              isPublished: published,
               templateSuffix,    // "category"
               body: '',
             },
@@ -147,6 +181,7 @@ export async function POST(req: NextRequest) {
           if (errs?.length || !data.pageCreate.page) {
             results.push({ slug, action: 'create', ok: false, errors: JSON.stringify(errs || 'No page returned') })
           } else {
+            await setShopifyPageSeo(data.pageCreate.page.id, seo)
             results.push({ slug, action: 'create', ok: true, id: data.pageCreate.page.id })
           }
         }
@@ -0,0 +1,54 @@
+// src/app/api/categories/aliases/route.ts
+// Search synonyms for a category; PUT replaces the whole list.
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { MAX_ALIAS_LENGTH, normalizeAliases } from '@/lib/category-search';
+
+export const dynamic = 'force-dynamic';
+
+type PutBody = { categoryId: string; aliases: string[] };
+
+// GET /api/categories/aliases?categoryId=...
+export async function GET(req: NextRequest) {
+  const categoryId = req.nextUrl.searchParams.get('categoryId') || '';
+  if (!categoryId) {
+    return NextResponse.json({ error: 'Missing categoryId' }, { status: 400 });
+  }
+  const rows = await prisma.categoryAlias.findMany({
+    where: { categoryId },
+    orderBy: { term: 'asc' },
+    select: { term: true },
+  });
+  return NextResponse.json({ aliases: rows.map((r) => r.term) });
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const body = (await req.json()) as PutBody;
+    if (!body.categoryId || !Array.isArray(body.aliases)) {
+      return NextResponse.json({ error: 'categoryId and aliases[] are required' }, { status: 400 });
+    }
+    const aliases = normalizeAliases(body.aliases.map(String));
+    const tooLong = aliases.find((a) => a.length > MAX_ALIAS_LENGTH);
+    if (tooLong) {
+      return NextResponse.json({ error: `Alias “${tooLong.slice(0, 30)}…” is too long` }, { status: 400 });
+    }
+
+    const exists = await prisma.category.findUnique({ where: { id: body.categoryId }, select: { id: true } });
+    if (!exists) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    await prisma.$transaction([
+      prisma.categoryAlias.deleteMany({ where: { categoryId: body.categoryId, term: { notIn: aliases } } }),
+      prisma.categoryAlias.createMany({
+        data: aliases.map((term) => ({ categoryId: body.categoryId, term })),
+        skipDuplicates: true,
+      }),
+    ]);
+    return NextResponse.json({ ok: true, aliases: aliases.sort() });
+  } catch (err) {
+    console.error('PUT /api/categories/aliases error', err);
+    return NextResponse.json({ error: 'Failed to save aliases' }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+// src/app/api/categories/archive/route.ts
+// Soft-delete: hide a category (and its subtree) from /api/public/* and unpublish
+// its Shopify pages. Product links, fitments and distributor mappings are kept.
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getDescendantIds } from '@/lib/categories';
+import { setShopifyPagePublished } from '@/lib/category-pages';
+
+export const dynamic = 'force-dynamic';
+
+type ArchiveBody = { id: string };
+
+// POST: archive category subtree
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as ArchiveBody;
+    if (!body.id) {
+      return NextResponse.json({ error: 'Missing id' }, { status: 400 });
+    }
+
+    const existing = await prisma.category.findUnique({
+      where: { id: body.id },
+      select: { id: true, archivedAt: true },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    if (existing.archivedAt) {
+      return NextResponse.json({ error: 'Category is already archived' }, { status: 409 });
+    }
+
+    // One timestamp for the whole batch, so restore can bring back exactly this set
+    const archivedAt = new Date();
+    const subtreeIds = await getDescendantIds(body.id);
+    const toArchive = await prisma.category.findMany({
+      where: { id: { in: subtreeIds }, archivedAt: null },
+      select: { id: true, slug: true, shopifyPageId: true },
+    });
+
+    await prisma.category.updateMany({
+      where: { id: { in: toArchive.map((c) => c.id) } },
+      data: { archivedAt },
+    });
+
+    let pagesUnpublished = 0;
+    for (const c of toArchive) {
+      if (!c.shopifyPageId) continue;
+      try {
+        await setShopifyPagePublished(c.shopifyPageId, false);
+        pagesUnpublished++;
+      } catch (e) {
+        console.error('[categories:archive] unpublish failed', c.slug, e);
+      }
+    }
+
+    return NextResponse.json({
+      ok: true,
+      archivedAt,
+      archived: toArchive.length,
+      pagesUnpublished,
+    });
+  } catch (err) {
+    console.error('POST /api/categories/archive error', err);
+    return NextResponse.json({ error: 'Failed to archive category' }, { status: 500 });
+  }
+}
@@ -0,0 +1,173 @@
+// src/app/api/categories/attributes/route.ts
+// Attribute definitions on a category (inherited by descendants).
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import {
+  cleanOptions,
+  findAttributeKeyClash,
+  getEffectiveAttributes,
+  validateAttributeInput,
+  type AttributeInput,
+} from '@/lib/category-attributes';
+import { rebuildProductAttributeMetafields } from '@/lib/product-metafields';
+
+export const dynamic = 'force-dynamic';
+
+type CreateBody = AttributeInput & { categoryId: string };
+type UpdateBody = AttributeInput & { id: string };
+type DeleteBody = { id: string };
+
+async function productsWithValues(attributeId: string): Promise<string[]> {
+  const rows = await prisma.productAttributeValue.findMany({
+    where: { attributeId },
+    select: { productGid: true },
+  });
+  return rows.map((r) => r.productGid);
+}
+
+// GET /api/categories/attributes?categoryId=... → own + inherited attributes
+export async function GET(req: NextRequest) {
+  const categoryId = req.nextUrl.searchParams.get('categoryId') || '';
+  if (!categoryId) {
+    return NextResponse.json({ error: 'Missing categoryId' }, { status: 400 });
+  }
+  const attributes = await getEffectiveAttributes(categoryId);
+  return NextResponse.json({ attributes });
+}
+
+// POST: define an attribute on a category
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as CreateBody;
+    if (!body.categoryId) {
+      return NextResponse.json({ error: 'Missing categoryId' }, { status: 400 });
+    }
+    const invalid = validateAttributeInput(body);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+    const cat = await prisma.category.findUnique({ where: { id: body.categoryId }, select: { id: true } });
+    if (!cat) {
+      return NextResponse.json({ error: 'Category not found' }, { status: 404 });
+    }
+    const clash = await findAttributeKeyClash(body.categoryId, body.key!);
+    if (clash) {
+      return NextResponse.json(
+        { error: `Key “${body.key}” is already used by “${clash.category.title}” in this branch` },
+        { status: 409 }
+      );
+    }
+
+    const last = await prisma.categoryAttribute.aggregate({
+      where: { categoryId: body.categoryId },
+      _max: { sortOrder: true },
+    });
+    const created = await prisma.categoryAttribute.create({
+      data: {
+        categoryId: body.categoryId,
+        key: body.key!,
+        label: body.label!.trim(),
+        type: body.type!,
+        unit: body.type === 'NUMBER' ? body.unit?.trim() || null : null,
+        options: body.type === 'ENUM' ? cleanOptions(body.options) : [],
+        sortOrder: body.sortOrder ?? (last._max.sortOrder ?? -1) + 1,
+      },
+    });
+    return NextResponse.json(created);
+  } catch (err) {
+    console.error('POST /api/categories/attributes error', err);
+    return NextResponse.json({ error: 'Failed to create attribute' }, { status: 500 });
+  }
+}
+
+// PUT: edit label/unit/options/sortOrder/key. Type is fixed once products have values.
+export async function PUT(req: NextRequest) {
+  try {
+    const body = (await req.json()) as UpdateBody;
+    if (!body.id) {
+      return NextResponse.json({ error: 'Missing id' }, { status: 400 });
+    }
+    const current = await prisma.categoryAttribute.findUnique({ where: { id: body.id } });
+    if (!current) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const type = body.type ?? current.type;
+    const options = body.options !== undefined ? cleanOptions(body.options) : current.options;
+    const invalid = validateAttributeInput({ ...body, type, options }, { partial: true });
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const inUse = await productsWithValues(current.id);
+    if (type !== current.type && inUse.length) {
+      return NextResponse.json(
+        { error: `Type cannot change while ${inUse.length} product(s) have values` },
+        { status: 409 }
+      );
+    }
+    if (type === 'ENUM') {
+      const dropped = current.options.filter((o) => !options.includes(o));
+      const stillUsed = dropped.length
+        ? await prisma.productAttributeValue.count({ where: { attributeId: current.id, valueText: { in: dropped } } })
+        : 0;
+      if (stillUsed) {
+        return NextResponse.json(
+          { error: `${stillUsed} product(s) still use option(s): ${dropped.join(', ')}` },
+          { status: 409 }
+        );
+      }
+    }
+    if (body.key !== undefined && body.key !== current.key) {
+      const clash = await findAttributeKeyClash(current.categoryId, body.key, current.id);
+      if (clash) {
+        return NextResponse.json(
+          { error: `Key “${body.key}” is already used by “${clash.category.title}” in this branch` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const updated = await prisma.categoryAttribute.update({
+      where: { id: current.id },
+      data: {
+        ...(body.key !== undefined ? { key: body.key } : {}),
+        ...(body.label !== undefined ? { label: body.label.trim() } : {}),
+        ...(body.sortOrder !== undefined ? { sortOrder: body.sortOrder } : {}),
+        type,
+        unit: type === 'NUMBER' ? (body.unit !== undefined ? body.unit?.trim() || null : current.unit) : null,
+        options: type === 'ENUM' ? options : [],
+      },
+    });
+
+    // Key and unit are part of the product metafield payload
+    let metafields = null;
+    if (updated.key !== current.key || updated.unit !== current.unit) {
+      metafields = await rebuildProductAttributeMetafields(inUse);
+    }
+    return NextResponse.json({ ...updated, metafields });
+  } catch (err) {
+    console.error('PUT /api/categories/attributes error', err);
+    return NextResponse.json({ error: 'Failed to update attribute' }, { status: 500 });
+  }
+}
+
+// DELETE: remove the attribute and every product value for it
+export async function DELETE(req: NextRequest) {
+  try {
+    const body = (await req.json()) as DeleteBody;
+    if (!body.id) {
+      return NextResponse.json({ error: 'Missing id' }, { status: 400 });
+    }
+    const inUse = await productsWithValues(body.id);
+    const { count } = await prisma.categoryAttribute.deleteMany({ where: { id: body.id } });
+    if (!count) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    const metafields = await rebuildProductAttributeMetafields(inUse);
+    return NextResponse.json({ success: true, valuesRemoved: inUse.length, metafields });
+  } catch (err) {
+    console.error('DELETE /api/categories/attributes error', err);
+    return NextResponse.json({ error: 'Failed to delete attribute' }, { status: 500 });
+  }
+}
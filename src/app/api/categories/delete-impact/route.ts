@@ -0,0 +1,25 @@
+// src/app/api/categories/delete-impact/route.ts
+// What depends on a category: children, product links, distributor mappings.
+import { NextRequest, NextResponse } from 'next/server';
+import { previewCategoryDelete } from '@/lib/category-delete';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/categories/delete-impact?id=...
+export async function GET(req: NextRequest) {
+  try {
+    const id = req.nextUrl.searchParams.get('id') || '';
+    if (!id) {
+      return NextResponse.json({ error: 'Missing id' }, { status: 400 });
+    }
+
+    const impact = await previewCategoryDelete(id);
+    if (!impact) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    return NextResponse.json(impact);
+  } catch (err) {
+    console.error('GET /api/categories/delete-impact error', err);
+    return NextResponse.json({ error: 'Failed to load delete impact' }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+// src/app/api/categories/export/route.ts
+// Download one taxonomy's (non-archived) category tree as CSV or nested JSON.
+import { NextRequest, NextResponse } from 'next/server';
+import { exportCategoryRows, rowsToCsv, rowsToNestedJson } from '@/lib/category-io';
+import { resolveTaxonomy } from '@/lib/taxonomies';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/categories/export?format=csv|json (default csv)&taxonomy=<key> (default taxonomy)
+export async function GET(req: NextRequest) {
+  try {
+    const format = req.nextUrl.searchParams.get('format') === 'json' ? 'json' : 'csv';
+    const taxonomy = await resolveTaxonomy(req.nextUrl.searchParams.get('taxonomy'));
+    if (!taxonomy) {
+      return NextResponse.json({ error: 'Unknown taxonomy' }, { status: 404 });
+    }
+    const rows = await exportCategoryRows(taxonomy.id);
+    const stamp = `${taxonomy.key}-${new Date().toISOString().slice(0, 10)}`;
+
+    if (format === 'json') {
+      return new NextResponse(JSON.stringify(rowsToNestedJson(rows), null, 2), {
+        headers: {
+          'Content-Type': 'application/json; charset=utf-8',
+          'Content-Disposition': `attachment; filename="categories-${stamp}.json"`,
+        },
+      });
+    }
+
+    return new NextResponse(rowsToCsv(rows), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="categories-${stamp}.csv"`,
+      },
+    });
+  } catch (err) {
+    console.error('GET /api/categories/export error', err);
+    return NextResponse.json({ error: 'Failed to export categories' }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+// src/app/api/categories/image/route.ts
+// Upload a category image to Shopify Files. The editor stores the returned URL,
+// alt text and size on the category when it is saved.
+import { NextRequest, NextResponse } from 'next/server';
+import { SHOPIFY_ENABLED } from '@/lib/category-pages';
+import { imageVariants, uploadImageToShopifyFiles, validateCategoryImage } from '@/lib/category-images';
+
+export const dynamic = 'force-dynamic';
+
+// POST multipart/form-data: file, alt?
+export async function POST(req: NextRequest) {
+  if (!SHOPIFY_ENABLED) {
+    return NextResponse.json({ error: 'Shopify is not configured' }, { status: 503 });
+  }
+
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return NextResponse.json({ error: 'Expected multipart/form-data' }, { status: 400 });
+  }
+  const file = form.get('file');
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: 'Missing file' }, { status: 400 });
+  }
+  const alt = String(form.get('alt') ?? '').trim() || null;
+
+  const buf = Buffer.from(await file.arrayBuffer());
+  const info = validateCategoryImage(buf);
+  if (typeof info === 'string') {
+    return NextResponse.json({ error: info }, { status: 400 });
+  }
+
+  try {
+    const uploaded = await uploadImageToShopifyFiles(buf, file.name || 'category-image', info, alt);
+    return NextResponse.json({
+      ...uploaded,
+      variants: imageVariants(uploaded.url, uploaded.width),
+    });
+  } catch (err) {
+    console.error('POST /api/categories/image error', err);
+    return NextResponse.json({ error: (err as Error).message || 'Upload failed' }, { status: 502 });
+  }
+}
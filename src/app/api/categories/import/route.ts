@@ -0,0 +1,68 @@
+// src/app/api/categories/import/route.ts
+// Upsert categories by slug from CSV or nested JSON (same shapes as /export).
+// ?dryRun=1 only reports creates/updates/moves/conflicts; nothing is written or synced.
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  applyCategoryImport,
+  csvToRows,
+  nestedJsonToRows,
+  planCategoryImport,
+  type CategoryIORow,
+  type CategoryJsonNode,
+} from '@/lib/category-io';
+import { resolveTaxonomy } from '@/lib/taxonomies';
+
+export const dynamic = 'force-dynamic';
+
+// POST /api/categories/import?format=csv|json&dryRun=1&taxonomy=<key>  (body: raw file contents)
+// Slugs are matched within the taxonomy; the default one when omitted.
+export async function POST(req: NextRequest) {
+  try {
+    const { searchParams } = req.nextUrl;
+    const format = searchParams.get('format') === 'json' ? 'json' : 'csv';
+    const dryRun = searchParams.get('dryRun') === '1';
+    const taxonomy = await resolveTaxonomy(searchParams.get('taxonomy'));
+    if (!taxonomy) {
+      return NextResponse.json({ error: 'Unknown taxonomy' }, { status: 404 });
+    }
+
+    const text = await req.text();
+    if (!text.trim()) {
+      return NextResponse.json({ error: 'Empty file' }, { status: 400 });
+    }
+
+    let rows: CategoryIORow[];
+    try {
+      if (format === 'json') {
+        const parsed = JSON.parse(text) as CategoryJsonNode[] | { categories?: CategoryJsonNode[] };
+        const nodes = Array.isArray(parsed) ? parsed : parsed.categories;
+        if (!Array.isArray(nodes)) throw new Error('Expected an array of categories');
+        rows = nestedJsonToRows(nodes);
+      } else {
+        rows = csvToRows(text);
+      }
+    } catch (e) {
+      return NextResponse.json(
+        { error: `Could not parse ${format.toUpperCase()}: ${e instanceof Error ? e.message : String(e)}` },
+        { status: 400 }
+      );
+    }
+
+    const plan = await planCategoryImport(rows, taxonomy.id);
+    if (dryRun) {
+      return NextResponse.json({ dryRun: true, rows: rows.length, ...plan });
+    }
+    if (plan.conflicts.length) {
+      return NextResponse.json(
+        { error: `Import has ${plan.conflicts.length} conflict(s); fix them and try again`, ...plan },
+        { status: 409 }
+      );
+    }
+
+    const result = await applyCategoryImport(rows, plan, taxonomy.id);
+    return NextResponse.json({ ok: true, rows: rows.length, ...plan, ...result });
+  } catch (err) {
+    console.error('POST /api/categories/import error', err);
+    return NextResponse.json({ error: 'Failed to import categories' }, { status: 500 });
+  }
+}
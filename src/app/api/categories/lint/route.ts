@@ -0,0 +1,32 @@
+// src/app/api/categories/lint/route.ts
+// Taxonomy integrity report (GET) and per-issue-type fixes (POST).
+import { NextRequest, NextResponse } from 'next/server';
+import { LINT_TYPES, fixLintIssues, lintTaxonomy, type LintType } from '@/lib/category-lint';
+
+export const dynamic = 'force-dynamic';
+
+type FixBody = { type: LintType; categoryIds?: string[] };
+
+export async function GET() {
+  try {
+    return NextResponse.json(await lintTaxonomy());
+  } catch (err) {
+    console.error('GET /api/categories/lint error', err);
+    return NextResponse.json({ error: 'Failed to lint taxonomy' }, { status: 500 });
+  }
+}
+
+// POST { type, categoryIds? } → apply that type's fix to all (or the listed) current issues
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as FixBody;
+    if (!LINT_TYPES.includes(body.type)) {
+      return NextResponse.json({ error: `type must be one of ${LINT_TYPES.join(', ')}` }, { status: 400 });
+    }
+    const result = await fixLintIssues(body.type, body.categoryIds);
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err) {
+    console.error('POST /api/categories/lint error', err);
+    return NextResponse.json({ error: 'Failed to apply fix' }, { status: 500 });
+  }
+}
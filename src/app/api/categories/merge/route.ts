@@ -0,0 +1,56 @@
+// src/app/api/categories/merge/route.ts
+// Merge a duplicate category into another. GET previews, POST commits.
+import { NextRequest, NextResponse } from 'next/server';
+import { mergeCategories, previewCategoryMerge } from '@/lib/category-merge';
+
+export const dynamic = 'force-dynamic';
+
+type MergeBody = {
+  sourceId: string;
+  targetId: string;
+  redirect?: boolean; // redirect /pages/<source> to /pages/<target> (default true)
+};
+
+// GET /api/categories/merge?sourceId=...&targetId=...&redirect=0
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = req.nextUrl;
+    const sourceId = searchParams.get('sourceId') || '';
+    const targetId = searchParams.get('targetId') || '';
+    if (!sourceId || !targetId) {
+      return NextResponse.json({ error: 'Missing sourceId or targetId' }, { status: 400 });
+    }
+
+    const preview = await previewCategoryMerge(sourceId, targetId, {
+      redirect: searchParams.get('redirect') !== '0',
+    });
+    if ('error' in preview) {
+      return NextResponse.json({ error: preview.error }, { status: preview.status });
+    }
+    return NextResponse.json(preview);
+  } catch (err) {
+    console.error('GET /api/categories/merge error', err);
+    return NextResponse.json({ error: 'Failed to preview merge' }, { status: 500 });
+  }
+}
+
+// POST: perform the merge
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as MergeBody;
+    if (!body.sourceId || !body.targetId) {
+      return NextResponse.json({ error: 'Missing sourceId or targetId' }, { status: 400 });
+    }
+
+    const result = await mergeCategories(body.sourceId, body.targetId, {
+      redirect: body.redirect ?? true,
+    });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err) {
+    console.error('POST /api/categories/merge error', err);
+    return NextResponse.json({ error: 'Failed to merge categories' }, { status: 500 });
+  }
+}
@@ -0,0 +1,111 @@
+// src/app/api/categories/move/route.ts
+// Reparent and/or reorder a category without ever creating a cycle.
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import {
+  getDescendantIds,
+  getProductGidsForCategories,
+  validateParentChange,
+  writeSiblingOrder,
+} from '@/lib/categories';
+import { syncCategoryPage } from '@/lib/category-pages';
+import { moveCategoryInClosure } from '@/lib/category-closure';
+import { queueProductRebuild } from '@/lib/product-category-jobs';
+import { recordCategoryRevision, snapshotOf, snapshotSelect } from '@/lib/category-revisions';
+
+export const dynamic = 'force-dynamic';
+
+type MoveBody = {
+  id: string;
+  parentId: string | null;
+  position?: number; // index among the new siblings; defaults to last
+};
+
+// POST: move category under `parentId` at `position`
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as MoveBody;
+    if (!body.id) {
+      return NextResponse.json({ error: 'Missing id' }, { status: 400 });
+    }
+    const parentId = body.parentId || null;
+
+    const existing = await prisma.category.findUnique({
+      where: { id: body.id },
+      select: { id: true, taxonomyId: true, ...snapshotSelect },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const invalid = await validateParentChange(body.id, parentId);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const parentChanged = existing.parentId !== parentId;
+
+    // Destination siblings in their current order, without the moved node
+    const siblings = await prisma.category.findMany({
+      where: { parentId, taxonomyId: existing.taxonomyId, NOT: { id: body.id } },
+      orderBy: [{ sortOrder: 'asc' }, { title: 'asc' }],
+      select: { id: true },
+    });
+    const ordered = siblings.map((s) => s.id);
+    const requested = Number.isInteger(body.position) ? (body.position as number) : ordered.length;
+    const position = Math.max(0, Math.min(requested, ordered.length));
+    ordered.splice(position, 0, body.id);
+
+    // Old siblings close the gap left behind
+    const oldSiblings = parentChanged
+      ? await prisma.category.findMany({
+          where: { parentId: existing.parentId, taxonomyId: existing.taxonomyId, NOT: { id: body.id } },
+          orderBy: [{ sortOrder: 'asc' }, { title: 'asc' }],
+          select: { id: true },
+        })
+      : [];
+
+    await prisma.$transaction(async (tx) => {
+      if (parentChanged) {
+        await tx.category.update({ where: { id: body.id }, data: { parentId } });
+        await moveCategoryInClosure(tx, body.id, parentId);
+      }
+      await writeSiblingOrder(tx, ordered);
+      await writeSiblingOrder(tx, oldSiblings.map((s) => s.id));
+    });
+
+    // Pure reorder: slugs and ancestry are unchanged, nothing to re-sync
+    if (!parentChanged) {
+      return NextResponse.json({ ok: true, id: body.id, parentId, position });
+    }
+
+    await recordCategoryRevision({
+      categoryId: body.id,
+      action: 'UPDATE',
+      before: snapshotOf(existing),
+      after: { ...snapshotOf(existing), parentId },
+    });
+
+    // Ancestor slugs changed for the whole subtree: re-sync pages + product metafields
+    const subtreeIds = await getDescendantIds(body.id);
+    let pagesSynced = 0;
+    for (const id of subtreeIds) {
+      if (await syncCategoryPage(id)) pagesSynced++;
+    }
+
+    // Queued: a top-level move can touch thousands of products
+    const metafields = await queueProductRebuild(await getProductGidsForCategories(subtreeIds));
+
+    return NextResponse.json({
+      ok: true,
+      id: body.id,
+      parentId,
+      position,
+      pagesSynced,
+      metafields,
+    });
+  } catch (err) {
+    console.error('POST /api/categories/move error', err);
+    return NextResponse.json({ error: 'Failed to move category' }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+// src/app/api/categories/reorder/route.ts
+// Bulk sibling reorder: the given ids become the children of `parentId` in that order.
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { writeSiblingOrder } from '@/lib/categories';
+
+type ReorderBody = {
+  parentId: string | null;
+  orderedIds: string[];
+};
+
+// PUT: persist manual sibling order
+export async function PUT(req: NextRequest) {
+  try {
+    const body = (await req.json()) as ReorderBody;
+    const parentId = body.parentId || null;
+
+    if (!Array.isArray(body.orderedIds) || body.orderedIds.length === 0) {
+      return NextResponse.json({ error: 'orderedIds[] required' }, { status: 400 });
+    }
+    const orderedIds = body.orderedIds.map(String);
+    if (new Set(orderedIds).size !== orderedIds.length) {
+      return NextResponse.json({ error: 'orderedIds contains duplicates' }, { status: 400 });
+    }
+
+    // Root level is per taxonomy; the listed categories say which one
+    const first = await prisma.category.findUnique({
+      where: { id: orderedIds[0] },
+      select: { taxonomyId: true },
+    });
+    if (!first) {
+      return NextResponse.json(
+        { error: 'Some ids are not children of this parent', ids: [orderedIds[0]] },
+        { status: 400 }
+      );
+    }
+
+    const siblings = await prisma.category.findMany({
+      where: { parentId, taxonomyId: first.taxonomyId },
+      orderBy: [{ sortOrder: 'asc' }, { title: 'asc' }],
+      select: { id: true },
+    });
+    const siblingIds = new Set(siblings.map((s) => s.id));
+
+    const foreign = orderedIds.filter((id) => !siblingIds.has(id));
+    if (foreign.length) {
+      return NextResponse.json(
+        { error: 'Some ids are not children of this parent', ids: foreign },
+        { status: 400 }
+      );
+    }
+
+    // Siblings left out of the payload keep their relative order, after the listed ones
+    const listed = new Set(orderedIds);
+    const full = [...orderedIds, ...siblings.map((s) => s.id).filter((id) => !listed.has(id))];
+
+    await writeSiblingOrder(prisma, full);
+
+    return NextResponse.json({ ok: true, parentId, orderedIds: full });
+  } catch (err) {
+    console.error('PUT /api/categories/reorder error', err);
+    return NextResponse.json({ error: 'Failed to reorder categories' }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+// src/app/api/categories/restore/route.ts
+// Undo an archive: the category and everything archived with it become public again.
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getDescendantIds } from '@/lib/categories';
+import { syncCategoryPage } from '@/lib/category-pages';
+
+export const dynamic = 'force-dynamic';
+
+type RestoreBody = { id: string };
+
+// POST: restore archived category subtree
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as RestoreBody;
+    if (!body.id) {
+      return NextResponse.json({ error: 'Missing id' }, { status: 400 });
+    }
+
+    const existing = await prisma.category.findUnique({
+      where: { id: body.id },
+      select: {
+        id: true,
+        archivedAt: true,
+        parent: { select: { title: true, archivedAt: true } },
+      },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    if (!existing.archivedAt) {
+      return NextResponse.json({ error: 'Category is not archived' }, { status: 409 });
+    }
+    if (existing.parent?.archivedAt) {
+      return NextResponse.json(
+        { error: `Parent “${existing.parent.title}” is archived; restore it first` },
+        { status: 409 }
+      );
+    }
+
+    // Descendants archived separately (earlier) stay archived
+    const subtreeIds = await getDescendantIds(body.id);
+    const toRestore = await prisma.category.findMany({
+      where: { id: { in: subtreeIds }, archivedAt: existing.archivedAt },
+      select: { id: true },
+    });
+
+    await prisma.category.updateMany({
+      where: { id: { in: toRestore.map((c) => c.id) } },
+      data: { archivedAt: null },
+    });
+
+    // Republish (the page payload publishes unless a publish window says otherwise)
+    let pagesSynced = 0;
+    for (const c of toRestore) {
+      if (await syncCategoryPage(c.id)) pagesSynced++;
+    }
+
+    return NextResponse.json({ ok: true, restored: toRestore.length, pagesSynced });
+  } catch (err) {
+    console.error('POST /api/categories/restore error', err);
+    return NextResponse.json({ error: 'Failed to restore category' }, { status: 500 });
+  }
+}
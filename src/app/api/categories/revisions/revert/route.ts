@@ -0,0 +1,118 @@
+// src/app/api/categories/revisions/revert/route.ts
+// Put a category back to the state recorded by one of its revisions.
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import {
+  getDescendantIds,
+  getProductGidsForCategories,
+  nextSortOrder,
+  validateParentChange,
+} from '@/lib/categories';
+import { syncCategoryPage } from '@/lib/category-pages';
+import { moveCategoryInClosure } from '@/lib/category-closure';
+import { handleCategorySlugChange } from '@/lib/category-slugs';
+import {
+  recordCategoryRevision,
+  snapshotOf,
+  snapshotSelect,
+  type CategorySnapshot,
+} from '@/lib/category-revisions';
+import { queueProductRebuild } from '@/lib/product-category-jobs';
+
+export const dynamic = 'force-dynamic';
+
+type RevertBody = { revisionId: string };
+
+// POST: revert to a revision's snapshot
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as RevertBody;
+    if (!body.revisionId) {
+      return NextResponse.json({ error: 'Missing revisionId' }, { status: 400 });
+    }
+
+    const revision = await prisma.categoryRevision.findUnique({ where: { id: body.revisionId } });
+    if (!revision) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+    if (revision.action === 'DELETE') {
+      return NextResponse.json({ error: 'Cannot revert to a deletion' }, { status: 400 });
+    }
+
+    const current = await prisma.category.findUnique({
+      where: { id: revision.categoryId },
+      select: { id: true, ...snapshotSelect, shopifyPageId: true, taxonomyId: true },
+    });
+    if (!current) {
+      return NextResponse.json({ error: 'Category no longer exists' }, { status: 404 });
+    }
+
+    const target = snapshotOf(revision.snapshot as CategorySnapshot);
+    const before = snapshotOf(current);
+
+    // The old parent may have moved or gone since; same guard as a normal move
+    const parentChanged = before.parentId !== target.parentId;
+    if (parentChanged) {
+      const invalid = await validateParentChange(current.id, target.parentId);
+      if (invalid) {
+        return NextResponse.json({ error: `Cannot restore parent: ${invalid}` }, { status: 409 });
+      }
+    }
+    if (before.slug !== target.slug) {
+      const taken = await prisma.category.findUnique({
+        where: { taxonomyId_slug: { taxonomyId: current.taxonomyId, slug: target.slug! } },
+        select: { id: true },
+      });
+      if (taken && taken.id !== current.id) {
+        return NextResponse.json(
+          { error: `Slug “${target.slug}” is now used by another category` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const sortOrder = parentChanged ? await nextSortOrder(target.parentId, current.taxonomyId) : undefined;
+    const updated = await prisma.$transaction(async (tx) => {
+      const row = await tx.category.update({
+        where: { id: current.id },
+        data: {
+          title: target.title!,
+          slug: target.slug!,
+          description: target.description,
+          image: target.image,
+          parentId: target.parentId,
+          ...(sortOrder !== undefined ? { sortOrder } : {}),
+        },
+        select: { id: true, ...snapshotSelect },
+      });
+      if (parentChanged) await moveCategoryInClosure(tx, current.id, target.parentId);
+      return row;
+    });
+
+    await recordCategoryRevision({
+      categoryId: current.id,
+      action: 'REVERT',
+      before,
+      after: snapshotOf(updated),
+      revertOfId: revision.id,
+    });
+
+    await syncCategoryPage(current.id);
+
+    // Slug or ancestry changed → product metafields under this category are stale
+    let metafields = null;
+    if (before.slug !== updated.slug) {
+      metafields = await handleCategorySlugChange(current.id, before.slug!, updated.slug, {
+        hadPage: Boolean(current.shopifyPageId),
+      });
+    } else if (parentChanged) {
+      const productGids = await getProductGidsForCategories(await getDescendantIds(current.id));
+      metafields = await queueProductRebuild(productGids);
+    }
+
+    return NextResponse.json({ ok: true, category: updated, metafields });
+  } catch (err) {
+    console.error('POST /api/categories/revisions/revert error', err);
+    return NextResponse.json({ error: 'Failed to revert category' }, { status: 500 });
+  }
+}
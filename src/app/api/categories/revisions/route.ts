@@ -0,0 +1,27 @@
+// src/app/api/categories/revisions/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/categories/revisions?categoryId=...&limit=50 (newest first)
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = req.nextUrl;
+    const categoryId = searchParams.get('categoryId') || '';
+    if (!categoryId) {
+      return NextResponse.json({ error: 'Missing categoryId' }, { status: 400 });
+    }
+    const limit = Math.max(1, Math.min(Number(searchParams.get('limit') || 50), 200));
+
+    const revisions = await prisma.categoryRevision.findMany({
+      where: { categoryId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+    return NextResponse.json({ revisions });
+  } catch (err) {
+    console.error('GET /api/categories/revisions error', err);
+    return NextResponse.json({ error: 'Failed to load revisions' }, { status: 500 });
+  }
+}
@@ -1,7 +1,23 @@
 // /src/app/api/categories/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
-import { shopifyAdminREST } from '@/lib/shopify';
+import {
+  buildCategoryTree,
+  getDescendantIds,
+  getProductGidsForCategories,
+  nextSortOrder,
+  parseCategoryTreeQuery,
+  scopeCategoryTree,
+  validateParentChange,
+} from '@/lib/categories';
+import { addCategoryToClosure, moveCategoryInClosure } from '@/lib/category-closure';
+import { handleCategorySlugChange } from '@/lib/category-slugs';
+import { SHOPIFY_ENABLED, ensureShopifyPageForCategory } from '@/lib/category-pages';
+import { deleteCategory, type DeleteOptions } from '@/lib/category-delete';
+import { recordCategoryRevision, snapshotOf, snapshotSelect } from '@/lib/category-revisions';
+import { registerCategoryTranslations } from '@/lib/category-translations';
+import { resolveTaxonomy, taxonomyForNewCategory } from '@/lib/taxonomies';
+import { queueProductRebuild } from '@/lib/product-category-jobs';
 
 /* =========================
    Types (align with Prisma)
@@ -13,17 +29,29 @@ type CategoryRow = {
   slug: string;
   parentId: string | null;
   image: string | null;     // <— ensure this matches your Prisma model
+  imageAlt: string | null;
+  imageWidth: number | null;
+  imageHeight: number | null;
   description: string | null;
+  seoTitle: string | null;
+  seoDescription: string | null;
+  noindex: boolean;
+  childCount: number; // live children, loaded or not (see ?depth=)
 };
 
-type CategoryNode = CategoryRow & { children: CategoryNode[] };
-
 type CreateBody = {
   title: string;
   slug: string;
+  taxonomy?: string | null; // key or id; ignored for children (they follow the parent)
   parentId?: string | null;
   image?: string | null;
+  imageAlt?: string | null;
+  imageWidth?: number | null; // as reported by /api/categories/image
+  imageHeight?: number | null;
   description?: string | null;
+  seoTitle?: string | null;
+  seoDescription?: string | null;
+  noindex?: boolean;
 };
 
 type UpdateBody = {
@@ -32,115 +60,81 @@ type UpdateBody = {
   slug?: string;
   parentId?: string | null;
   image?: string | null;
+  imageAlt?: string | null;
+  imageWidth?: number | null; // as reported by /api/categories/image
+  imageHeight?: number | null;
   description?: string | null;
+  seoTitle?: string | null;
+  seoDescription?: string | null;
+  noindex?: boolean;
 };
 
-type DeleteBody = { id: string };
+type DeleteBody = { id: string } & DeleteOptions;
 
 /* =========================
-   Shopify helpers
+   Routes
 ========================= */
 
-const SHOPIFY_ENABLED = Boolean(
-  process.env.SHOPIFY_SHOP && process.env.SHOPIFY_ADMIN_TOKEN
-);
-
-interface ShopifyPageShape {
-  id: number | string;
-  handle?: string;
-  title?: string;
-  body_html?: string;
-}
-interface ShopifyCreateUpdateResp {
-  page?: ShopifyPageShape;
-}
-
-function categoryToShopifyPagePayload(cat: {
-  title: string;
-  description: string | null;
-  slug: string;
-}) {
-  return {
-    page: {
-      title: cat.title,
-      body_html: cat.description ?? '',
-      template_suffix: 'category',
-      handle: cat.slug, // keep Shopify handle in sync with your slug
-      published: true,
-    },
-  };
-}
-
-async function ensureShopifyPageForCategory(cat: {
-  id: string;
-  title: string;
-  description: string | null;
-  slug: string;
-  shopifyPageId: string | null;
-}): Promise<{ id: string | null; handle: string | null }> {
-  if (!SHOPIFY_ENABLED) return { id: null, handle: null };
-
-  const payload = categoryToShopifyPagePayload(cat);
-
-  // Update existing page
-  if (cat.shopifyPageId) {
-    const resp = await shopifyAdminREST<ShopifyCreateUpdateResp>(
-      `/pages/${encodeURIComponent(cat.shopifyPageId)}.json`,
-      { method: 'PUT', body: JSON.stringify(payload) }
-    );
-    return {
-      id: resp.page ? String(resp.page.id) : cat.shopifyPageId,
-      handle: resp.page?.handle ?? null,
-    };
+// GET: full tree for admin UI (?archived=1 → flat list of archived categories).
+// ?taxonomy=<key|id> picks the tree; the default taxonomy when omitted.
+// ?root=<slug|id> → [that category] with its subtree; ?depth=n → only n levels
+// below the root (or the top level). Use childCount to lazy-load the rest.
+export async function GET(req: NextRequest) {
+  const taxonomy = await resolveTaxonomy(req.nextUrl.searchParams.get('taxonomy'));
+  if (!taxonomy) {
+    return NextResponse.json({ error: 'Unknown taxonomy' }, { status: 404 });
   }
 
-  // Create new page
-  const resp = await shopifyAdminREST<ShopifyCreateUpdateResp>(
-    `/pages.json`,
-    { method: 'POST', body: JSON.stringify(payload) }
-  );
-  return {
-    id: resp.page ? String(resp.page.id) : null,
-    handle: resp.page?.handle ?? null,
-  };
-}
-
-async function deleteShopifyPageById(pageId: string): Promise<void> {
-  if (!SHOPIFY_ENABLED) return;
-  await shopifyAdminREST<void>(`/pages/${encodeURIComponent(pageId)}.json`, {
-    method: 'DELETE',
-  });
-}
-
-/* =========================
-   Local helpers
-========================= */
-
-function buildTree(all: CategoryRow[], parentId: string | null): CategoryNode[] {
-  return all
-    .filter((c) => c.parentId === parentId)
-    .map((c) => ({ ...c, children: buildTree(all, c.id) }));
-}
+  if (req.nextUrl.searchParams.get('archived') === '1') {
+    const archived = await prisma.category.findMany({
+      where: { taxonomyId: taxonomy.id, archivedAt: { not: null } },
+      orderBy: [{ archivedAt: 'desc' }, { title: 'asc' }],
+      select: {
+        id: true,
+        title: true,
+        slug: true,
+        parentId: true,
+        archivedAt: true,
+        parent: { select: { title: true, archivedAt: true } },
+        _count: { select: { products: true, children: true } },
+      },
+    });
+    return NextResponse.json(archived);
+  }
 
-/* =========================
-   Routes
-========================= */
+  const query = parseCategoryTreeQuery(req.nextUrl.searchParams);
+  if (typeof query === 'string') {
+    return NextResponse.json({ error: query }, { status: 400 });
+  }
+  const scope = await scopeCategoryTree({ taxonomyId: taxonomy.id, archivedAt: null }, query);
+  if (!scope) {
+    return NextResponse.json({ error: 'Root category not found' }, { status: 404 });
+  }
 
-// GET: full tree for admin UI
-export async function GET() {
   const rows = await prisma.category.findMany({
-    orderBy: [{ parentId: 'asc' }, { title: 'asc' }],
+    where: scope.where,
+    orderBy: [{ parentId: 'asc' }, { sortOrder: 'asc' }, { title: 'asc' }],
     select: {
       id: true,
       title: true,
       slug: true,
       parentId: true,
       image: true,      // <— keep consistent with model
+      imageAlt: true,
+      imageWidth: true,
+      imageHeight: true,
       description: true,
+      seoTitle: true,
+      seoDescription: true,
+      noindex: true,
+      _count: { select: { children: { where: { archivedAt: null } } } },
     },
   });
 
-  const tree = buildTree(rows, null);
+  const tree = buildCategoryTree<CategoryRow>(
+    rows.map(({ _count, ...r }) => ({ ...r, childCount: _count.children })),
+    scope.rootParentId
+  );
   return NextResponse.json(tree);
 }
 
@@ -153,24 +147,62 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Title and slug are required' }, { status: 400 });
     }
 
-    const created = await prisma.category.create({
-      data: {
-        title: body.title,
-        slug: body.slug,
-        parentId: body.parentId ?? null,
-        image: body.image ?? null,
-        description: body.description ?? null,
-      },
-      select: {
-        id: true,
-        title: true,
-        slug: true,
-        parentId: true,
-        image: true,
-        description: true,
-        shopifyPageId: true,
-        shopifyHandle: true,
-      },
+    const taxonomy = await taxonomyForNewCategory(body.parentId ?? null, body.taxonomy);
+    if (typeof taxonomy === 'string') {
+      return NextResponse.json({ error: taxonomy }, { status: 400 });
+    }
+    const taken = await prisma.category.findUnique({
+      where: { taxonomyId_slug: { taxonomyId: taxonomy.id, slug: body.slug } },
+      select: { id: true },
+    });
+    if (taken) {
+      return NextResponse.json({ error: `Slug “${body.slug}” is already used in ${taxonomy.name}` }, { status: 409 });
+    }
+
+    const sortOrder = await nextSortOrder(body.parentId ?? null, taxonomy.id); // append to parent
+    const created = await prisma.$transaction(async (tx) => {
+      const row = await tx.category.create({
+        data: {
+          taxonomyId: taxonomy.id,
+          title: body.title,
+          slug: body.slug,
+          parentId: body.parentId ?? null,
+          image: body.image ?? null,
+          imageAlt: body.imageAlt ?? null,
+          imageWidth: body.image ? (body.imageWidth ?? null) : null,
+          imageHeight: body.image ? (body.imageHeight ?? null) : null,
+          description: body.description ?? null,
+          seoTitle: body.seoTitle ?? null,
+          seoDescription: body.seoDescription ?? null,
+          noindex: body.noindex ?? false,
+          sortOrder,
+        },
+        select: {
+          id: true,
+          title: true,
+          slug: true,
+          parentId: true,
+          image: true,
+          imageAlt: true,
+          imageWidth: true,
+          imageHeight: true,
+          description: true,
+          seoTitle: true,
+          seoDescription: true,
+          noindex: true,
+          shopifyPageId: true,
+          shopifyHandle: true,
+        },
+      });
+      await addCategoryToClosure(tx, row.id, row.parentId);
+      return row;
+    });
+
+    await recordCategoryRevision({
+      categoryId: created.id,
+      action: 'CREATE',
+      before: null,
+      after: snapshotOf(created),
     });
 
     let shopifyPageId = created.shopifyPageId;
@@ -184,6 +216,9 @@ export async function POST(req: NextRequest) {
           description: created.description,
           slug: created.slug,
           shopifyPageId: created.shopifyPageId,
+          seoTitle: created.seoTitle,
+          seoDescription: created.seoDescription,
+          noindex: created.noindex,
         });
 
         if (res.id || res.handle) {
@@ -219,35 +254,110 @@ export async function PUT(req: NextRequest) {
       return NextResponse.json({ error: 'Missing id' }, { status: 400 });
     }
 
+    const current = await prisma.category.findUnique({
+      where: { id: body.id },
+      select: { ...snapshotSelect, shopifyPageId: true, taxonomyId: true, taxonomy: { select: { name: true } } },
+    });
+    if (!current) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    // Slugs are unique per taxonomy; check here so a clash is a 409, not a constraint error
+    if (typeof body.slug === 'string' && body.slug !== current.slug) {
+      const taken = await prisma.category.findUnique({
+        where: { taxonomyId_slug: { taxonomyId: current.taxonomyId, slug: body.slug } },
+        select: { id: true },
+      });
+      if (taken && taken.id !== body.id) {
+        return NextResponse.json(
+          { error: `Slug “${body.slug}” is already used in ${current.taxonomy.name}` },
+          { status: 409 },
+        );
+      }
+    }
+
+    // Same guard as /api/categories/move: no self-parenting, no cycles
+    let appendSortOrder: number | undefined;
+    if (body.parentId !== undefined) {
+      const invalid = await validateParentChange(body.id, body.parentId ?? null);
+      if (invalid) {
+        return NextResponse.json({ error: invalid }, { status: 400 });
+      }
+      if (current.parentId !== (body.parentId ?? null)) {
+        appendSortOrder = await nextSortOrder(body.parentId ?? null, current.taxonomyId);
+      }
+    }
+
     // Build partial update data
     const data: {
       title?: string;
       slug?: string;
       parentId?: string | null;
       image?: string | null;
+      imageAlt?: string | null;
+      imageWidth?: number | null;
+      imageHeight?: number | null;
       description?: string | null;
+      seoTitle?: string | null;
+      seoDescription?: string | null;
+      noindex?: boolean;
+      sortOrder?: number;
     } = {};
     if (typeof body.title === 'string') data.title = body.title;
     if (typeof body.slug === 'string') data.slug = body.slug;
     if (body.parentId !== undefined) data.parentId = body.parentId;
     if (body.image !== undefined) data.image = body.image;
+    if (body.imageAlt !== undefined) data.imageAlt = body.imageAlt;
+    // Stored dimensions describe the stored URL; a different image without them is unknown size
+    if (body.image !== undefined && body.image !== current.image) {
+      data.imageWidth = body.image ? (body.imageWidth ?? null) : null;
+      data.imageHeight = body.image ? (body.imageHeight ?? null) : null;
+    } else if (body.imageWidth !== undefined || body.imageHeight !== undefined) {
+      data.imageWidth = body.imageWidth ?? null;
+      data.imageHeight = body.imageHeight ?? null;
+    }
     if (body.description !== undefined) data.description = body.description;
+    if (body.seoTitle !== undefined) data.seoTitle = body.seoTitle;
+    if (body.seoDescription !== undefined) data.seoDescription = body.seoDescription;
+    if (typeof body.noindex === 'boolean') data.noindex = body.noindex;
+    if (appendSortOrder !== undefined) data.sortOrder = appendSortOrder;
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const row = await tx.category.update({
+        where: { id: body.id },
+        data,
+        select: {
+          id: true,
+          title: true,
+          slug: true,
+          parentId: true,
+          image: true,
+          imageAlt: true,
+          imageWidth: true,
+          imageHeight: true,
+          description: true,
+          seoTitle: true,
+          seoDescription: true,
+          noindex: true,
+          shopifyPageId: true,
+          shopifyHandle: true,
+        },
+      });
+      if (row.parentId !== current.parentId) {
+        await moveCategoryInClosure(tx, row.id, row.parentId);
+      }
+      return row;
+    });
 
-    const updated = await prisma.category.update({
-      where: { id: body.id },
-      data,
-      select: {
-        id: true,
-        title: true,
-        slug: true,
-        parentId: true,
-        image: true,
-        description: true,
-        shopifyPageId: true,
-        shopifyHandle: true,
-      },
+    await recordCategoryRevision({
+      categoryId: updated.id,
+      action: 'UPDATE',
+      before: snapshotOf(current),
+      after: snapshotOf(updated),
     });
 
+    let result: Record<string, unknown> = updated;
+
     if (SHOPIFY_ENABLED) {
       try {
         const res = await ensureShopifyPageForCategory({
@@ -256,10 +366,13 @@ export async function PUT(req: NextRequest) {
           description: updated.description,
           slug: updated.slug,
           shopifyPageId: updated.shopifyPageId,
+          seoTitle: updated.seoTitle,
+          seoDescription: updated.seoDescription,
+          noindex: updated.noindex,
         });
 
         if (res.id || res.handle) {
-          const saved = await prisma.category.update({
+          result = await prisma.category.update({
             where: { id: updated.id },
             data: {
               shopifyPageId: res.id,
@@ -272,27 +385,49 @@ export async function PUT(req: NextRequest) {
               slug: true,
               parentId: true,
               image: true,
+              imageAlt: true,
+              imageWidth: true,
+              imageHeight: true,
               description: true,
+              seoTitle: true,
+              seoDescription: true,
+              noindex: true,
               shopifyPageId: true,
               shopifyHandle: true,
               lastSyncedAt: true,
             },
           });
-          return NextResponse.json(saved);
         }
+        // Source text may have changed; translations are keyed to its digest
+        await registerCategoryTranslations(updated.id);
       } catch (e) {
         console.error('[categories:PUT] Shopify sync failed', e);
       }
     }
 
-    return NextResponse.json(updated);
+    // Slug changed: keep the old one resolvable, redirect it, rebuild product metafields
+    if (current.slug !== updated.slug) {
+      const metafields = await handleCategorySlugChange(updated.id, current.slug, updated.slug, {
+        hadPage: Boolean(current.shopifyPageId),
+      });
+      result = { ...result, previousSlug: current.slug, metafields };
+    } else if (current.parentId !== updated.parentId) {
+      // Reparented: every product below has a new ancestor chain (as in /api/categories/move)
+      const metafields = await queueProductRebuild(
+        await getProductGidsForCategories(await getDescendantIds(updated.id))
+      );
+      result = { ...result, metafields };
+    }
+
+    return NextResponse.json(result);
   } catch (err) {
     console.error('PUT /api/categories error', err);
     return NextResponse.json({ error: 'Failed to update category' }, { status: 500 });
   }
 }
 
-// DELETE: delete category (+ optional Shopify page delete)
+// DELETE: delete category (+ Shopify page delete). Dependents need explicit options;
+// see GET /api/categories/delete-impact for what would be affected.
 export async function DELETE(req: NextRequest) {
   try {
     const body = (await req.json()) as DeleteBody;
@@ -300,29 +435,20 @@ export async function DELETE(req: NextRequest) {
       return NextResponse.json({ error: 'Missing id' }, { status: 400 });
     }
 
-    // Read first so we have the page id before removal
-    const existing = await prisma.category.findUnique({
-      where: { id: body.id },
-      select: { id: true, shopifyPageId: true },
+    const result = await deleteCategory(body.id, {
+      children: body.children,
+      products: body.products,
     });
-
-    if (!existing) {
-      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error, impact: 'impact' in result ? result.impact : undefined },
+        { status: result.status }
+      );
     }
 
-    if (SHOPIFY_ENABLED && existing.shopifyPageId) {
-      try {
-        await deleteShopifyPageById(existing.shopifyPageId);
-      } catch (e) {
-        console.error('[categories:DELETE] Shopify page delete failed', e);
-        // continue anyway
-      }
-    }
-
-    await prisma.category.delete({ where: { id: body.id } });
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, ...result });
   } catch (err) {
     console.error('DELETE /api/categories error', err);
     return NextResponse.json({ error: 'Failed to delete category' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,54 @@
+// src/app/api/categories/rules/evaluate/route.ts
+// Re-evaluation job for smart categories: syncs RULE links and queues metafield rebuilds.
+import { NextRequest, NextResponse } from 'next/server';
+import { evaluateCategoryRules, loadRuleProducts, matchesRuleSet, parseRuleSet } from '@/lib/category-rules';
+
+export const dynamic = 'force-dynamic';
+
+type EvaluateBody = {
+  categoryId?: string; // omit to evaluate every rule category
+  dryRun?: boolean;
+  rules?: unknown; // preview an unsaved rule set instead (never writes)
+};
+
+const SAMPLE = 20;
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = ((await req.json().catch(() => ({}))) ?? {}) as EvaluateBody;
+
+    if (body.rules !== undefined) {
+      const rules = parseRuleSet(body.rules);
+      if (typeof rules === 'string') {
+        return NextResponse.json({ error: rules }, { status: 400 });
+      }
+      const products = await loadRuleProducts();
+      const matching = products.filter((p) => matchesRuleSet(p, rules));
+      return NextResponse.json({
+        preview: true,
+        productsScanned: products.length,
+        matched: matching.length,
+        sample: matching.slice(0, SAMPLE).map((p) => ({ id: p.id, title: p.title, vendor: p.vendor })),
+      });
+    }
+
+    const result = await evaluateCategoryRules({
+      categoryIds: body.categoryId ? [body.categoryId] : undefined,
+      dryRun: Boolean(body.dryRun),
+    });
+    return NextResponse.json({
+      ...result,
+      // full GID lists can be long; counts plus a sample are enough for the UI
+      results: result.results.map((r) => ({
+        ...r,
+        added: r.added.length,
+        removed: r.removed.length,
+        sampleAdded: r.added.slice(0, SAMPLE),
+        sampleRemoved: r.removed.slice(0, SAMPLE),
+      })),
+    });
+  } catch (err) {
+    console.error('POST /api/categories/rules/evaluate error', err);
+    return NextResponse.json({ error: 'Failed to evaluate rules' }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+// src/app/api/categories/rules/route.ts
+// Read/save a category's smart-category rule set (null clears it).
+import { NextRequest, NextResponse, after } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { RULE_FIELDS, RULE_OPS, evaluateCategoryRules, parseRuleSet } from '@/lib/category-rules';
+
+export const dynamic = 'force-dynamic';
+
+type PutBody = {
+  categoryId: string;
+  rules: unknown; // RuleSet or null
+  evaluate?: boolean; // re-evaluate this category after the response (default true)
+};
+
+// GET /api/categories/rules?categoryId=...
+export async function GET(req: NextRequest) {
+  const categoryId = req.nextUrl.searchParams.get('categoryId') || '';
+  if (!categoryId) {
+    return NextResponse.json({ error: 'Missing categoryId' }, { status: 400 });
+  }
+  const cat = await prisma.category.findUnique({
+    where: { id: categoryId },
+    select: { rules: true, _count: { select: { products: { where: { source: 'RULE' } } } } },
+  });
+  if (!cat) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+  return NextResponse.json({
+    rules: cat.rules,
+    ruleLinks: cat._count.products,
+    fields: RULE_FIELDS,
+    ops: RULE_OPS,
+  });
+}
+
+// PUT: save rules, then (by default) apply them to this category in the background:
+// evaluation pages through the whole catalog
+export async function PUT(req: NextRequest) {
+  try {
+    const body = (await req.json()) as PutBody;
+    if (!body.categoryId) {
+      return NextResponse.json({ error: 'Missing categoryId' }, { status: 400 });
+    }
+
+    let rules: Prisma.InputJsonValue | typeof Prisma.DbNull = Prisma.DbNull;
+    if (body.rules !== null && body.rules !== undefined) {
+      const parsed = parseRuleSet(body.rules);
+      if (typeof parsed === 'string') {
+        return NextResponse.json({ error: parsed }, { status: 400 });
+      }
+      rules = parsed;
+    }
+
+    // Raw so updatedAt stays put: rules do not change the category page (see lint staleSync)
+    const json = rules === Prisma.DbNull ? null : JSON.stringify(rules);
+    const count = await prisma.$executeRaw`
+      UPDATE "Category" SET "rules" = ${json}::jsonb WHERE "id" = ${body.categoryId}
+    `;
+    if (!count) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const evaluating = body.evaluate !== false;
+    if (evaluating) {
+      const categoryId = body.categoryId;
+      after(() =>
+        evaluateCategoryRules({ categoryIds: [categoryId] }).catch((e) =>
+          console.error('[category-rules] evaluation failed', categoryId, e)
+        )
+      );
+    }
+    return NextResponse.json({ ok: true, rules: rules === Prisma.DbNull ? null : rules, evaluating });
+  } catch (err) {
+    console.error('PUT /api/categories/rules error', err);
+    return NextResponse.json({ error: 'Failed to save rules' }, { status: 500 });
+  }
+}
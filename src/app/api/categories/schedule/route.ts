@@ -0,0 +1,62 @@
+// src/app/api/categories/schedule/route.ts
+// Publish windows for seasonal categories; GET lists what is coming up.
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { listUpcomingSchedules, parseScheduleDate, setCategorySchedule, validateSchedule } from '@/lib/category-schedule';
+
+export const dynamic = 'force-dynamic';
+
+type PutBody = { categoryId: string; publishAt?: string | null; unpublishAt?: string | null };
+
+// GET → { now, upcoming }; GET ?categoryId=... → that category's window
+export async function GET(req: NextRequest) {
+  try {
+    const categoryId = req.nextUrl.searchParams.get('categoryId');
+    if (categoryId) {
+      const row = await prisma.category.findUnique({
+        where: { id: categoryId },
+        select: { publishAt: true, unpublishAt: true, scheduleAppliedAt: true },
+      });
+      if (!row) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+      return NextResponse.json(row);
+    }
+    const now = new Date();
+    return NextResponse.json({ now, upcoming: await listUpcomingSchedules(now) });
+  } catch (err) {
+    console.error('GET /api/categories/schedule error', err);
+    return NextResponse.json({ error: 'Failed to load schedules' }, { status: 500 });
+  }
+}
+
+// PUT { categoryId, publishAt?, unpublishAt? } — ISO timestamps; null clears, omitted keeps
+export async function PUT(req: NextRequest) {
+  try {
+    const body = (await req.json()) as PutBody;
+    if (!body.categoryId) {
+      return NextResponse.json({ error: 'Missing categoryId' }, { status: 400 });
+    }
+    const publishAt = parseScheduleDate(body.publishAt);
+    const unpublishAt = parseScheduleDate(body.unpublishAt);
+    if (typeof publishAt === 'string') return NextResponse.json({ error: publishAt }, { status: 400 });
+    if (typeof unpublishAt === 'string') return NextResponse.json({ error: unpublishAt }, { status: 400 });
+
+    const current = await prisma.category.findUnique({
+      where: { id: body.categoryId },
+      select: { publishAt: true, unpublishAt: true },
+    });
+    if (!current) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+    const window = {
+      publishAt: publishAt === undefined ? current.publishAt : publishAt,
+      unpublishAt: unpublishAt === undefined ? current.unpublishAt : unpublishAt,
+    };
+    const invalid = validateSchedule(window.publishAt, window.unpublishAt);
+    if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+
+    const result = await setCategorySchedule(body.categoryId, window);
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err) {
+    console.error('PUT /api/categories/schedule error', err);
+    return NextResponse.json({ error: 'Failed to save schedule' }, { status: 500 });
+  }
+}
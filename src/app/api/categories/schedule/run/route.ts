@@ -0,0 +1,18 @@
+// src/app/api/categories/schedule/run/route.ts
+// Applies due publish/unpublish times to Shopify pages. Point a cron (every few
+// minutes) at POST with `Authorization: Bearer $CRON_SECRET`; the dashboard's
+// "Run now" button uses the normal session.
+import { NextResponse } from 'next/server';
+import { runCategorySchedules } from '@/lib/category-schedule';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST() {
+  try {
+    const result = await runCategorySchedules();
+    return NextResponse.json({ ok: result.failed.length === 0, ...result });
+  } catch (err) {
+    console.error('POST /api/categories/schedule/run error', err);
+    return NextResponse.json({ error: 'Failed to run schedules' }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+// src/app/api/categories/shopify-category/route.ts
+// Map a category to a Shopify Standard Product Taxonomy node and push it to the affected products.
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getDescendantIds, getProductGidsForCategories } from '@/lib/categories';
+import { getShopifyTaxonomyNode } from '@/lib/shopify-taxonomy';
+import { queueProductRebuild } from '@/lib/product-category-jobs';
+
+export const dynamic = 'force-dynamic';
+
+type PutBody = { categoryId: string; shopifyTaxonomyId: string | null; push?: boolean };
+
+// GET ?categoryId=... → { mapped, inherited } (inherited = nearest mapped ancestor, used when unmapped)
+export async function GET(req: NextRequest) {
+  try {
+    const categoryId = req.nextUrl.searchParams.get('categoryId') || '';
+    if (!categoryId) {
+      return NextResponse.json({ error: 'Missing categoryId' }, { status: 400 });
+    }
+    const chain = await prisma.categoryClosure.findMany({
+      where: { descendantId: categoryId, ancestor: { shopifyTaxonomyId: { not: null } } },
+      orderBy: { depth: 'asc' },
+      select: { depth: true, ancestor: { select: { title: true, shopifyTaxonomyId: true } } },
+    });
+    const own = chain.find((c) => c.depth === 0);
+    const above = chain.find((c) => c.depth > 0);
+    // A mapping whose node is missing from the loaded copy still shows its id
+    const describe = async (id: string) =>
+      (await getShopifyTaxonomyNode(id)) ?? { id, name: id, fullName: id, level: null, isLeaf: null };
+
+    return NextResponse.json({
+      mapped: own ? await describe(own.ancestor.shopifyTaxonomyId!) : null,
+      inherited: above ? { from: above.ancestor.title, node: await describe(above.ancestor.shopifyTaxonomyId!) } : null,
+    });
+  } catch (err) {
+    console.error('GET /api/categories/shopify-category error', err);
+    return NextResponse.json({ error: 'Failed to load mapping' }, { status: 500 });
+  }
+}
+
+// PUT { categoryId, shopifyTaxonomyId | null, push? = true } → push re-evaluates every product in the subtree
+export async function PUT(req: NextRequest) {
+  try {
+    const body = (await req.json()) as PutBody;
+    if (!body.categoryId || body.shopifyTaxonomyId === undefined) {
+      return NextResponse.json({ error: 'categoryId and shopifyTaxonomyId are required' }, { status: 400 });
+    }
+    const exists = await prisma.category.findUnique({ where: { id: body.categoryId }, select: { id: true } });
+    if (!exists) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    if (body.shopifyTaxonomyId && !(await getShopifyTaxonomyNode(body.shopifyTaxonomyId))) {
+      return NextResponse.json({ error: 'Unknown Shopify taxonomy category (is the taxonomy loaded?)' }, { status: 400 });
+    }
+
+    // Raw so updatedAt stays put: the mapping does not change the category page (see lint staleSync)
+    await prisma.$executeRaw`
+      UPDATE "Category" SET "shopifyTaxonomyId" = ${body.shopifyTaxonomyId || null} WHERE "id" = ${body.categoryId}
+    `;
+
+    // Products anywhere below may now resolve to a different most-specific node
+    let products = null;
+    if (body.push !== false) {
+      const gids = await getProductGidsForCategories(await getDescendantIds(body.categoryId));
+      products = await queueProductRebuild(gids);
+    }
+    return NextResponse.json({ ok: true, shopifyTaxonomyId: body.shopifyTaxonomyId || null, products });
+  } catch (err) {
+    console.error('PUT /api/categories/shopify-category error', err);
+    return NextResponse.json({ error: 'Failed to save mapping' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+// src/app/api/categories/suggest/route.ts
+// Category suggestions learned from existing assignments. GET ?productGid= (repeatable,
+// numeric ids work too) &limit=5&taxonomy=; POST retrains the in-memory model.
+import { NextRequest, NextResponse } from 'next/server';
+import { categorySuggesterStatus, retrainCategorySuggester, suggestCategories } from '@/lib/category-suggest';
+import { normalizeProductGid } from '@/lib/product-category-jobs';
+import { resolveTaxonomy } from '@/lib/taxonomies';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_PRODUCTS = 100;
+
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const productGids = [...new Set(params.getAll('productGid').map((g) => normalizeProductGid(g.trim())).filter(Boolean))];
+  if (!productGids.length) return NextResponse.json({ error: 'Missing productGid' }, { status: 400 });
+  if (productGids.length > MAX_PRODUCTS) {
+    return NextResponse.json({ error: `At most ${MAX_PRODUCTS} products per request` }, { status: 400 });
+  }
+  const limit = Math.max(1, Math.min(Number(params.get('limit')) || 5, 20));
+
+  const taxonomy = await resolveTaxonomy(params.get('taxonomy'));
+  if (!taxonomy) return NextResponse.json({ error: 'Unknown taxonomy' }, { status: 404 });
+
+  try {
+    const suggestions = await suggestCategories(productGids, { taxonomyId: taxonomy.id, limit });
+    return NextResponse.json({ suggestions: Object.fromEntries(suggestions), model: categorySuggesterStatus() });
+  } catch (err) {
+    console.error('GET /api/categories/suggest error', err);
+    return NextResponse.json({ error: 'Failed to suggest categories' }, { status: 500 });
+  }
+}
+
+export async function POST() {
+  try {
+    return NextResponse.json(await retrainCategorySuggester());
+  } catch (err) {
+    console.error('POST /api/categories/suggest error', err);
+    return NextResponse.json({ error: 'Failed to train suggester' }, { status: 500 });
+  }
+}
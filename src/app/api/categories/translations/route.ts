@@ -0,0 +1,114 @@
+// src/app/api/categories/translations/route.ts
+// Per-locale title/description/SEO text for one category; saved translations
+// are registered on the category's Shopify page.
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import {
+  DEFAULT_LOCALE,
+  normalizeLocale,
+  registerCategoryTranslations,
+  removeCategoryPageLocale,
+} from '@/lib/category-translations';
+
+export const dynamic = 'force-dynamic';
+
+type PutBody = {
+  categoryId: string;
+  locale: string;
+  title?: string | null;
+  description?: string | null;
+  seoTitle?: string | null;
+  seoDescription?: string | null;
+};
+
+type DeleteBody = { categoryId: string; locale: string };
+
+const clean = (v: string | null | undefined) => (typeof v === 'string' ? v.trim() || null : null);
+
+// GET /api/categories/translations?categoryId=...
+export async function GET(req: NextRequest) {
+  const categoryId = req.nextUrl.searchParams.get('categoryId') || '';
+  if (!categoryId) {
+    return NextResponse.json({ error: 'Missing categoryId' }, { status: 400 });
+  }
+  const translations = await prisma.categoryTranslation.findMany({
+    where: { categoryId },
+    orderBy: { locale: 'asc' },
+    select: {
+      locale: true,
+      title: true,
+      description: true,
+      seoTitle: true,
+      seoDescription: true,
+      updatedAt: true,
+    },
+  });
+  return NextResponse.json({ defaultLocale: DEFAULT_LOCALE, translations });
+}
+
+// PUT: upsert one locale
+export async function PUT(req: NextRequest) {
+  try {
+    const body = (await req.json()) as PutBody;
+    const locale = normalizeLocale(body.locale);
+    if (!body.categoryId || !locale) {
+      return NextResponse.json({ error: 'Missing categoryId or invalid locale' }, { status: 400 });
+    }
+    if (locale === DEFAULT_LOCALE) {
+      return NextResponse.json(
+        { error: `“${DEFAULT_LOCALE}” is the default language; edit the category itself` },
+        { status: 400 }
+      );
+    }
+    const exists = await prisma.category.findUnique({ where: { id: body.categoryId }, select: { id: true } });
+    if (!exists) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const data = {
+      title: clean(body.title),
+      description: clean(body.description),
+      seoTitle: clean(body.seoTitle),
+      seoDescription: clean(body.seoDescription),
+    };
+    const saved = await prisma.categoryTranslation.upsert({
+      where: { categoryId_locale: { categoryId: body.categoryId, locale } },
+      create: { categoryId: body.categoryId, locale, ...data },
+      update: data,
+    });
+
+    const registered = await registerCategoryTranslations(body.categoryId);
+    return NextResponse.json({ ...saved, registered });
+  } catch (err) {
+    console.error('PUT /api/categories/translations error', err);
+    return NextResponse.json({ error: 'Failed to save translation' }, { status: 500 });
+  }
+}
+
+// DELETE: remove one locale (locally and on the Shopify page)
+export async function DELETE(req: NextRequest) {
+  try {
+    const body = (await req.json()) as DeleteBody;
+    const locale = normalizeLocale(body.locale);
+    if (!body.categoryId || !locale) {
+      return NextResponse.json({ error: 'Missing categoryId or invalid locale' }, { status: 400 });
+    }
+
+    const { count } = await prisma.categoryTranslation.deleteMany({
+      where: { categoryId: body.categoryId, locale },
+    });
+    if (!count) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const cat = await prisma.category.findUnique({
+      where: { id: body.categoryId },
+      select: { shopifyPageId: true },
+    });
+    await removeCategoryPageLocale(cat?.shopifyPageId ?? null, locale);
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error('DELETE /api/categories/translations error', err);
+    return NextResponse.json({ error: 'Failed to delete translation' }, { status: 500 });
+  }
+}
@@ -1,6 +1,9 @@
 // /src/app/api/categories/route.ts
 import { NextRequest, NextResponse } from 'next/server'
 import prisma from '@/lib/prisma'
+import { buildCategoryTree, nextSortOrder, validateParentChange } from '@/lib/categories'
+import { addCategoryToClosure, moveCategoryInClosure } from '@/lib/category-closure'
+import { getDefaultTaxonomy, taxonomyForNewCategory } from '@/lib/taxonomies'
 
 type CategoryRow = {
   id: string
@@ -11,15 +14,13 @@ type CategoryRow = {
   description: string | null
 }
 
-type CategoryNode = CategoryRow & {
-  children: CategoryNode[]
-}
-
-// GET: return full tree for the admin UI
+// GET: return full tree for the admin UI (default taxonomy only)
 export async function GET() {
+  const taxonomy = await getDefaultTaxonomy()
   // Always read fresh, include image/description
   const rows: CategoryRow[] = await prisma.category.findMany({
-    orderBy: [{ parentId: 'asc' }, { title: 'asc' }],
+    where: { taxonomyId: taxonomy.id, archivedAt: null },
+    orderBy: [{ parentId: 'asc' }, { sortOrder: 'asc' }, { title: 'asc' }],
     select: {
       id: true,
       title: true,
@@ -30,15 +31,7 @@ export async function GET() {
     },
   })
 
-  const buildTree = (all: CategoryRow[], parentId: string | null): CategoryNode[] =>
-    all
-      .filter((c) => c.parentId === parentId)
-      .map((c) => ({
-        ...c,
-        children: buildTree(all, c.id),
-      }))
-
-  const tree = buildTree(rows, null)
+  const tree = buildCategoryTree(rows)
   return NextResponse.json(tree)
 }
 
@@ -52,17 +45,29 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Title and slug are required' }, { status: 400 })
     }
 
-    const created = await prisma.category.create({
-      data: {
-        title,
-        slug,
-        parentId: body.parentId ?? null,
-        image: body.image ?? null,
-        description: body.description ?? null,
-      },
-      select: {
-        id: true, title: true, slug: true, parentId: true, image: true, description: true,
-      },
+    const taxonomy = await taxonomyForNewCategory(body.parentId ?? null)
+    if (typeof taxonomy === 'string') {
+      return NextResponse.json({ error: taxonomy }, { status: 400 })
+    }
+
+    const sortOrder = await nextSortOrder(body.parentId ?? null, taxonomy.id)
+    const created = await prisma.$transaction(async (tx) => {
+      const row = await tx.category.create({
+        data: {
+          taxonomyId: taxonomy.id,
+          title,
+          slug,
+          parentId: body.parentId ?? null,
+          image: body.image ?? null,
+          description: body.description ?? null,
+          sortOrder,
+        },
+        select: {
+          id: true, title: true, slug: true, parentId: true, image: true, description: true,
+        },
+      })
+      await addCategoryToClosure(tx, row.id, row.parentId)
+      return row
     })
 
     return NextResponse.json(created)
@@ -81,6 +86,13 @@ export async function PUT(req: NextRequest) {
       return NextResponse.json({ error: 'Missing id' }, { status: 400 })
     }
 
+    if (body.parentId !== undefined) {
+      const invalid = await validateParentChange(id, body.parentId ?? null)
+      if (invalid) {
+        return NextResponse.json({ error: invalid }, { status: 400 })
+      }
+    }
+
     const data: Record<string, unknown> = {}
     if (typeof body.title === 'string') data.title = body.title
     if (typeof body.slug === 'string') data.slug = body.slug
@@ -88,12 +100,17 @@ export async function PUT(req: NextRequest) {
     if (body.image !== undefined) data.image = body.image ?? null
     if (body.description !== undefined) data.description = body.description ?? null
 
-    const updated = await prisma.category.update({
-      where: { id },
-      data,
-      select: {
-        id: true, title: true, slug: true, parentId: true, image: true, description: true,
-      },
+    const updated = await prisma.$transaction(async (tx) => {
+      const row = await tx.category.update({
+        where: { id },
+        data,
+        select: {
+          id: true, title: true, slug: true, parentId: true, image: true, description: true,
+        },
+      })
+      // Re-link the subtree; an unchanged parent just rewrites the same rows
+      if (body.parentId !== undefined) await moveCategoryInClosure(tx, id, row.parentId)
+      return row
     })
 
     return NextResponse.json(updated)
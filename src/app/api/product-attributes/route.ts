@@ -0,0 +1,46 @@
+// src/app/api/product-attributes/route.ts
+// A product's attribute values (for attributes its categories define or inherit).
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getProductAttributeValues,
+  getProductAttributes,
+  setProductAttributeValues,
+} from '@/lib/category-attributes';
+
+export const dynamic = 'force-dynamic';
+
+type PutBody = {
+  productGid: string;
+  values: Record<string, string | number | boolean | null>; // null/'' clears
+};
+
+// GET /api/product-attributes?productGid=...
+export async function GET(req: NextRequest) {
+  const productGid = req.nextUrl.searchParams.get('productGid') || '';
+  if (!productGid) {
+    return NextResponse.json({ error: 'Missing productGid' }, { status: 400 });
+  }
+  const [attributes, values] = await Promise.all([
+    getProductAttributes(productGid),
+    getProductAttributeValues(productGid),
+  ]);
+  return NextResponse.json({ attributes, values });
+}
+
+// PUT: set/clear values and rewrite the taxonomy.attributes metafield
+export async function PUT(req: NextRequest) {
+  try {
+    const body = (await req.json()) as PutBody;
+    if (!body.productGid || !body.values || typeof body.values !== 'object') {
+      return NextResponse.json({ error: 'Missing productGid or values' }, { status: 400 });
+    }
+    const result = await setProductAttributeValues(body.productGid, body.values);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error('PUT /api/product-attributes error', err);
+    return NextResponse.json({ error: 'Failed to save attribute values' }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+// src/app/api/product-categories/bulk/retry/route.ts
+// Re-queues the failed products of a finished bulk job and runs it again.
+import { NextRequest, NextResponse } from 'next/server';
+import { retryBulkAssignJob, scheduleBulkAssignJob } from '@/lib/product-category-jobs';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(req: NextRequest) {
+  const { jobId } = (await req.json().catch(() => ({}))) as { jobId?: string };
+  if (!jobId) return NextResponse.json({ error: 'jobId is required' }, { status: 400 });
+
+  try {
+    const queued = await retryBulkAssignJob(jobId);
+    if (!queued) {
+      return NextResponse.json({ error: 'Job not found or still running' }, { status: 409 });
+    }
+    scheduleBulkAssignJob(jobId);
+    return NextResponse.json({ jobId }, { status: 202 });
+  } catch (err) {
+    console.error('POST /api/product-categories/bulk/retry error', err);
+    return NextResponse.json({ error: 'Failed to retry job' }, { status: 500 });
+  }
+}
@@ -0,0 +1,83 @@
+// src/app/api/product-categories/bulk/route.ts
+// Bulk assignment: POST writes the links for many products at once and returns a
+// job id right away; metafield/category rebuilds run after the response. GET ?jobId=
+// reports progress and per-product failures (no jobId → recent jobs).
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import type { ProductCategoryJobMode } from '@prisma/client';
+import { resolveTaxonomy } from '@/lib/taxonomies';
+import {
+  createBulkAssignJob,
+  getBulkAssignJob,
+  listBulkAssignJobs,
+  normalizeProductGid,
+  scheduleBulkAssignJob,
+  validateBulkAssign,
+} from '@/lib/product-category-jobs';
+
+export const dynamic = 'force-dynamic';
+
+type BulkBody = {
+  productGids?: string[];
+  productIds?: string[]; // numeric ids or gids
+  categoryIds?: string[];
+  slugs?: string[];
+  taxonomy?: string; // key or id `slugs` belong to; also the tree `replace` with no categories clears
+  mode?: string; // add | remove | replace
+};
+
+export async function GET(req: NextRequest) {
+  const jobId = req.nextUrl.searchParams.get('jobId');
+  try {
+    if (!jobId) return NextResponse.json({ jobs: await listBulkAssignJobs() });
+    const job = await getBulkAssignJob(jobId);
+    if (!job) return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    return NextResponse.json(job);
+  } catch (err) {
+    console.error('GET /api/product-categories/bulk error', err);
+    return NextResponse.json({ error: 'Failed to load jobs' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  let body: BulkBody;
+  try {
+    body = (await req.json()) as BulkBody;
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const mode = String(body.mode ?? 'add').toUpperCase() as ProductCategoryJobMode;
+  const productGids = [...(body.productGids ?? []), ...(body.productIds ?? [])]
+    .map((p) => normalizeProductGid(String(p || '').trim()))
+    .filter(Boolean);
+
+  const taxonomy = await resolveTaxonomy(body.taxonomy);
+  if (!taxonomy) return NextResponse.json({ error: 'Unknown taxonomy' }, { status: 400 });
+
+  const categoryIds = [...(body.categoryIds ?? [])];
+  if (body.slugs?.length) {
+    const found = await prisma.category.findMany({
+      where: { taxonomyId: taxonomy.id, slug: { in: body.slugs } },
+      select: { id: true, slug: true },
+    });
+    const missing = body.slugs.filter((s) => !found.some((f) => f.slug === s));
+    if (missing.length) {
+      return NextResponse.json({ error: `Unknown slugs: ${missing.join(', ')}` }, { status: 400 });
+    }
+    categoryIds.push(...found.map((f) => f.id));
+  }
+
+  const invalid = validateBulkAssign({ mode, productGids, categoryIds });
+  if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+
+  try {
+    const job = await createBulkAssignJob({ mode, productGids, categoryIds, replaceTaxonomyIds: [taxonomy.id] });
+    if (typeof job === 'string') return NextResponse.json({ error: job }, { status: 400 });
+    scheduleBulkAssignJob(job.id);
+    return NextResponse.json({ jobId: job.id, ...job }, { status: 202 });
+  } catch (err) {
+    console.error('POST /api/product-categories/bulk error', err);
+    return NextResponse.json({ error: 'Failed to assign categories' }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+// src/app/api/product-categories/primary/route.ts
+// Marks one of a product's categories as primary (its canonical breadcrumb,
+// written to taxonomy.primary_path). Linking happens on the fly if needed.
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getPrimaryPathsForProducts } from '@/lib/categories';
+import { normalizeProductGid } from '@/lib/product-category-jobs';
+import { rebuildProductCategoryMetafield } from '@/lib/product-metafields';
+import { resolveTaxonomy } from '@/lib/taxonomies';
+
+export const dynamic = 'force-dynamic';
+
+type PrimaryBody = {
+  productGid?: string;
+  productId?: string; // numeric or gid
+  categoryId?: string | null; // null (and no slug) clears the primary
+  slug?: string;
+  taxonomy?: string; // namespace of `slug`; default taxonomy when omitted
+};
+
+export async function GET(req: NextRequest) {
+  const productGid = normalizeProductGid(req.nextUrl.searchParams.get('productGid') ?? '');
+  if (!productGid) return NextResponse.json({ error: 'Missing productGid' }, { status: 400 });
+  const link = await prisma.productCategory.findFirst({
+    where: { productGid, isPrimary: true },
+    select: { categoryId: true },
+  });
+  const paths = await getPrimaryPathsForProducts([productGid]);
+  return NextResponse.json({ productGid, categoryId: link?.categoryId ?? null, path: paths.get(productGid) });
+}
+
+export async function PUT(req: NextRequest) {
+  const body = (await req.json().catch(() => ({}))) as PrimaryBody;
+  const productGid = normalizeProductGid(String(body.productGid ?? body.productId ?? ''));
+  if (!productGid) return NextResponse.json({ error: 'Missing productGid/productId' }, { status: 400 });
+
+  let categoryId = body.categoryId ?? null;
+  if (!categoryId && body.slug) {
+    const taxonomy = await resolveTaxonomy(body.taxonomy);
+    if (!taxonomy) return NextResponse.json({ error: 'Unknown taxonomy' }, { status: 400 });
+    const found = await prisma.category.findUnique({
+      where: { taxonomyId_slug: { taxonomyId: taxonomy.id, slug: body.slug } },
+      select: { id: true },
+    });
+    if (!found) return NextResponse.json({ error: `Unknown slug: ${body.slug}` }, { status: 404 });
+    categoryId = found.id;
+  }
+  if (categoryId && !(await prisma.category.findUnique({ where: { id: categoryId }, select: { id: true } }))) {
+    return NextResponse.json({ error: 'Category not found' }, { status: 404 });
+  }
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      // Clear first: the partial unique index allows only one primary per product
+      await tx.productCategory.updateMany({ where: { productGid, isPrimary: true }, data: { isPrimary: false } });
+      if (categoryId) {
+        await tx.productCategory.upsert({
+          where: { productGid_categoryId: { productGid, categoryId } },
+          create: { productGid, categoryId, isPrimary: true },
+          // Choosing it by hand makes it a manual link, so rule re-evaluation keeps it
+          update: { isPrimary: true, source: 'MANUAL' },
+        });
+      }
+    });
+
+    const paths = await getPrimaryPathsForProducts([productGid]);
+    const path = paths.get(productGid)!;
+    await rebuildProductCategoryMetafield(productGid, { primaryPath: path });
+    return NextResponse.json({ ok: true, productGid, categoryId, path });
+  } catch (err) {
+    console.error('PUT /api/product-categories/primary error', err);
+    return NextResponse.json({ error: 'Failed to set primary category' }, { status: 500 });
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import prisma from '@/lib/prisma'
 import { rebuildProductCategoryMetafield } from '@/lib/product-metafields'
+import { normalizeProductGid } from '@/lib/product-category-jobs'
+import { resolveTaxonomy } from '@/lib/taxonomies'
 
 // ---------- Types ----------
 type AssignBody = {
@@ -9,7 +11,8 @@ type AssignBody = {
   categoryId?: string
   categoryIds?: string[]
   slugs?: string[]
-  replaceExisting?: boolean
+  taxonomy?: string // key or id that `slugs` belong to; default taxonomy when omitted
+  replaceExisting?: boolean // replaces links only within the taxonomies being assigned
 }
 
 /*
@@ -26,24 +29,17 @@ type DeleteBody = {
   categoryId?: string;       // optional single
   slug?: string;             // optional single
   slugs?: string[];          // optional many
+  taxonomy?: string;         // slug namespace, and limits `all` to one taxonomy
   all?: boolean;             // nukes all assignments for the product
 };
 
 type LinkResult = { added: number; removed: number }
 
 // ---------- Helpers ----------
-function normalizeProductGid(idOrGid: string): string {
-  if (!idOrGid) return idOrGid
-  if (idOrGid.startsWith('gid://shopify/Product/')) return idOrGid
-  // numeric id → wrap as GID
-  if (/^\d+$/.test(idOrGid)) return `gid://shopify/Product/${idOrGid}`
-  return idOrGid
-}
-
-async function idsFromSlugs(slugs: string[]): Promise<string[]> {
+async function idsFromSlugs(slugs: string[], taxonomyId: string): Promise<string[]> {
   if (!slugs.length) return []
   const found = await prisma.category.findMany({
-    where: { slug: { in: slugs } },
+    where: { taxonomyId, slug: { in: slugs } },
     select: { id: true },
   })
   return found.map(c => c.id)
@@ -58,8 +54,27 @@ async function linkCategories(
   let removed = 0
   let added = 0
 
+  // An explicit assignment takes ownership of a rule-generated link, so rule re-evaluation keeps it
+  await prisma.productCategory.updateMany({
+    where: { productGid, categoryId: { in: unique }, source: 'RULE' },
+    data: { source: 'MANUAL' },
+  })
+
   if (replaceExisting) {
-    const del = await prisma.productCategory.deleteMany({ where: { productGid } })
+    // Assignments are per taxonomy: replacing "Shop by Part" links leaves other trees alone
+    const taxonomies = await prisma.category.findMany({
+      where: { id: { in: unique } },
+      distinct: ['taxonomyId'],
+      select: { taxonomyId: true },
+    })
+    // Links that stay are kept (not re-created), so a primary flag on them survives
+    const del = await prisma.productCategory.deleteMany({
+      where: {
+        productGid,
+        categoryId: { notIn: unique },
+        category: { taxonomyId: { in: taxonomies.map(t => t.taxonomyId) } },
+      },
+    })
     removed = del.count
     if (unique.length) {
       const created = await prisma.productCategory.createMany({
@@ -112,7 +127,11 @@ export async function POST(req: NextRequest) {
     for (const id of body.categoryIds) categoryIds.push(String(id))
   }
   if (Array.isArray(body.slugs) && body.slugs.length) {
-    const resolved = await idsFromSlugs(body.slugs.map(String))
+    const taxonomy = await resolveTaxonomy(body.taxonomy)
+    if (!taxonomy) {
+      return NextResponse.json({ error: 'Unknown taxonomy' }, { status: 400 })
+    }
+    const resolved = await idsFromSlugs(body.slugs.map(String), taxonomy.id)
     categoryIds.push(...resolved)
   }
 
@@ -192,10 +211,15 @@ export async function DELETE(req: NextRequest) {
     );
   }
 
-  // 1) Unassign ALL
+  const taxonomy = await resolveTaxonomy(body.taxonomy);
+  if (!taxonomy) {
+    return NextResponse.json({ error: 'Unknown taxonomy' }, { status: 400 });
+  }
+
+  // 1) Unassign ALL (in every taxonomy unless one is named)
   if (body.all) {
     const del = await prisma.productCategory.deleteMany({
-      where: { productGid },
+      where: { productGid, ...(body.taxonomy ? { category: { taxonomyId: taxonomy.id } } : {}) },
     });
     await rebuildProductCategoryMetafield(productGid);
     return NextResponse.json({ success: true, removed: del.count });
@@ -203,7 +227,7 @@ export async function DELETE(req: NextRequest) {
 
   // 2) Unassign MANY by slugs array
   if (Array.isArray(body.slugs) && body.slugs.length) {
-    const catIds = await idsFromSlugs(body.slugs.map(String));
+    const catIds = await idsFromSlugs(body.slugs.map(String), taxonomy.id);
     if (!catIds.length) {
       // nothing to delete; idempotent success
       await rebuildProductCategoryMetafield(productGid);
@@ -220,7 +244,7 @@ export async function DELETE(req: NextRequest) {
   let categoryId: string | null = body.categoryId ?? null;
   if (!categoryId && body.slug) {
     const found = await prisma.category.findUnique({
-      where: { slug: String(body.slug) },
+      where: { taxonomyId_slug: { taxonomyId: taxonomy.id, slug: String(body.slug) } },
       select: { id: true },
     });
     categoryId = found?.id ?? null;
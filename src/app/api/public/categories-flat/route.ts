@@ -1,13 +1,32 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
 import prisma from '@/lib/prisma'
+import { flattenCategoryRows, publicCategoryWhere } from '@/lib/categories'
+import { localizeCategories, normalizeLocale } from '@/lib/category-translations'
+import { imageVariants } from '@/lib/category-images'
+import { resolveTaxonomy } from '@/lib/taxonomies'
 
-export async function GET() {
+// GET ?locale=es-MX → translated titles with fallback to `es`, then the default language
+// GET ?taxonomy=build-stage → that taxonomy only (default taxonomy when omitted)
+export async function GET(req: NextRequest) {
+  const locale = normalizeLocale(req.nextUrl.searchParams.get('locale'))
+  const taxonomy = await resolveTaxonomy(req.nextUrl.searchParams.get('taxonomy'))
+  if (!taxonomy) {
+    const res = NextResponse.json({ error: 'Unknown taxonomy' }, { status: 404 })
+    res.headers.set('Access-Control-Allow-Origin', '*')
+    return res
+  }
   const rows = await prisma.category.findMany({
-    select: { id: true, title: true, slug: true, parentId: true },
-    orderBy: { title: 'asc' },
+    where: { ...publicCategoryWhere(), taxonomyId: taxonomy.id },
+    select: { id: true, title: true, slug: true, parentId: true, image: true, imageAlt: true, imageWidth: true },
+    orderBy: [{ sortOrder: 'asc' }, { title: 'asc' }],
   })
-  const res = NextResponse.json(rows)
+  // Depth-first, so each parent precedes its children in merchandising order
+  const flat = flattenCategoryRows(await localizeCategories(rows, locale)).map(({ imageWidth, ...r }) => ({
+    ...r,
+    imageVariants: imageVariants(r.image, imageWidth),
+  }))
+  const res = NextResponse.json(flat)
   res.headers.set('Access-Control-Allow-Origin', '*')
   res.headers.set('Access-Control-Allow-Methods', 'GET, OPTIONS')
   res.headers.set('Access-Control-Allow-Headers', 'Content-Type')
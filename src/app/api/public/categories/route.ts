@@ -1,6 +1,10 @@
 // /src/app/api/public/categories/route.ts
 import { NextRequest, NextResponse } from 'next/server'
 import prisma from '@/lib/prisma'
+import { buildCategoryTree, parseCategoryTreeQuery, publicCategoryWhere, scopeCategoryTree } from '@/lib/categories'
+import { DEFAULT_LOCALE, localizeCategories, normalizeLocale } from '@/lib/category-translations'
+import { imageVariants } from '@/lib/category-images'
+import { resolveTaxonomy } from '@/lib/taxonomies'
 
 const corsHeaders: Record<string, string> = {
   'Access-Control-Allow-Origin': '*',
@@ -19,35 +23,64 @@ type CategoryRow = {
   slug: string
   parentId: string | null
   image: string | null
+  imageAlt: string | null
+  imageWidth: number | null
+  imageHeight: number | null
   description: string | null
 }
 
-type CategoryNode = CategoryRow & { children: CategoryNode[] }
+type CategoryOut = CategoryRow & {
+  imageVariants: Array<{ width: number; url: string }> // Shopify CDN resizes, for srcset
+  childCount: number // public children, loaded or not (see ?depth=)
+}
 
-export async function GET(_req: NextRequest) {
+// GET ?locale=fr-CA → translated title/description, falling back to `fr`, then the default language
+// GET ?taxonomy=build-stage → that taxonomy's tree (default taxonomy when omitted)
+// GET ?root=<slug|id> → [that category] with its subtree; ?depth=n → n levels below the root (or the top level)
+export async function GET(req: NextRequest) {
   try {
-    const rows: CategoryRow[] = await prisma.category.findMany({
-      orderBy: [{ parentId: 'asc' }, { title: 'asc' }],
+    const { searchParams } = req.nextUrl
+    const locale = normalizeLocale(searchParams.get('locale')) ?? DEFAULT_LOCALE
+    const taxonomy = await resolveTaxonomy(searchParams.get('taxonomy'))
+    if (!taxonomy) {
+      return NextResponse.json({ error: 'Unknown taxonomy' }, { status: 404, headers: corsHeaders })
+    }
+    const query = parseCategoryTreeQuery(searchParams)
+    if (typeof query === 'string') {
+      return NextResponse.json({ error: query }, { status: 400, headers: corsHeaders })
+    }
+    const visible = { ...publicCategoryWhere(), taxonomyId: taxonomy.id }
+    const scope = await scopeCategoryTree(visible, query)
+    if (!scope) {
+      return NextResponse.json({ error: 'Category not found' }, { status: 404, headers: corsHeaders })
+    }
+
+    const rows = await prisma.category.findMany({
+      where: scope.where,
+      orderBy: [{ parentId: 'asc' }, { sortOrder: 'asc' }, { title: 'asc' }],
       select: {
         id: true,
         title: true,
         slug: true,
         parentId: true,
         image: true,
+        imageAlt: true,
+        imageWidth: true,
+        imageHeight: true,
         description: true,
+        _count: { select: { children: { where: publicCategoryWhere() } } },
       },
     })
 
-    const buildTree = (all: CategoryRow[], parentId: string | null): CategoryNode[] =>
-      all
-        .filter((c) => c.parentId === parentId)
-        .map((c) => ({
-          ...c,
-          children: buildTree(all, c.id),
-        }))
-
-    const tree = buildTree(rows, null)
-    return NextResponse.json({ tree }, { headers: corsHeaders })
+    const localized = await localizeCategories(
+      rows.map(({ _count, ...r }) => ({ ...r, childCount: _count.children })),
+      locale
+    )
+    const tree = buildCategoryTree<CategoryOut>(
+      localized.map((c) => ({ ...c, imageVariants: imageVariants(c.image, c.imageWidth) })),
+      scope.rootParentId
+    )
+    return NextResponse.json({ tree, locale, taxonomy: taxonomy.key }, { headers: corsHeaders })
   } catch (err) {
     console.error('GET /api/public/categories error', err)
     return NextResponse.json({ error: 'Failed to load categories' }, { status: 500, headers: corsHeaders })
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
-import prisma from '@/lib/prisma'
+import { resolveCategorySlugs } from '@/lib/category-slugs'
+import { countCategoryProducts, publicCategoryWhere } from '@/lib/categories'
+import { parseYmmParams } from '@/lib/fitments'
+import { resolveTaxonomy } from '@/lib/taxonomies'
 
 const cors = {
   'Access-Control-Allow-Origin': '*',
@@ -14,7 +17,10 @@ export async function OPTIONS() {
 
 type CountRow = {
   slug: string
-  count: number
+  canonicalSlug: string
+  count: number // rolledUpCount with includeDescendants=1, else directCount
+  directCount: number
+  rolledUpCount: number // distinct products linked to the category or anything in its public subtree
 }
 
 export async function GET(req: NextRequest) {
@@ -26,28 +32,30 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: 'No slugs provided' }, { status: 400, headers: cors })
     }
 
-    // Example: count products by categoryId
-    const counts = await prisma.productCategory.groupBy({
-      by: ['categoryId'],
-      _count: true,
-    })
+    // Slugs are per taxonomy; ?taxonomy= picks one (default taxonomy when omitted)
+    const taxonomy = await resolveTaxonomy(url.searchParams.get('taxonomy'))
+    if (!taxonomy) {
+      return NextResponse.json({ error: 'Unknown taxonomy' }, { status: 404, headers: cors })
+    }
 
-    // Build lookup: categoryId → count
-    const idToCount: Record<string, number> = {}
-    counts.forEach(c => {
-      idToCount[c.categoryId] = c._count
-    })
+    const includeDescendants = ['1', 'true'].includes(url.searchParams.get('includeDescendants') ?? '')
+    const ymm = parseYmmParams(url.searchParams) // only fitting products count when given
 
-    // Grab matching categories
-    const cats = await prisma.category.findMany({
-      where: { slug: { in: slugs } },
-      select: { id: true, slug: true },
-    })
+    // Grab matching categories (old slugs resolve through slug history)
+    const cats = await resolveCategorySlugs(slugs, { ...publicCategoryWhere(), taxonomyId: taxonomy.id })
+
+    const counts = await countCategoryProducts([...new Set([...cats.values()].map(c => c.id))], ymm)
 
-    const results: CountRow[] = cats.map(c => ({
-      slug: c.slug,
-      count: idToCount[c.id] ?? 0,
-    }))
+    const results: CountRow[] = [...cats.entries()].map(([slug, c]) => {
+      const { direct, rolledUp } = counts.get(c.id)!
+      return {
+        slug,
+        canonicalSlug: c.slug,
+        count: includeDescendants ? rolledUp : direct,
+        directCount: direct,
+        rolledUpCount: rolledUp,
+      }
+    })
 
     return NextResponse.json({ results }, { headers: cors })
   } catch (e) {
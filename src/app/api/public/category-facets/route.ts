@@ -0,0 +1,71 @@
+// src/app/api/public/category-facets/route.ts
+// Attribute facets (values + counts) for a category's products, narrowed by YMM.
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { resolveCategorySlug } from '@/lib/category-slugs';
+import { publicCategoryWhere } from '@/lib/categories';
+import { resolveTaxonomy } from '@/lib/taxonomies';
+import { filterProductsByFitment, parseYmmParams } from '@/lib/fitments';
+import {
+  filterProductsByAttributes,
+  getAttributeFacets,
+  getEffectiveAttributes,
+  parseAttributeFilters,
+} from '@/lib/category-attributes';
+
+const corsHeaders: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Max-Age': '600',
+};
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: corsHeaders });
+}
+
+// GET /api/public/category-facets?slug=downpipes&year=2018&make=BMW&attr.material=Stainless
+// (&taxonomy=<key> for a non-default taxonomy)
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = req.nextUrl;
+    const slug = (searchParams.get('slug') || '').trim();
+    if (!slug) {
+      return NextResponse.json({ error: 'Missing slug' }, { status: 400, headers: corsHeaders });
+    }
+
+    const taxonomy = await resolveTaxonomy(searchParams.get('taxonomy'));
+    if (!taxonomy) {
+      return NextResponse.json({ error: 'Unknown taxonomy' }, { status: 404, headers: corsHeaders });
+    }
+
+    const cat = await resolveCategorySlug(slug, { ...publicCategoryWhere(), taxonomyId: taxonomy.id });
+    if (!cat) {
+      return NextResponse.json({ facets: [], total: 0 }, { headers: corsHeaders });
+    }
+
+    const links = await prisma.productCategory.findMany({
+      where: { categoryId: cat.id },
+      select: { productGid: true },
+    });
+    const productGids = await filterProductsByFitment(
+      links.map((l) => l.productGid),
+      parseYmmParams(searchParams)
+    );
+
+    const attrs = await getEffectiveAttributes(cat.id);
+    const filters = parseAttributeFilters(searchParams);
+    const [facets, matching] = await Promise.all([
+      getAttributeFacets(attrs, productGids, filters),
+      filterProductsByAttributes(productGids, attrs, filters),
+    ]);
+
+    return NextResponse.json(
+      { canonicalSlug: cat.slug, total: matching.length, facets },
+      { headers: corsHeaders }
+    );
+  } catch (e) {
+    console.error('[category-facets] GET failed', e);
+    return NextResponse.json({ error: 'Internal error' }, { status: 500, headers: corsHeaders });
+  }
+}
@@ -0,0 +1,47 @@
+// src/app/api/public/category-search/route.ts
+// Category typeahead for the storefront: title, alias ("muffler") and breadcrumb matches.
+import { NextRequest, NextResponse } from 'next/server';
+import { searchCategories } from '@/lib/category-search';
+import { resolveTaxonomy } from '@/lib/taxonomies';
+
+const corsHeaders: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Max-Age': '600',
+};
+
+const MIN_QUERY = 2;
+const MAX_LIMIT = 25;
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: corsHeaders });
+}
+
+// GET /api/public/category-search?q=muffler&limit=8&taxonomy=<key> (default taxonomy when omitted)
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = req.nextUrl;
+    const q = (searchParams.get('q') || '').trim().slice(0, 100);
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || 10, 1), MAX_LIMIT);
+
+    // Too short to be useful while the shopper is still typing
+    if (q.length < MIN_QUERY) {
+      return NextResponse.json({ q, results: [] }, { headers: corsHeaders });
+    }
+
+    const taxonomy = await resolveTaxonomy(searchParams.get('taxonomy'));
+    if (!taxonomy) {
+      return NextResponse.json({ error: 'Unknown taxonomy' }, { status: 404, headers: corsHeaders });
+    }
+
+    const results = await searchCategories(q, limit, taxonomy.id);
+    return NextResponse.json(
+      { q, results },
+      { headers: { ...corsHeaders, 'Cache-Control': 'public, max-age=60' } }
+    );
+  } catch (err) {
+    console.error('GET /api/public/category-search error', err);
+    return NextResponse.json({ error: 'Search failed' }, { status: 500, headers: corsHeaders });
+  }
+}
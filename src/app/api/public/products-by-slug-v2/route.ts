@@ -2,7 +2,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { shopifyAdminGraphQL } from '@/lib/shopify';
-import type { Prisma } from '@prisma/client';
+import { resolveCategorySlug } from '@/lib/category-slugs';
+import { getPublicSubtreeIds, publicCategoryWhere } from '@/lib/categories';
+import { resolveTaxonomy } from '@/lib/taxonomies';
+import { filterProductsByFitment, parseYmmParams } from '@/lib/fitments';
+import {
+  filterProductsByAttributes,
+  getEffectiveAttributes,
+  parseAttributeFilters,
+} from '@/lib/category-attributes';
 
 const corsHeaders: Record<string, string> = {
   'Access-Control-Allow-Origin': '*',
@@ -37,53 +45,6 @@ type NodesResp = {
   >;
 };
 
-// Safe table existence on Postgres
-async function tableExists(tableName: string): Promise<boolean> {
-  try {
-    const rows = await prisma.$queryRaw<Array<{ exists: boolean }>>`
-      SELECT EXISTS (
-        SELECT 1
-        FROM information_schema.tables
-        WHERE table_schema = 'public'
-          AND table_name = ${tableName}
-      ) AS "exists";
-    `;
-    return Boolean(rows?.[0]?.exists);
-  } catch {
-    return false;
-  }
-}
-
-// Build WHERE for ProductFitment using string fields (make/model/trim/chassis) and open year ranges
-function buildFitmentWhere(
-  productGids: string[],
-  params: { year?: number; make?: string; model?: string; trim?: string; chassis?: string }
-): Prisma.ProductFitmentWhereInput | null {
-  const { year, make, model, trim, chassis } = params;
-
-  if (!year && !make && !model && !trim && !chassis) return null;
-
-  const where: Prisma.ProductFitmentWhereInput = {
-    productGid: { in: productGids },
-  };
-
-  // Case-insensitive exact matches on strings
-  if (make)   where.make   = { equals: make.trim(), mode: 'insensitive' };
-  if (model)  where.model  = { equals: model.trim(), mode: 'insensitive' };
-  if (trim)   where.trim   = { equals: trim.trim(),  mode: 'insensitive' };
-  if (chassis)where.chassis= { equals: chassis.trim(), mode: 'insensitive' };
-
-  if (typeof year === 'number') {
-    const y = year;
-    where.AND = [
-      { OR: [{ yearFrom: null }, { yearFrom: { lte: y } }] },
-      { OR: [{ yearTo: null },   { yearTo:   { gte: y } }] },
-    ];
-  }
-
-  return where;
-}
-
 export async function GET(req: NextRequest) {
   try {
     const url = new URL(req.url);
@@ -96,26 +57,26 @@ export async function GET(req: NextRequest) {
     const limitParam = url.searchParams.get('limit');
     const limit = Math.max(1, Math.min(Number(limitParam || 24), 250));
 
-    // YMM as STRINGS (important: make/model are strings here)
-    const yearParam = url.searchParams.get('year');
-    const year = yearParam ? Number(yearParam) : undefined;
-    const make = url.searchParams.get('make') || undefined;
-    const model = url.searchParams.get('model') || undefined;
-    const trim = url.searchParams.get('trim') || undefined;
-    const chassis = url.searchParams.get('chassis') || undefined;
-
-    // 1) Find category
-    const cat = await prisma.category.findUnique({
-      where: { slug },
-      select: { id: true },
-    });
+    const ymm = parseYmmParams(url.searchParams);
+    const attrFilters = parseAttributeFilters(url.searchParams); // attr.<key>=v1,v2
+    // includeDescendants=1: products linked anywhere under the category, not just to it
+    const includeDescendants = ['1', 'true'].includes(url.searchParams.get('includeDescendants') ?? '');
+
+    // 1) Find category (old slugs resolve through slug history)
+    const taxonomy = await resolveTaxonomy(url.searchParams.get('taxonomy')); // default taxonomy when omitted
+    if (!taxonomy) {
+      return NextResponse.json({ error: 'Unknown taxonomy' }, { status: 404, headers: corsHeaders });
+    }
+    const cat = await resolveCategorySlug(slug, { ...publicCategoryWhere(), taxonomyId: taxonomy.id });
     if (!cat) {
       return NextResponse.json({ products: [] }, { headers: corsHeaders });
     }
 
-    // 2) Product links for this category
+    // 2) Product links for this category (or its public subtree), one per product
+    const categoryIds = includeDescendants ? (await getPublicSubtreeIds([cat.id])).get(cat.id)! : [cat.id];
     const links = await prisma.productCategory.findMany({
-      where: { categoryId: cat.id },
+      where: { categoryId: { in: categoryIds } },
+      distinct: ['productGid'],
       select: { productGid: true },
       take: limit * 5, // grab extra; fitment filter may shrink results
     });
@@ -126,18 +87,15 @@ export async function GET(req: NextRequest) {
     let productGids = links.map(l => l.productGid);
 
     // 3) Fitment intersection (only if any YMM provided AND table exists)
-    if (await tableExists('ProductFitment')) {
-      const fitWhere = buildFitmentWhere(productGids, { year, make, model, trim, chassis });
-      if (fitWhere) {
-        const fits = await prisma.productFitment.findMany({
-          where: fitWhere,
-          select: { productGid: true },
-          take: limit * 10,
-        });
-
-        const allowed = new Set(fits.map(f => f.productGid));
-        productGids = productGids.filter(id => allowed.has(id));
-      }
+    productGids = await filterProductsByFitment(productGids, ymm, { take: limit * 10 });
+
+    // 3b) Attribute facets selected on the storefront
+    if (Object.keys(attrFilters).length) {
+      productGids = await filterProductsByAttributes(
+        productGids,
+        await getEffectiveAttributes(cat.id),
+        attrFilters
+      );
     }
 
     if (productGids.length === 0) {
@@ -182,10 +140,10 @@ export async function GET(req: NextRequest) {
         });
 
     // Uncomment for quick debugging (then re-comment):
-    // console.log('[v2] params', { slug, year, make, model, trim, chassis, limit });
+    // console.log('[v2] params', { slug, ...ymm, limit });
     // console.log('[v2] productGids after filter', productGids.length);
 
-    return NextResponse.json({ products }, { headers: corsHeaders });
+    return NextResponse.json({ products, canonicalSlug: cat.slug }, { headers: corsHeaders });
   } catch (e) {
     console.error('[products-by-slug-v2] GET failed', e);
     return NextResponse.json({ error: 'Internal error' }, { status: 500, headers: corsHeaders });
@@ -2,6 +2,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { shopifyAdminGraphQL } from '@/lib/shopify';
+import { resolveCategorySlug } from '@/lib/category-slugs';
+import { publicCategoryWhere } from '@/lib/categories';
+import { resolveTaxonomy } from '@/lib/taxonomies';
 
 type ProductLite = {
   id: string;
@@ -162,11 +165,12 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: 'Missing slug' }, { status: 400, headers: corsHeaders });
     }
 
-    // 1) Resolve category
-    const cat = await prisma.category.findUnique({
-      where: { slug },
-      select: { id: true },
-    });
+    // 1) Resolve category (old slugs resolve through slug history)
+    const taxonomy = await resolveTaxonomy(url.searchParams.get('taxonomy')); // default taxonomy when omitted
+    if (!taxonomy) {
+      return NextResponse.json({ error: 'Unknown taxonomy' }, { status: 404, headers: corsHeaders });
+    }
+    const cat = await resolveCategorySlug(slug, { ...publicCategoryWhere(), taxonomyId: taxonomy.id });
     if (!cat) {
       return NextResponse.json({ products: [] }, { headers: corsHeaders });
     }
@@ -206,6 +210,7 @@ export async function GET(req: NextRequest) {
           price: p.price ?? null,
           currencyCode: p.currencyCode ?? 'USD',
         })),
+        canonicalSlug: cat.slug,
       },
       { headers: corsHeaders }
     );
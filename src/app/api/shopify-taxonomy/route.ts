@@ -0,0 +1,67 @@
+// src/app/api/shopify-taxonomy/route.ts
+// Local copy of Shopify's Standard Product Taxonomy: status, search, and (re)load.
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  SHOPIFY_TAXONOMY_URL,
+  getShopifyTaxonomyNode,
+  loadShopifyTaxonomy,
+  searchShopifyTaxonomy,
+  shopifyTaxonomyStatus,
+} from '@/lib/shopify-taxonomy';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_LIMIT = 50;
+
+// GET → { loaded, nodes, version }; ?q=brake pads&limit=20 → { results }; ?id=<gid> → one node
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = req.nextUrl;
+    const id = searchParams.get('id');
+    if (id) {
+      const node = await getShopifyTaxonomyNode(id);
+      if (!node) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+      return NextResponse.json(node);
+    }
+    const q = (searchParams.get('q') || '').trim().slice(0, 100);
+    if (!q) return NextResponse.json(await shopifyTaxonomyStatus());
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || 20, 1), MAX_LIMIT);
+    return NextResponse.json({ q, results: await searchShopifyTaxonomy(q, limit) });
+  } catch (err) {
+    console.error('GET /api/shopify-taxonomy error', err);
+    return NextResponse.json({ error: 'Failed to read Shopify taxonomy' }, { status: 500 });
+  }
+}
+
+// POST (body: categories.json) → replace the local copy; empty body → download it from SHOPIFY_TAXONOMY_URL
+export async function POST(req: NextRequest) {
+  try {
+    const text = await req.text();
+    let raw: unknown;
+    if (text.trim()) {
+      try {
+        raw = JSON.parse(text);
+      } catch {
+        return NextResponse.json({ error: 'Body is not valid JSON' }, { status: 400 });
+      }
+    } else {
+      const res = await fetch(SHOPIFY_TAXONOMY_URL, { cache: 'no-store' });
+      if (!res.ok) {
+        return NextResponse.json(
+          { error: `Download failed: HTTP ${res.status} from ${SHOPIFY_TAXONOMY_URL}` },
+          { status: 502 }
+        );
+      }
+      raw = await res.json();
+    }
+
+    const result = await loadShopifyTaxonomy(raw);
+    if (typeof result === 'string') {
+      return NextResponse.json({ error: result }, { status: 400 });
+    }
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err) {
+    console.error('POST /api/shopify-taxonomy error', err);
+    return NextResponse.json({ error: 'Failed to load Shopify taxonomy' }, { status: 500 });
+  }
+}
@@ -0,0 +1,113 @@
+// src/app/api/taxonomies/route.ts
+// Independent category trees (e.g. "By Product Type", "By Build Stage").
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { defaultMetafieldKey, listTaxonomies, validateTaxonomyInput, type TaxonomyInput } from '@/lib/taxonomies';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const [taxonomies, counts] = await Promise.all([
+      listTaxonomies(),
+      prisma.category.groupBy({ by: ['taxonomyId'], where: { archivedAt: null }, _count: { _all: true } }),
+    ]);
+    const byId = new Map(counts.map((c) => [c.taxonomyId, c._count._all]));
+    return NextResponse.json({
+      taxonomies: taxonomies.map((t) => ({ ...t, categoryCount: byId.get(t.id) ?? 0 })),
+    });
+  } catch (err) {
+    console.error('GET /api/taxonomies error', err);
+    return NextResponse.json({ error: 'Failed to load taxonomies' }, { status: 500 });
+  }
+}
+
+// POST { key, name, metafieldKey? } → new empty taxonomy; metafieldKey defaults to `<key>_slugs`
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as TaxonomyInput;
+    const input: TaxonomyInput = {
+      key: body.key?.trim().toLowerCase(),
+      name: body.name?.trim(),
+      metafieldKey: body.metafieldKey?.trim() || undefined,
+      sortOrder: body.sortOrder,
+    };
+    const invalid = validateTaxonomyInput(input);
+    if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+
+    const created = await prisma.taxonomy.create({
+      data: {
+        key: input.key!,
+        name: input.name!,
+        metafieldKey: input.metafieldKey ?? defaultMetafieldKey(input.key!),
+        sortOrder: Number.isFinite(input.sortOrder) ? Number(input.sortOrder) : 0,
+      },
+    });
+    return NextResponse.json(created, { status: 201 });
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+      return NextResponse.json({ error: 'Key or metafield key already in use' }, { status: 409 });
+    }
+    console.error('POST /api/taxonomies error', err);
+    return NextResponse.json({ error: 'Failed to create taxonomy' }, { status: 500 });
+  }
+}
+
+// PUT { id, name?, sortOrder? } — key and metafieldKey are fixed once products carry the metafield
+export async function PUT(req: NextRequest) {
+  try {
+    const body = (await req.json()) as TaxonomyInput & { id?: string };
+    if (!body.id) return NextResponse.json({ error: 'Missing id' }, { status: 400 });
+    if (body.key !== undefined || body.metafieldKey !== undefined) {
+      return NextResponse.json({ error: 'key and metafieldKey cannot be changed' }, { status: 400 });
+    }
+    const name = body.name?.trim();
+    const invalid = validateTaxonomyInput({ name }, { partial: true });
+    if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+
+    const exists = await prisma.taxonomy.findUnique({ where: { id: body.id }, select: { id: true } });
+    if (!exists) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+    const updated = await prisma.taxonomy.update({
+      where: { id: body.id },
+      data: {
+        ...(name !== undefined ? { name } : {}),
+        ...(Number.isFinite(body.sortOrder) ? { sortOrder: Number(body.sortOrder) } : {}),
+      },
+    });
+    return NextResponse.json(updated);
+  } catch (err) {
+    console.error('PUT /api/taxonomies error', err);
+    return NextResponse.json({ error: 'Failed to update taxonomy' }, { status: 500 });
+  }
+}
+
+// DELETE ?id=... — only an empty, non-default taxonomy (archived categories count)
+export async function DELETE(req: NextRequest) {
+  try {
+    const id = req.nextUrl.searchParams.get('id') || '';
+    if (!id) return NextResponse.json({ error: 'Missing id' }, { status: 400 });
+
+    const t = await prisma.taxonomy.findUnique({
+      where: { id },
+      select: { isDefault: true, _count: { select: { categories: true } } },
+    });
+    if (!t) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    if (t.isDefault) {
+      return NextResponse.json({ error: 'The default taxonomy cannot be deleted' }, { status: 400 });
+    }
+    if (t._count.categories) {
+      return NextResponse.json(
+        { error: `Taxonomy still has ${t._count.categories} categories` },
+        { status: 409 }
+      );
+    }
+
+    await prisma.taxonomy.delete({ where: { id } });
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error('DELETE /api/taxonomies error', err);
+    return NextResponse.json({ error: 'Failed to delete taxonomy' }, { status: 500 });
+  }
+}
@@ -1,6 +1,8 @@
 'use client'
 
 import { useEffect, useState } from 'react'
+import { TaxonomySelect } from '../taxonomy-select'
+import { CategorySuggestions, fetchCategorySuggestions, type CategorySuggestion } from '../category-suggestions'
 
 type Category = {
   id: string
@@ -22,12 +24,30 @@ export default function AssignPage() {
   const [categories, setCategories] = useState<Category[]>([])
   const [selectedProduct, setSelectedProduct] = useState<ProductHit | null>(null)
   const [categoryId, setCategoryId] = useState<string>('')
+  const [taxonomy, setTaxonomy] = useState('')
+  const [suggestions, setSuggestions] = useState<CategorySuggestion[]>([])
 
   useEffect(() => {
-    fetch('/api/categories', { cache: 'no-store' })
+    if (!taxonomy) return
+    setCategoryId('')
+    fetch(`/api/categories?taxonomy=${encodeURIComponent(taxonomy)}`, { cache: 'no-store' })
       .then(r => r.json())
       .then(setCategories)
-  }, [])
+  }, [taxonomy])
+
+  useEffect(() => {
+    setSuggestions([])
+    if (!selectedProduct || !taxonomy) return
+    let active = true
+    fetchCategorySuggestions([selectedProduct.id], taxonomy)
+      .then(map => {
+        if (active) setSuggestions(map[selectedProduct.id] ?? [])
+      })
+      .catch(e => console.error('Failed to load suggestions', e))
+    return () => {
+      active = false
+    }
+  }, [selectedProduct, taxonomy])
 
   const flatten = (node: Category, level = 0): { id: string; title: string; indent: string }[] => {
     const rows = [{ id: node.id, title: node.title, indent: '— '.repeat(level) }]
@@ -75,6 +95,8 @@ export default function AssignPage() {
         )}
       </div>
 
+      <TaxonomySelect value={taxonomy} onChange={setTaxonomy} />
+
       <div className="grid gap-2">
         <label className="text-sm font-medium">Category</label>
         <select
@@ -87,6 +109,13 @@ export default function AssignPage() {
             <option key={o.id} value={o.id}>{o.indent + o.title}</option>
           )))}
         </select>
+        {selectedProduct && (
+          <CategorySuggestions
+            productGid={selectedProduct.id}
+            suggestions={suggestions}
+            onAccepted={s => setSuggestions(prev => prev.filter(x => x.categoryId !== s.categoryId))}
+          />
+        )}
       </div>
 
       <div className="flex gap-2">
@@ -95,12 +124,115 @@ export default function AssignPage() {
       </div>
 
       <p className="text-xs text-gray-500">
-        After assigning, the product’s metafield <code>taxonomy.category_slugs</code> is rebuilt automatically.
+        After assigning, the product’s metafield for the taxonomy (<code>taxonomy.category_slugs</code> for the
+        default one) is rebuilt automatically.
       </p>
+
+      {selectedProduct && <AttributeValues key={selectedProduct.id} productGid={selectedProduct.id} />}
     </section>
   )
 }
 
+/* ---------- AttributeValues component ---------- */
+
+type Attribute = {
+  id: string
+  key: string
+  label: string
+  type: 'ENUM' | 'NUMBER' | 'BOOLEAN'
+  unit: string | null
+  options: string[]
+}
+
+// Values for the attributes the product's categories define (written to taxonomy.attributes)
+function AttributeValues({ productGid }: { productGid: string }) {
+  const [attributes, setAttributes] = useState<Attribute[]>([])
+  const [draft, setDraft] = useState<Record<string, string>>({})
+  const [saving, setSaving] = useState(false)
+
+  const load = async () => {
+    const res = await fetch(`/api/product-attributes?productGid=${encodeURIComponent(productGid)}`, { cache: 'no-store' })
+    const json = await res.json()
+    setAttributes(json.attributes || [])
+    const next: Record<string, string> = {}
+    for (const [key, v] of Object.entries(json.values || {}) as [string, { value: unknown }][]) {
+      next[key] = v.value === null ? '' : String(v.value)
+    }
+    setDraft(next)
+  }
+
+  useEffect(() => {
+    load()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [productGid])
+
+  const save = async () => {
+    setSaving(true)
+    try {
+      const values = Object.fromEntries(attributes.map(a => [a.key, draft[a.key] ?? '']))
+      const res = await fetch('/api/product-attributes', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ productGid, values }),
+      })
+      const json = await res.json().catch(() => ({}))
+      if (!res.ok) return alert('Save failed: ' + (json.error || res.statusText))
+      if (json.metafieldError) alert('Saved, but the Shopify metafield write failed: ' + json.metafieldError)
+      await load()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!attributes.length) {
+    return <p className="text-xs text-gray-500">No attributes defined for this product’s categories.</p>
+  }
+
+  return (
+    <div className="grid gap-2 rounded border p-3">
+      <div className="text-sm font-medium">Attributes</div>
+      {attributes.map(a => (
+        <label key={a.id} className="grid grid-cols-3 items-center gap-2 text-sm">
+          <span>{a.label}{a.unit ? ` (${a.unit})` : ''}</span>
+          {a.type === 'ENUM' ? (
+            <select
+              className="col-span-2 border p-1 rounded"
+              value={draft[a.key] ?? ''}
+              onChange={e => setDraft(d => ({ ...d, [a.key]: e.target.value }))}
+            >
+              <option value="">—</option>
+              {a.options.map(o => <option key={o} value={o}>{o}</option>)}
+            </select>
+          ) : a.type === 'BOOLEAN' ? (
+            <select
+              className="col-span-2 border p-1 rounded"
+              value={draft[a.key] ?? ''}
+              onChange={e => setDraft(d => ({ ...d, [a.key]: e.target.value }))}
+            >
+              <option value="">—</option>
+              <option value="true">Yes</option>
+              <option value="false">No</option>
+            </select>
+          ) : (
+            <input
+              type="number"
+              step="any"
+              className="col-span-2 border p-1 rounded"
+              value={draft[a.key] ?? ''}
+              onChange={e => setDraft(d => ({ ...d, [a.key]: e.target.value }))}
+            />
+          )}
+        </label>
+      ))}
+      <div>
+        <button className="bg-blue-600 text-white px-3 py-1.5 rounded text-sm disabled:opacity-50" onClick={save} disabled={saving}>
+          {saving ? 'Saving…' : 'Save attributes'}
+        </button>
+      </div>
+    </div>
+  )
+}
+
 /* ---------- ProductSearch component ---------- */
 
 function useDebounced<T>(value: T, delay = 300) {
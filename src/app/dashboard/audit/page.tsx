@@ -1,6 +1,7 @@
 'use client'
 
 import { useEffect, useMemo, useState } from 'react'
+import { CategorySuggestions, fetchCategorySuggestions, type CategorySuggestion } from '../category-suggestions'
 
 type AuditItem = {
   id: string
@@ -8,6 +9,7 @@ type AuditItem = {
   handle: string
   status: string | null
   slugs: string[]
+  primaryPath: { title: string; slug: string }[]
 }
 
 type PageInfo = { hasNextPage: boolean; endCursor: string | null }
@@ -24,6 +26,21 @@ type FlatCategory = { id: string; slug: string; label: string; depth: number }
 
 type SortOption = 'UPDATED_AT_DESC' | 'UPDATED_AT_ASC' | 'TITLE_ASC' | 'TITLE_DESC'
 
+type BulkMode = 'add' | 'remove' | 'replace'
+
+type BulkJob = {
+  id: string
+  status: 'QUEUED' | 'RUNNING' | 'DONE' | 'FAILED'
+  total: number
+  processed: number
+  failed: number
+  linksAdded: number
+  linksRemoved: number
+  stale: boolean // RUNNING, but its process is gone
+  error: string | null // why a FAILED job stopped
+  failures: { productGid: string; error: string | null }[]
+}
+
 export default function AuditPage() {
   const [items, setItems] = useState<AuditItem[]>([])
   const [cursor, setCursor] = useState<string | null>(null)
@@ -36,6 +53,14 @@ export default function AuditPage() {
   const [selectedCatIdByProduct, setSelectedCatIdByProduct] = useState<Record<string, string>>({})
   const [replaceExistingByProduct, setReplaceExistingByProduct] = useState<Record<string, boolean>>({})
   const [assigningId, setAssigningId] = useState<string | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [bulkCatId, setBulkCatId] = useState('')
+  const [bulkMode, setBulkMode] = useState<BulkMode>('add')
+  const [bulkJobId, setBulkJobId] = useState<string | null>(null)
+  const [bulkJob, setBulkJob] = useState<BulkJob | null>(null)
+  const [bulkBusy, setBulkBusy] = useState(false)
+  const [bulkRun, setBulkRun] = useState(0) // bumped on retry to restart polling
+  const [suggestions, setSuggestions] = useState<Record<string, CategorySuggestion[]>>({})
 
   // Load products (paged)
   const load = async (reset = false) => {
@@ -93,6 +118,36 @@ export default function AuditPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [sortBy])
 
+  // Suggestions for newly loaded rows, 100 products per request
+  useEffect(() => {
+    const missing = items.map(i => i.id).filter(id => !(id in suggestions))
+    if (!missing.length) return
+    let active = true
+    const run = async () => {
+      for (let i = 0; i < missing.length && active; i += 100) {
+        try {
+          const batch = await fetchCategorySuggestions(missing.slice(i, i + 100))
+          if (active) setSuggestions(prev => ({ ...prev, ...batch }))
+        } catch (e) {
+          console.error('Failed to load suggestions', e)
+          return
+        }
+      }
+    }
+    run()
+    return () => {
+      active = false
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [items])
+
+  const handleSuggestionAccepted = (product: AuditItem, s: CategorySuggestion) => {
+    setItems(prev =>
+      prev.map(it => (it.id === product.id ? { ...it, slugs: Array.from(new Set([...it.slugs, s.slug])) } : it))
+    )
+    setSuggestions(prev => ({ ...prev, [product.id]: (prev[product.id] ?? []).filter(x => x.categoryId !== s.categoryId) }))
+  }
+
   const filtered = useMemo(() => {
     let rows = items
     if (onlyUnassigned) rows = rows.filter(r => r.slugs.length === 0)
@@ -107,6 +162,105 @@ export default function AuditPage() {
     return rows
   }, [items, onlyUnassigned, q])
 
+  const allVisibleSelected = filtered.length > 0 && filtered.every(r => selected.has(r.id))
+
+  const toggleSelected = (id: string) =>
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+
+  const toggleAllVisible = () =>
+    setSelected(prev => {
+      const next = new Set(prev)
+      for (const r of filtered) {
+        if (allVisibleSelected) next.delete(r.id)
+        else next.add(r.id)
+      }
+      return next
+    })
+
+  // Poll the running bulk job; reload products once it finishes so slugs are fresh
+  useEffect(() => {
+    if (!bulkJobId) return
+    let stopped = false
+    const poll = async () => {
+      try {
+        const res = await fetch(`/api/product-categories/bulk?jobId=${bulkJobId}`, { cache: 'no-store' })
+        if (!res.ok) throw new Error(`HTTP ${res.status}`)
+        const job: BulkJob = await res.json()
+        if (stopped) return
+        setBulkJob(job)
+        if (job.status === 'DONE' || job.status === 'FAILED') {
+          setCursor(null)
+          load(true)
+          return
+        }
+      } catch (e) {
+        console.error('Bulk job poll failed', e)
+      }
+      if (!stopped) timer = setTimeout(poll, 2000)
+    }
+    let timer = setTimeout(poll, 0)
+    return () => {
+      stopped = true
+      clearTimeout(timer)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [bulkJobId, bulkRun])
+
+  const handleBulkApply = async () => {
+    if (!selected.size) return
+    if (!bulkCatId) {
+      alert('Choose a category first.')
+      return
+    }
+    const chosen = cats.find(c => c.id === bulkCatId)
+    if (bulkMode === 'replace' && !confirm(`Replace the categories of ${selected.size} products with "${chosen?.label}"?`)) {
+      return
+    }
+    setBulkBusy(true)
+    try {
+      const res = await fetch('/api/product-categories/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ productGids: Array.from(selected), categoryIds: [bulkCatId], mode: bulkMode }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`)
+      setBulkJob(null)
+      setBulkJobId(data.jobId)
+      setSelected(new Set())
+    } catch (e) {
+      console.error(e)
+      alert((e as Error).message || 'Bulk assign failed')
+    } finally {
+      setBulkBusy(false)
+    }
+  }
+
+  const handleBulkRetry = async () => {
+    if (!bulkJobId) return
+    try {
+      const res = await fetch('/api/product-categories/bulk/retry', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jobId: bulkJobId }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`)
+      setBulkJob(null)
+      setBulkRun(n => n + 1)
+    } catch (e) {
+      console.error(e)
+      alert((e as Error).message || 'Retry failed')
+    }
+  }
+
+  const titleByGid = useMemo(() => new Map(items.map(i => [i.id, i.title])), [items])
+
   const toNumericId = (gid: string) => {
     const m = gid.match(/\/(\d+)$/) || gid.match(/Product\/(\d+)$/)
     return m ? m[1] : ''
@@ -145,6 +299,8 @@ export default function AuditPage() {
                 slugs: replaceExisting
                   ? (chosen ? [chosen.slug] : [])
                   : Array.from(new Set([...(it.slugs || []), chosen?.slug].filter(Boolean))) as string[],
+                primaryPath:
+                  replaceExisting && it.primaryPath.at(-1)?.slug !== chosen?.slug ? [] : it.primaryPath,
               }
             : it
         )
@@ -158,6 +314,27 @@ export default function AuditPage() {
   }
 
   const [unassigningKey, setUnassigningKey] = useState<string | null>(null);
+  const [primaryKey, setPrimaryKey] = useState<string | null>(null)
+
+  // Star a slug chip to make that category the product's primary (breadcrumb) path; star it again to clear
+  const handleSetPrimary = async (product: AuditItem, slug: string | null) => {
+    setPrimaryKey(`${product.id}:${slug ?? ''}`)
+    try {
+      const res = await fetch('/api/product-categories/primary', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(slug ? { productGid: product.id, slug } : { productGid: product.id, categoryId: null }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`)
+      setItems(prev => prev.map(it => (it.id === product.id ? { ...it, primaryPath: data.path } : it)))
+    } catch (e) {
+      console.error(e)
+      alert((e as Error).message || 'Failed to set primary category')
+    } finally {
+      setPrimaryKey(null)
+    }
+  }
 
   async function handleUnassign(product: AuditItem, slug: string) {
     setUnassigningKey(`${product.id}:${slug}`);
@@ -174,7 +351,11 @@ export default function AuditPage() {
       setItems(prev =>
         prev.map(it =>
           it.id === product.id
-            ? { ...it, slugs: it.slugs.filter(s => s !== slug) }
+            ? {
+                ...it,
+                slugs: it.slugs.filter(s => s !== slug),
+                primaryPath: it.primaryPath.at(-1)?.slug === slug ? [] : it.primaryPath,
+              }
             : it
         )
       );
@@ -200,7 +381,7 @@ export default function AuditPage() {
         throw new Error(`Unassign-all failed: ${t}`);
       }
       setItems(prev =>
-        prev.map(it => (it.id === product.id ? { ...it, slugs: [] } : it))
+        prev.map(it => (it.id === product.id ? { ...it, slugs: [], primaryPath: [] } : it))
       );
     } catch (e) {
       console.error(e);
@@ -215,7 +396,7 @@ export default function AuditPage() {
       <header className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
         <div>
           <h1 className="text-2xl font-bold text-slate-900">Products + Categories View</h1>
-          <p className="text-slate-700 text-sm">Assign categories inline or filter to find unassigned products.</p>
+          <p className="text-slate-700 text-sm">Assign categories inline, or select products and assign them in bulk.</p>
         </div>
         <div className="flex items-center gap-3">
           {/* SORTING DROPDOWN - NEW */}
@@ -257,10 +438,110 @@ export default function AuditPage() {
         </div>
       </header>
 
+      {(selected.size > 0 || bulkJob) && (
+        <section className="border border-slate-200 rounded-lg bg-white p-4 space-y-3 text-sm text-slate-900">
+          {selected.size > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">{selected.size} selected</span>
+              <select
+                className="border border-slate-300 rounded px-2 py-1"
+                value={bulkMode}
+                onChange={e => setBulkMode(e.target.value as BulkMode)}
+              >
+                <option value="add">Add category</option>
+                <option value="remove">Remove category</option>
+                <option value="replace">Replace categories with</option>
+              </select>
+              <select
+                className="border border-slate-300 rounded px-2 py-1"
+                value={bulkCatId}
+                onChange={e => setBulkCatId(e.target.value)}
+              >
+                <option value="">Select a category…</option>
+                {cats.map(c => (
+                  <option key={c.id} value={c.id}>
+                    {'\u00A0'.repeat(c.depth * 2)}{c.label} ({c.slug})
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={handleBulkApply}
+                disabled={bulkBusy || bulkJob?.status === 'RUNNING'}
+                className="bg-emerald-600 hover:bg-emerald-700 text-white text-xs font-medium rounded px-3 py-2 disabled:opacity-60"
+              >
+                {bulkBusy ? 'Starting…' : `Apply to ${selected.size} selected`}
+              </button>
+              <button className="text-xs text-slate-600 underline" onClick={() => setSelected(new Set())}>
+                Clear selection
+              </button>
+            </div>
+          )}
+
+          {bulkJob && (
+            <div className="space-y-2">
+              <div>
+                Bulk job <code className="text-xs">{bulkJob.id}</code>:{' '}
+                {bulkJob.status === 'DONE' ? 'finished' : bulkJob.status.toLowerCase()} — {bulkJob.processed}/
+                {bulkJob.total} products synced, {bulkJob.linksAdded} links added, {bulkJob.linksRemoved} removed
+                {bulkJob.failed > 0 && <span className="text-red-700">, {bulkJob.failed} failed</span>}
+                {bulkJob.status === 'FAILED' && (
+                  <>
+                    {' '}
+                    <span className="text-red-700">(stopped: {bulkJob.error})</span>{' '}
+                    <button className="px-2 py-1 rounded border text-xs" onClick={handleBulkRetry}>
+                      Resume
+                    </button>
+                  </>
+                )}
+                {bulkJob.stale && (
+                  <>
+                    {' '}
+                    <span className="text-amber-700">(stalled)</span>{' '}
+                    <button className="px-2 py-1 rounded border text-xs" onClick={handleBulkRetry}>
+                      Resume
+                    </button>
+                  </>
+                )}
+              </div>
+              <div className="h-2 rounded bg-slate-100 overflow-hidden">
+                <div
+                  className="h-2 bg-emerald-600"
+                  style={{ width: `${bulkJob.total ? (100 * bulkJob.processed) / bulkJob.total : 0}%` }}
+                />
+              </div>
+              {bulkJob.failures.length > 0 && (
+                <div className="space-y-1">
+                  <ul className="text-xs text-red-700 max-h-40 overflow-auto">
+                    {bulkJob.failures.map(f => (
+                      <li key={f.productGid}>
+                        {titleByGid.get(f.productGid) ?? f.productGid}: {f.error || 'unknown error'}
+                      </li>
+                    ))}
+                  </ul>
+                  {bulkJob.status === 'DONE' && (
+                    <button className="px-2 py-1 rounded border text-xs" onClick={handleBulkRetry}>
+                      Retry failed
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </section>
+      )}
+
       <section className="border border-slate-200 rounded-lg overflow-hidden bg-white">
         <table className="w-full text-sm">
           <thead className="bg-slate-50 text-left">
             <tr>
+              <th className="p-3 w-8">
+                <input
+                  type="checkbox"
+                  title="Select all shown"
+                  checked={allVisibleSelected}
+                  onChange={toggleAllVisible}
+                />
+              </th>
               <th className="p-3 w-[36%] text-slate-900">Product</th>
               <th className="p-3 text-slate-900">Current Slugs</th>
               <th className="p-3 text-slate-900">Status</th>
@@ -271,6 +552,9 @@ export default function AuditPage() {
           <tbody>
             {filtered.map((r) => (
               <tr key={r.id} className="border-t border-slate-200">
+                <td className="p-3 align-top">
+                  <input type="checkbox" checked={selected.has(r.id)} onChange={() => toggleSelected(r.id)} />
+                </td>
                 <td className="p-3 align-top">
                   <div className="font-semibold text-slate-900">{r.title}</div>
                   <div className="text-xs text-slate-600">@{r.handle}</div>
@@ -283,8 +567,18 @@ export default function AuditPage() {
                   </span>
                 ) : (
                   <div className="flex flex-wrap gap-1">
-                    {r.slugs.map(s => (
+                    {r.slugs.map(s => {
+                      const isPrimary = r.primaryPath.at(-1)?.slug === s
+                      return (
                      <span key={s} className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded bg-slate-100 border border-slate-300 text-slate-900">
+                    <button
+                      className={isPrimary ? 'text-amber-500' : 'text-slate-400 hover:text-amber-500'}
+                      title={isPrimary ? 'Primary category (click to clear)' : 'Make this the primary category'}
+                      onClick={() => handleSetPrimary(r, isPrimary ? null : s)}
+                      disabled={primaryKey?.startsWith(`${r.id}:`)}
+                    >
+                      {isPrimary ? '★' : '☆'}
+                    </button>
                       {s}
                     <button
                       className="ml-1 text-slate-500 hover:text-red-700"
@@ -295,7 +589,13 @@ export default function AuditPage() {
                       {unassigningKey === `${r.id}:${s}` ? '…' : '×'}
                     </button>
                   </span>
-              ))}
+                      )
+                    })}
+                    {r.primaryPath.length > 0 && (
+                      <div className="basis-full text-xs text-slate-600">
+                        Breadcrumb: {r.primaryPath.map(c => c.title).join(' › ')}
+                      </div>
+                    )}
                   </div>
             )}
             </td>
@@ -316,6 +616,11 @@ export default function AuditPage() {
 
                 <td className="p-3 align-top">
                   <div className="flex flex-col gap-2">
+                    <CategorySuggestions
+                      productGid={r.id}
+                      suggestions={suggestions[r.id] ?? []}
+                      onAccepted={s => handleSuggestionAccepted(r, s)}
+                    />
                     <select
                       className="border border-slate-300 rounded px-2 py-1 text-slate-900"
                       value={selectedCatIdByProduct[r.id] || ''}
@@ -367,7 +672,7 @@ export default function AuditPage() {
             ))}
             {filtered.length === 0 && (
               <tr>
-                <td className="p-6 text-sm text-slate-700" colSpan={5}>
+                <td className="p-6 text-sm text-slate-700" colSpan={6}>
                   No results.
                 </td>
               </tr>
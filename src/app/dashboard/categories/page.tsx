@@ -2,6 +2,8 @@
 'use client'
 
 import { useCallback, useEffect, useMemo, useState } from 'react'
+import { slugify } from '@/lib/slugify'
+import { TaxonomySelect } from '../taxonomy-select'
 
 type Category = {
   id: string
@@ -9,31 +11,93 @@ type Category = {
   slug: string
   parentId: string | null
   image: string | null
+  imageAlt: string | null
+  imageWidth: number | null
+  imageHeight: number | null
   description: string | null
+  seoTitle: string | null
+  seoDescription: string | null
+  noindex: boolean
   children?: Category[]
 }
 
+type ArchivedCategory = {
+  id: string
+  title: string
+  slug: string
+  archivedAt: string
+  parent: { title: string; archivedAt: string | null } | null
+  _count: { products: number; children: number }
+}
+
+type DeleteImpact = {
+  category: { id: string; title: string; slug: string }
+  parent: { id: string; title: string } | null
+  children: { direct: number; descendants: number; sample: Array<{ id: string; title: string }> }
+  productLinks: { direct: number; subtree: number; sample: string[] }
+  distributorMappings: {
+    direct: number
+    subtree: number
+    sample: Array<{ distributor: string; distributorPath: string }>
+  }
+  affectedProducts: number
+}
+
+type Revision = {
+  id: string
+  action: 'CREATE' | 'UPDATE' | 'DELETE' | 'REVERT'
+  actor: string | null
+  diff: Record<string, { from: string | null; to: string | null }>
+  createdAt: string
+}
+
 type CollapsedMap = Record<string, boolean>;
 
+type MergePreview = {
+  source: { id: string; title: string; slug: string }
+  target: { id: string; title: string; slug: string }
+  productLinks: { total: number; duplicates: number; moved: number }
+  distributorMappings: number
+  children: Array<{ id: string; title: string; slug: string }>
+  primaryLinks: number
+  aliases: { moved: number; duplicates: number }
+  translations: { moved: string[]; kept: string[] }
+  attributes: Array<{ key: string; label: string; action: 'move' | 'merge'; values: number }>
+  rules: 'none' | 'copy'
+  shopifyCategory: 'none' | 'copy' | 'target-kept'
+  affectedProducts: number
+  shopifyPage: 'redirect-and-delete' | 'delete' | 'none'
+}
+
+// Where a dragged node will land: before a sibling, inside a node (as last child), or at root
+type DropTarget = { id: string; mode: 'before' | 'inside' } | { id: null; mode: 'root' };
+
 export default function CategoriesPage() {
   const [tree, setTree] = useState<Category[]>([])
   const [flat, setFlat] = useState<Category[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [taxonomy, setTaxonomy] = useState('') // key; the selector fills in the default
 
   const [title, setTitle] = useState('')
   const [slug, setSlug] = useState('')
   const [parentId, setParentId] = useState<string | null>(null)
   const [image, setImage] = useState<string>('')
+  const [imageAlt, setImageAlt] = useState<string>('')
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null)
   const [description, setDescription] = useState<string>('')
+  const [seoTitle, setSeoTitle] = useState<string>('')
+  const [seoDescription, setSeoDescription] = useState<string>('')
+  const [noindex, setNoindex] = useState(false)
 
   const [editing, setEditing] = useState<Category | null>(null)
 
   const loadCategories = useCallback(async () => {
+    if (!taxonomy) return
     setLoading(true)
     setError(null)
     try {
-      const res = await fetch('/api/categories', { cache: 'no-store' })
+      const res = await fetch(`/api/categories?taxonomy=${encodeURIComponent(taxonomy)}`, { cache: 'no-store' })
       if (!res.ok) throw new Error(`HTTP ${res.status}`)
       const data: Category[] = await res.json()
       setTree(data)
@@ -53,7 +117,7 @@ export default function CategoriesPage() {
     } finally {
       setLoading(false)
     }
-  }, [])
+  }, [taxonomy])
 
   useEffect(() => {
     loadCategories()
@@ -62,14 +126,7 @@ export default function CategoriesPage() {
   // Auto-slugify from title (with & → -, multi-dash collapse)
   useEffect(() => {
     if (editing) return // do not autoslug while editing unless user types
-    const s = title
-      .toLowerCase()
-      .trim()
-      .replace(/&/g, '-')      // replace & with dash
-      .replace(/\s+/g, '-')    // spaces to dashes
-      .replace(/[^a-z0-9-]/g, '')
-      .replace(/-+/g, '-')     // collapse dashes
-    setSlug(s)
+    setSlug(slugify(title))
   }, [title, editing])
 
   const resetForm = () => {
@@ -77,7 +134,12 @@ export default function CategoriesPage() {
     setSlug('')
     setParentId(null)
     setImage('')
+    setImageAlt('')
+    setImageSize(null)
     setDescription('')
+    setSeoTitle('')
+    setSeoDescription('')
+    setNoindex(false)
     setEditing(null)
   }
 
@@ -90,7 +152,14 @@ export default function CategoriesPage() {
       slug: slug.trim(),
       parentId: parentId || null,
       image: image.trim() || null,
+      imageAlt: imageAlt.trim() || null,
+      imageWidth: imageSize?.width ?? null,
+      imageHeight: imageSize?.height ?? null,
       description: description.trim() || null,
+      seoTitle: seoTitle.trim() || null,
+      seoDescription: seoDescription.trim() || null,
+      noindex,
+      taxonomy,
     }
 
     try {
@@ -120,7 +189,13 @@ export default function CategoriesPage() {
       // parentId not editable while editing in this simple UI; keep current
       parentId: editing.parentId,
       image: image.trim() || null,
+      imageAlt: imageAlt.trim() || null,
+      imageWidth: imageSize?.width ?? null,
+      imageHeight: imageSize?.height ?? null,
       description: description.trim() || null,
+      seoTitle: seoTitle.trim() || null,
+      seoDescription: seoDescription.trim() || null,
+      noindex,
     }
 
     try {
@@ -138,20 +213,153 @@ export default function CategoriesPage() {
     }
   }
 
+  // ---- Delete (impact preview first, then explicit options)
+  const [deleteImpact, setDeleteImpact] = useState<DeleteImpact | null>(null)
+  const [deleteChildren, setDeleteChildren] = useState<'reparent' | 'cascade'>('reparent')
+  const [deleteProducts, setDeleteProducts] = useState<'moveToParent' | 'unlink'>('moveToParent')
+  const [deleting, setDeleting] = useState(false)
+
+  const beginDelete = async (cat: Category) => {
+    setError(null)
+    try {
+      const res = await fetch(`/api/categories/delete-impact?id=${encodeURIComponent(cat.id)}`, { cache: 'no-store' })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`)
+      setDeleteImpact(json)
+      setDeleteChildren('reparent')
+      setDeleteProducts(json.parent ? 'moveToParent' : 'unlink')
+    } catch (e) {
+      console.error(e)
+      setError(`Could not load delete impact: ${(e as Error).message}`)
+    }
+  }
+
   const handleDelete = async (id: string) => {
+    if (!deleteImpact) return
+    const linkCount =
+      deleteChildren === 'cascade' ? deleteImpact.productLinks.subtree : deleteImpact.productLinks.direct
     setError(null)
+    setDeleting(true)
     try {
       const res = await fetch('/api/categories', {
         method: 'DELETE',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ id }),
+        body: JSON.stringify({
+          id,
+          children: deleteImpact.children.direct > 0 ? deleteChildren : undefined,
+          products: linkCount > 0 ? deleteProducts : undefined,
+        }),
       })
-      if (!res.ok) throw new Error(`Delete failed: ${await res.text()}`)
+      if (!res.ok) {
+        const json = await res.json().catch(() => ({}))
+        throw new Error(json.error || `HTTP ${res.status}`)
+      }
+      setDeleteImpact(null)
       await loadCategories()
       if (editing?.id === id) resetForm()
     } catch (e) {
       console.error(e)
-      setError('Delete failed')
+      setError(`Delete failed: ${(e as Error).message}`)
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  // ---- Revision history
+  const [historyFor, setHistoryFor] = useState<Category | null>(null)
+  const [revisions, setRevisions] = useState<Revision[]>([])
+  const [reverting, setReverting] = useState<string | null>(null)
+
+  const openHistory = async (cat: Category) => {
+    setHistoryFor(cat)
+    setRevisions([])
+    try {
+      const res = await fetch(`/api/categories/revisions?categoryId=${encodeURIComponent(cat.id)}`, { cache: 'no-store' })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`)
+      setRevisions(json.revisions)
+    } catch (e) {
+      console.error(e)
+      setError(`Failed to load history: ${(e as Error).message}`)
+    }
+  }
+
+  const handleRevert = async (rev: Revision) => {
+    if (!historyFor) return
+    if (!confirm(`Revert “${historyFor.title}” to its state from ${new Date(rev.createdAt).toLocaleString()}?`)) return
+    setReverting(rev.id)
+    setError(null)
+    try {
+      const res = await fetch('/api/categories/revisions/revert', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ revisionId: rev.id }),
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`)
+      await loadCategories()
+      await openHistory({ ...historyFor, ...json.category })
+    } catch (e) {
+      console.error(e)
+      setError(`Revert failed: ${(e as Error).message}`)
+    } finally {
+      setReverting(null)
+    }
+  }
+
+  // ---- Archive / restore
+  const [showArchived, setShowArchived] = useState(false)
+  const [archived, setArchived] = useState<ArchivedCategory[]>([])
+
+  const loadArchived = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/categories?archived=1&taxonomy=${encodeURIComponent(taxonomy)}`, { cache: 'no-store' })
+      if (!res.ok) throw new Error(`HTTP ${res.status}`)
+      setArchived(await res.json())
+    } catch (e) {
+      console.error(e)
+      setError('Failed to load archived categories')
+    }
+  }, [taxonomy])
+
+  useEffect(() => {
+    if (showArchived) loadArchived()
+  }, [showArchived, loadArchived])
+
+  const handleArchive = async (cat: Category) => {
+    if (!confirm(`Archive “${cat.title}” and its subcategories? Pages are unpublished; product links are kept.`)) return
+    setError(null)
+    try {
+      const res = await fetch('/api/categories/archive', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: cat.id }),
+      })
+      const json = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`)
+      if (editing?.id === cat.id) resetForm()
+      await loadCategories()
+      if (showArchived) await loadArchived()
+    } catch (e) {
+      console.error(e)
+      setError(`Archive failed: ${(e as Error).message}`)
+    }
+  }
+
+  const handleRestore = async (id: string) => {
+    setError(null)
+    try {
+      const res = await fetch('/api/categories/restore', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id }),
+      })
+      const json = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`)
+      await Promise.all([loadCategories(), loadArchived()])
+    } catch (e) {
+      console.error(e)
+      setError(`Restore failed: ${(e as Error).message}`)
     }
   }
 
@@ -161,7 +369,12 @@ export default function CategoriesPage() {
     setSlug(cat.slug)
     setParentId(cat.parentId)
     setImage(cat.image ?? '')
+    setImageAlt(cat.imageAlt ?? '')
+    setImageSize(cat.imageWidth && cat.imageHeight ? { width: cat.imageWidth, height: cat.imageHeight } : null)
     setDescription(cat.description ?? '')
+    setSeoTitle(cat.seoTitle ?? '')
+    setSeoDescription(cat.seoDescription ?? '')
+    setNoindex(cat.noindex)
   }
 
 const [collapsed, setCollapsed] = useState<CollapsedMap>({});
@@ -194,17 +407,202 @@ const toggleOne = useCallback((id: string) => {
   setCollapsed(prev => ({ ...prev, [id]: !prev[id] }));
 }, []);
 
+// ---- Drag & drop reparenting (backed by POST /api/categories/move)
+const [dragId, setDragId] = useState<string | null>(null);
+const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+const [moving, setMoving] = useState(false);
+
+const byId = useMemo(() => {
+  const map = new Map<string, Category>();
+  const walk = (nodes: Category[]) => {
+    for (const n of nodes) {
+      map.set(n.id, n);
+      if (n.children?.length) walk(n.children);
+    }
+  };
+  walk(tree);
+  return map;
+}, [tree]);
+
+// The dragged node and its descendants are never valid targets
+const blockedIds = useMemo(() => {
+  const out = new Set<string>();
+  const start = dragId ? byId.get(dragId) : undefined;
+  const walk = (n: Category) => {
+    out.add(n.id);
+    n.children?.forEach(walk);
+  };
+  if (start) walk(start);
+  return out;
+}, [dragId, byId]);
+
+const moveCategory = async (id: string, target: DropTarget) => {
+  let parentId: string | null = null;
+  let position: number | undefined;
+
+  if (target.mode === 'inside') {
+    parentId = target.id;
+  } else if (target.mode === 'before') {
+    parentId = byId.get(target.id)?.parentId ?? null;
+    const siblings = (parentId ? byId.get(parentId)?.children ?? [] : tree).filter((c) => c.id !== id);
+    position = siblings.findIndex((c) => c.id === target.id);
+  }
+
+  setMoving(true);
+  setError(null);
+  try {
+    const res = await fetch('/api/categories/move', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id, parentId, position }),
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+    if (parentId) setCollapsed(prev => ({ ...prev, [parentId as string]: false }));
+    await loadCategories();
+  } catch (e) {
+    console.error(e);
+    setError(`Move failed: ${(e as Error).message}`);
+  } finally {
+    setMoving(false);
+  }
+};
+
+// ---- Sibling reorder (backed by PUT /api/categories/reorder)
+const siblingsOf = (cat: Category): Category[] =>
+  cat.parentId ? byId.get(cat.parentId)?.children ?? [] : tree;
+
+const shiftCategory = async (cat: Category, delta: -1 | 1) => {
+  const ids = siblingsOf(cat).map((c) => c.id);
+  const from = ids.indexOf(cat.id);
+  const to = from + delta;
+  if (from < 0 || to < 0 || to >= ids.length) return;
+  [ids[from], ids[to]] = [ids[to], ids[from]];
+
+  setError(null);
+  try {
+    const res = await fetch('/api/categories/reorder', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ parentId: cat.parentId, orderedIds: ids }),
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+    await loadCategories();
+  } catch (e) {
+    console.error(e);
+    setError(`Reorder failed: ${(e as Error).message}`);
+  }
+};
+
+// ---- Merge (preview via GET, commit via POST /api/categories/merge)
+const [mergeSource, setMergeSource] = useState<Category | null>(null);
+const [mergeTargetId, setMergeTargetId] = useState('');
+const [mergeRedirect, setMergeRedirect] = useState(true);
+const [mergePreview, setMergePreview] = useState<MergePreview | null>(null);
+const [mergeBusy, setMergeBusy] = useState(false);
+
+const beginMerge = (cat: Category) => {
+  setMergeSource(cat);
+  setMergeTargetId('');
+  setMergePreview(null);
+  setMergeRedirect(true);
+};
+
+const cancelMerge = () => {
+  setMergeSource(null);
+  setMergePreview(null);
+};
+
+const loadMergePreview = async () => {
+  if (!mergeSource || !mergeTargetId) return;
+  setMergeBusy(true);
+  setError(null);
+  try {
+    const params = new URLSearchParams({
+      sourceId: mergeSource.id,
+      targetId: mergeTargetId,
+      redirect: mergeRedirect ? '1' : '0',
+    });
+    const res = await fetch(`/api/categories/merge?${params.toString()}`, { cache: 'no-store' });
+    const json = await res.json();
+    if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+    setMergePreview(json);
+  } catch (e) {
+    console.error(e);
+    setError(`Merge preview failed: ${(e as Error).message}`);
+  } finally {
+    setMergeBusy(false);
+  }
+};
+
+const commitMerge = async () => {
+  if (!mergeSource || !mergePreview) return;
+  setMergeBusy(true);
+  setError(null);
+  try {
+    const res = await fetch('/api/categories/merge', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        sourceId: mergeSource.id,
+        targetId: mergePreview.target.id,
+        redirect: mergeRedirect,
+      }),
+    });
+    const json = await res.json();
+    if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+    if (editing?.id === mergeSource.id) resetForm();
+    cancelMerge();
+    await loadCategories();
+  } catch (e) {
+    console.error(e);
+    setError(`Merge failed: ${(e as Error).message}`);
+  } finally {
+    setMergeBusy(false);
+  }
+};
+
+const endDrag = () => {
+  setDragId(null);
+  setDropTarget(null);
+};
+
+const handleDrop = (target: DropTarget) => {
+  const id = dragId;
+  endDrag();
+  if (!id || (target.id && blockedIds.has(target.id))) return;
+  moveCategory(id, target);
+};
+
 function renderTree(nodes: Category[]) {
   return (
     <ul className="cat-tree list-none pl-0">
-      {nodes.map((cat) => (
+      {nodes.map((cat, index) => (
         <li key={cat.id}>
           <TreeNode
             cat={cat}
             collapsed={!!collapsed[cat.id]}
             onToggle={() => toggleOne(cat.id)}
             onEdit={() => beginEdit(cat)}
-            onDelete={() => handleDelete(cat.id)}
+            onDelete={() => beginDelete(cat)}
+            onMerge={() => beginMerge(cat)}
+            onArchive={() => handleArchive(cat)}
+            onHistory={() => openHistory(cat)}
+            onMoveUp={index > 0 ? () => shiftCategory(cat, -1) : undefined}
+            onMoveDown={index < nodes.length - 1 ? () => shiftCategory(cat, 1) : undefined}
+            dragging={dragId === cat.id}
+            dropMode={
+              dropTarget && dropTarget.id === cat.id ? dropTarget.mode : null
+            }
+            onDragStart={() => setDragId(cat.id)}
+            onDragEnd={endDrag}
+            onDragOverMode={(mode) => {
+              if (!dragId || blockedIds.has(cat.id)) return false;
+              setDropTarget({ id: cat.id, mode });
+              return true;
+            }}
+            onDrop={(mode) => handleDrop({ id: cat.id, mode })}
           />
           {cat.children?.length ? (
             <ul
@@ -232,17 +630,66 @@ function TreeNode({
   onToggle,
   onEdit,
   onDelete,
+  onMerge,
+  onArchive,
+  onHistory,
+  onMoveUp,
+  onMoveDown,
+  dragging,
+  dropMode,
+  onDragStart,
+  onDragEnd,
+  onDragOverMode,
+  onDrop,
 }: {
   cat: Category;
   collapsed: boolean;
   onToggle: () => void;
   onEdit: () => void;
   onDelete: () => void;
+  onMerge: () => void;
+  onArchive: () => void;
+  onHistory: () => void;
+  onMoveUp?: () => void;
+  onMoveDown?: () => void;
+  dragging: boolean;
+  dropMode: 'before' | 'inside' | null;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+  onDragOverMode: (mode: 'before' | 'inside') => boolean;
+  onDrop: (mode: 'before' | 'inside') => void;
 }) {
   const hasKids = (cat.children?.length ?? 0) > 0;
+
+  // Top third of the row = insert before, rest = make child
+  const modeFromEvent = (e: React.DragEvent<HTMLDivElement>): 'before' | 'inside' => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return e.clientY - rect.top < rect.height / 3 ? 'before' : 'inside';
+  };
+
   return (
     <div
-      className="cat-node group flex items-center gap-2 rounded-md px-2 py-1 hover:bg-slate-50"
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', cat.id);
+        onDragStart();
+      }}
+      onDragEnd={onDragEnd}
+      onDragOver={(e) => {
+        if (onDragOverMode(modeFromEvent(e))) e.preventDefault();
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        onDrop(modeFromEvent(e));
+      }}
+      className={[
+        'cat-node group flex items-center gap-2 rounded-md px-2 py-1 hover:bg-slate-50 cursor-grab',
+        dragging ? 'opacity-40' : '',
+        dropMode === 'inside' ? 'bg-blue-50 ring-2 ring-blue-300' : '',
+        dropMode === 'before' ? 'border-t-2 border-blue-500' : '',
+      ].join(' ')}
     >
       {hasKids ? (
         <button
@@ -276,6 +723,24 @@ function TreeNode({
 
       {/* actions on the far right, hidden until hover/focus */}
       <div className="actions ml-auto opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100 inline-flex gap-1">
+        <button
+          type="button"
+          onClick={onMoveUp}
+          disabled={!onMoveUp}
+          title="Move up"
+          className="btn text-xs px-2 py-1 rounded border border-slate-300 bg-white text-slate-900 hover:bg-slate-50 disabled:opacity-40"
+        >
+          ↑
+        </button>
+        <button
+          type="button"
+          onClick={onMoveDown}
+          disabled={!onMoveDown}
+          title="Move down"
+          className="btn text-xs px-2 py-1 rounded border border-slate-300 bg-white text-slate-900 hover:bg-slate-50 disabled:opacity-40"
+        >
+          ↓
+        </button>
         <button
           type="button"
           onClick={onEdit}
@@ -285,9 +750,28 @@ function TreeNode({
         </button>
         <button
           type="button"
-          onClick={() => {
-            if (confirm(`Delete “${cat.title}”?`)) onDelete();
-          }}
+          onClick={onMerge}
+          className="btn text-xs px-2 py-1 rounded border border-slate-300 bg-white text-slate-900 hover:bg-slate-50"
+        >
+          Merge…
+        </button>
+        <button
+          type="button"
+          onClick={onHistory}
+          className="btn text-xs px-2 py-1 rounded border border-slate-300 bg-white text-slate-900 hover:bg-slate-50"
+        >
+          History
+        </button>
+        <button
+          type="button"
+          onClick={onArchive}
+          className="btn text-xs px-2 py-1 rounded border border-amber-200 bg-amber-50 text-amber-900 hover:bg-amber-100"
+        >
+          Archive
+        </button>
+        <button
+          type="button"
+          onClick={onDelete}
           className="btn text-xs px-2 py-1 rounded border border-red-200 bg-rose-50 text-rose-800 hover:bg-rose-100"
         >
           Delete
@@ -300,6 +784,17 @@ function TreeNode({
     <main className="p-6">
       <h1 className="text-2xl font-bold text-gray-900 mb-4">Manage Category Tree</h1>
 
+      <div className="mb-6">
+        <TaxonomySelect
+          value={taxonomy}
+          onChange={(key) => {
+            resetForm()
+            setTaxonomy(key)
+          }}
+          allowCreate
+        />
+      </div>
+
       <form
         onSubmit={editing ? handleUpdate : handleSubmit}
         className="mb-8 grid gap-3 max-w-2xl"
@@ -343,15 +838,21 @@ function TreeNode({
           </select>
         </div>
 
-        <div className="grid gap-1">
-          <label className="text-sm font-medium text-gray-900">Image URL (optional)</label>
-          <input
-            className="border rounded p-2 text-gray-900"
-            placeholder="https://…"
-            value={image}
-            onChange={(e) => setImage(e.target.value)}
-          />
-        </div>
+        <ImageField
+          image={image}
+          alt={imageAlt}
+          size={imageSize}
+          onUploaded={(u) => {
+            setImage(u.url)
+            setImageAlt(u.alt ?? '')
+            setImageSize({ width: u.width, height: u.height })
+          }}
+          onAltChange={setImageAlt}
+          onClear={() => {
+            setImage('')
+            setImageSize(null)
+          }}
+        />
 
         <div className="grid gap-1">
           <label className="text-sm font-medium text-gray-900">Description (optional)</label>
@@ -364,6 +865,34 @@ function TreeNode({
           />
         </div>
 
+        <fieldset className="grid gap-3 rounded border border-slate-200 p-3">
+          <legend className="px-1 text-sm font-medium text-gray-900">SEO (optional)</legend>
+          <div className="grid gap-1">
+            <label className="text-sm text-gray-900">Meta title</label>
+            <input
+              className="border rounded p-2 text-gray-900"
+              placeholder={title || 'Defaults to the page title'}
+              value={seoTitle}
+              onChange={(e) => setSeoTitle(e.target.value)}
+            />
+            <p className="text-xs text-gray-600">{seoTitle.length}/70</p>
+          </div>
+          <div className="grid gap-1">
+            <label className="text-sm text-gray-900">Meta description</label>
+            <textarea
+              className="border rounded p-2 text-gray-900"
+              value={seoDescription}
+              rows={2}
+              onChange={(e) => setSeoDescription(e.target.value)}
+            />
+            <p className="text-xs text-gray-600">{seoDescription.length}/160</p>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-900">
+            <input type="checkbox" checked={noindex} onChange={(e) => setNoindex(e.target.checked)} />
+            Hide from search engines (noindex)
+          </label>
+        </fieldset>
+
         <div className="flex items-center gap-2">
           <button
             type="submit"
@@ -383,6 +912,13 @@ function TreeNode({
         </div>
       </form>
 
+      {editing && <TranslationsEditor key={editing.id} categoryId={editing.id} />}
+      {editing && <AttributesEditor key={`attrs-${editing.id}`} categoryId={editing.id} />}
+      {editing && <AliasesEditor key={`aliases-${editing.id}`} categoryId={editing.id} />}
+      {editing && <RulesEditor key={`rules-${editing.id}`} categoryId={editing.id} />}
+      {editing && <ScheduleEditor key={`schedule-${editing.id}`} categoryId={editing.id} />}
+      {editing && <ShopifyCategoryPicker key={`shopify-${editing.id}`} categoryId={editing.id} />}
+
 <h2 className="text-xl font-semibold text-gray-900 mb-2">Category Tree</h2>
 <div className="mb-3 flex items-center gap-2">
   <button
@@ -399,12 +935,1322 @@ function TreeNode({
   >
     Collapse all
   </button>
+  <button
+    type="button"
+    onClick={() => setShowArchived((v) => !v)}
+    className="text-xs px-2 py-1 rounded border border-slate-300 text-slate-900 bg-white hover:bg-slate-50"
+  >
+    {showArchived ? 'Back to tree' : 'Archived'}
+  </button>
 </div>
-{loading ? (
+{historyFor && (
+  <section className="mb-4 max-w-3xl rounded-lg border border-slate-300 bg-white p-4 text-sm text-slate-900">
+    <div className="mb-2 flex items-center justify-between">
+      <div className="font-semibold">
+        History of “{historyFor.title}” <span className="text-slate-600">/ {historyFor.slug}</span>
+      </div>
+      <button
+        type="button"
+        onClick={() => setHistoryFor(null)}
+        className="text-xs px-2 py-1 rounded border border-slate-300 bg-white hover:bg-slate-50"
+      >
+        Close
+      </button>
+    </div>
+    {revisions.length === 0 ? (
+      <div className="text-slate-700">No revisions recorded.</div>
+    ) : (
+      <ul className="divide-y divide-slate-200">
+        {revisions.map((rev, i) => (
+          <li key={rev.id} className="flex items-start gap-3 py-2">
+            <div className="flex-1">
+              <div className="text-xs text-slate-600">
+                {new Date(rev.createdAt).toLocaleString()} · <b>{rev.action}</b> · {rev.actor || 'unknown'}
+              </div>
+              <ul className="mt-1 text-xs">
+                {Object.entries(rev.diff).map(([field, change]) => (
+                  <li key={field}>
+                    <code className="bg-slate-100 px-1 rounded">{field}</code>{' '}
+                    <span className="text-rose-700 line-through">{change.from ?? '∅'}</span> →{' '}
+                    <span className="text-emerald-700">{change.to ?? '∅'}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+            {i > 0 && rev.action !== 'DELETE' && (
+              <button
+                type="button"
+                onClick={() => handleRevert(rev)}
+                disabled={reverting !== null}
+                className="text-xs px-2 py-1 rounded border border-slate-300 bg-white hover:bg-slate-50 disabled:opacity-50"
+              >
+                {reverting === rev.id ? 'Reverting…' : 'Revert to this'}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    )}
+  </section>
+)}
+{deleteImpact && (
+  <section className="mb-4 max-w-2xl rounded-lg border border-rose-300 bg-rose-50 p-4 text-sm text-slate-900">
+    <div className="mb-2 font-semibold">
+      Delete “{deleteImpact.category.title}” <span className="text-slate-600">/ {deleteImpact.category.slug}</span>
+    </div>
+    <ul className="mb-3 space-y-1">
+      <li>
+        Children: <b>{deleteImpact.children.direct}</b> direct, <b>{deleteImpact.children.descendants}</b> total
+        {deleteImpact.children.sample.length > 0 && (
+          <span className="text-slate-600"> ({deleteImpact.children.sample.map((c) => c.title).join(', ')})</span>
+        )}
+      </li>
+      <li>
+        Product links: <b>{deleteImpact.productLinks.direct}</b> here,{' '}
+        <b>{deleteImpact.productLinks.subtree}</b> including subcategories
+      </li>
+      <li>
+        Distributor mappings: <b>{deleteImpact.distributorMappings.direct}</b> here,{' '}
+        <b>{deleteImpact.distributorMappings.subtree}</b> including subcategories
+        {deleteImpact.distributorMappings.sample.length > 0 && (
+          <span className="text-slate-600">
+            {' '}({deleteImpact.distributorMappings.sample.map((m) => `${m.distributor}: ${m.distributorPath}`).join('; ')})
+          </span>
+        )}
+      </li>
+      <li>Product metafields rebuilt afterwards: <b>{deleteImpact.affectedProducts}</b></li>
+    </ul>
+
+    {deleteImpact.children.direct > 0 && (
+      <fieldset className="mb-2">
+        <legend className="text-xs font-semibold text-slate-700">Subcategories</legend>
+        <label className="mr-4 inline-flex items-center gap-2">
+          <input
+            type="radio"
+            checked={deleteChildren === 'reparent'}
+            onChange={() => setDeleteChildren('reparent')}
+          />
+          Move up to {deleteImpact.parent ? `“${deleteImpact.parent.title}”` : 'top level'}
+        </label>
+        <label className="inline-flex items-center gap-2">
+          <input
+            type="radio"
+            checked={deleteChildren === 'cascade'}
+            onChange={() => setDeleteChildren('cascade')}
+          />
+          Delete them too (cascade)
+        </label>
+      </fieldset>
+    )}
+
+    {(deleteChildren === 'cascade' ? deleteImpact.productLinks.subtree : deleteImpact.productLinks.direct) > 0 && (
+      <fieldset className="mb-2">
+        <legend className="text-xs font-semibold text-slate-700">Linked products</legend>
+        <label className="mr-4 inline-flex items-center gap-2">
+          <input
+            type="radio"
+            checked={deleteProducts === 'moveToParent'}
+            disabled={!deleteImpact.parent}
+            onChange={() => setDeleteProducts('moveToParent')}
+          />
+          Move to {deleteImpact.parent ? `“${deleteImpact.parent.title}”` : 'parent (none)'}
+        </label>
+        <label className="inline-flex items-center gap-2">
+          <input
+            type="radio"
+            checked={deleteProducts === 'unlink'}
+            onChange={() => setDeleteProducts('unlink')}
+          />
+          Unlink
+        </label>
+      </fieldset>
+    )}
+
+    <div className="mt-3 flex gap-2">
+      <button
+        type="button"
+        onClick={() => handleDelete(deleteImpact.category.id)}
+        disabled={deleting}
+        className="px-4 py-2 rounded bg-rose-600 text-white hover:bg-rose-700 disabled:opacity-50"
+      >
+        {deleting ? 'Deleting…' : 'Delete permanently'}
+      </button>
+      <button
+        type="button"
+        onClick={() => setDeleteImpact(null)}
+        className="px-3 py-2 rounded border border-slate-300 bg-white hover:bg-slate-50"
+      >
+        Cancel
+      </button>
+    </div>
+  </section>
+)}
+{mergeSource && (
+  <section className="mb-4 max-w-2xl rounded-lg border border-amber-300 bg-amber-50 p-4 text-sm text-slate-900">
+    <div className="mb-2 font-semibold">
+      Merge “{mergeSource.title}” <span className="text-slate-600">/ {mergeSource.slug}</span> into…
+    </div>
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        className="border rounded p-2 text-gray-900 bg-white"
+        value={mergeTargetId}
+        onChange={(e) => {
+          setMergeTargetId(e.target.value);
+          setMergePreview(null);
+        }}
+      >
+        <option value="">Select target category…</option>
+        {flat
+          .filter((c) => c.id !== mergeSource.id)
+          .map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.title}
+            </option>
+          ))}
+      </select>
+      <label className="inline-flex items-center gap-2 text-xs">
+        <input
+          type="checkbox"
+          checked={mergeRedirect}
+          onChange={(e) => {
+            setMergeRedirect(e.target.checked);
+            setMergePreview(null);
+          }}
+        />
+        Redirect old page URL to the target
+      </label>
+      <button
+        type="button"
+        onClick={loadMergePreview}
+        disabled={!mergeTargetId || mergeBusy}
+        className="px-3 py-2 rounded border border-slate-300 bg-white hover:bg-slate-50 disabled:opacity-50"
+      >
+        Preview impact
+      </button>
+      <button
+        type="button"
+        onClick={cancelMerge}
+        className="px-3 py-2 rounded border border-slate-300 bg-white hover:bg-slate-50"
+      >
+        Cancel
+      </button>
+    </div>
+
+    {mergePreview && (
+      <div className="mt-3 space-y-1">
+        <div>
+          Product links: <b>{mergePreview.productLinks.moved}</b> moved,{' '}
+          <b>{mergePreview.productLinks.duplicates}</b> already on target (dropped)
+        </div>
+        <div>Distributor mappings re-pointed: <b>{mergePreview.distributorMappings}</b></div>
+        <div>
+          Children moved: <b>{mergePreview.children.length}</b>
+          {mergePreview.children.length > 0 && (
+            <span className="text-slate-600"> ({mergePreview.children.map((c) => c.title).join(', ')})</span>
+          )}
+        </div>
+        {mergePreview.primaryLinks > 0 && (
+          <div>Primary category moved to target: <b>{mergePreview.primaryLinks}</b> product(s)</div>
+        )}
+        {mergePreview.aliases.moved + mergePreview.aliases.duplicates > 0 && (
+          <div>
+            Aliases: <b>{mergePreview.aliases.moved}</b> moved, <b>{mergePreview.aliases.duplicates}</b> already on
+            target
+          </div>
+        )}
+        {mergePreview.translations.moved.length + mergePreview.translations.kept.length > 0 && (
+          <div>
+            Translations: <b>{mergePreview.translations.moved.join(', ') || 'none'}</b> moved
+            {mergePreview.translations.kept.length > 0 && (
+              <span className="text-slate-600">
+                {' '}
+                ({mergePreview.translations.kept.join(', ')} dropped, target has its own)
+              </span>
+            )}
+          </div>
+        )}
+        {mergePreview.attributes.length > 0 && (
+          <div>
+            Attributes:{' '}
+            {mergePreview.attributes
+              .map((a) => `${a.label} (${a.action === 'move' ? 'moved' : 'merged'}, ${a.values} values)`)
+              .join(', ')}
+          </div>
+        )}
+        {mergePreview.rules === 'copy' && <div>Auto-assign rules copied to target</div>}
+        {mergePreview.shopifyCategory !== 'none' && (
+          <div>
+            Shopify category:{' '}
+            <b>{mergePreview.shopifyCategory === 'copy' ? 'copied to target' : 'target keeps its own'}</b>
+          </div>
+        )}
+        <div>Product metafields rebuilt: <b>{mergePreview.affectedProducts}</b></div>
+        <div>
+          Shopify page:{' '}
+          <b>
+            {mergePreview.shopifyPage === 'none'
+              ? 'none linked'
+              : mergePreview.shopifyPage === 'delete'
+              ? 'deleted'
+              : `deleted, /pages/${mergePreview.source.slug} → /pages/${mergePreview.target.slug}`}
+          </b>
+        </div>
+        <button
+          type="button"
+          onClick={commitMerge}
+          disabled={mergeBusy}
+          className="mt-2 px-4 py-2 rounded bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-50"
+        >
+          {mergeBusy ? 'Merging…' : `Merge into “${mergePreview.target.title}”`}
+        </button>
+      </div>
+    )}
+  </section>
+)}
+<p className="mb-2 text-xs text-gray-600">
+  Drag a category onto another to make it a child, or onto the top edge of a row to place it before that row.
+</p>
+{dragId && (
+  <div
+    onDragOver={(e) => {
+      e.preventDefault();
+      setDropTarget({ id: null, mode: 'root' });
+    }}
+    onDrop={(e) => {
+      e.preventDefault();
+      handleDrop({ id: null, mode: 'root' });
+    }}
+    className={`mb-2 rounded border-2 border-dashed p-2 text-xs text-slate-700 ${
+      dropTarget?.mode === 'root' ? 'border-blue-500 bg-blue-50' : 'border-slate-300'
+    }`}
+  >
+    Drop here to move to the top level
+  </div>
+)}
+{moving && <div className="mb-2 text-xs text-slate-600">Moving… re-syncing pages and product metafields</div>}
+{showArchived ? (
+  <section className="max-w-3xl rounded-lg border border-slate-200 bg-white">
+    {archived.length === 0 ? (
+      <div className="p-4 text-sm text-slate-700">No archived categories.</div>
+    ) : (
+      <ul className="divide-y divide-slate-200">
+        {archived.map((a) => (
+          <li key={a.id} className="flex items-center gap-3 p-3 text-sm text-slate-900">
+            <div className="flex-1">
+              <div className="font-semibold">
+                {a.title} <span className="text-xs font-normal text-slate-600">/ {a.slug}</span>
+              </div>
+              <div className="text-xs text-slate-600">
+                Archived {new Date(a.archivedAt).toLocaleString()}
+                {a.parent ? ` · under “${a.parent.title}”` : ' · top level'}
+                {` · ${a._count.products} product link(s), ${a._count.children} child(ren)`}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => handleRestore(a.id)}
+              disabled={!!a.parent?.archivedAt}
+              title={a.parent?.archivedAt ? 'Restore the parent first' : 'Restore and republish'}
+              className="text-xs px-2 py-1 rounded border border-emerald-300 bg-emerald-50 text-emerald-900 hover:bg-emerald-100 disabled:opacity-40"
+            >
+              Restore
+            </button>
+          </li>
+        ))}
+      </ul>
+    )}
+  </section>
+) : loading ? (
   <div className="text-gray-700">Loading…</div>
 ) : (
   renderTree(tree)
 )}
     </main>
   )
-}
\ No newline at end of file
+}
+
+type Translation = {
+  locale: string
+  title: string | null
+  description: string | null
+  seoTitle: string | null
+  seoDescription: string | null
+}
+
+const blankTranslation = (locale: string): Translation => ({
+  locale,
+  title: null,
+  description: null,
+  seoTitle: null,
+  seoDescription: null,
+})
+
+// Per-locale text for the category being edited; saving also registers it on the Shopify page
+function TranslationsEditor({ categoryId }: { categoryId: string }) {
+  const [rows, setRows] = useState<Translation[]>([])
+  const [defaultLocale, setDefaultLocale] = useState('en')
+  const [newLocale, setNewLocale] = useState('')
+  const [busy, setBusy] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/categories/translations?categoryId=${encodeURIComponent(categoryId)}`, {
+        cache: 'no-store',
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`)
+      setRows(json.translations)
+      setDefaultLocale(json.defaultLocale)
+    } catch (e) {
+      console.error(e)
+      setError('Failed to load translations')
+    }
+  }, [categoryId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const update = (locale: string, field: keyof Omit<Translation, 'locale'>, value: string) =>
+    setRows((prev) => prev.map((r) => (r.locale === locale ? { ...r, [field]: value } : r)))
+
+  const save = async (row: Translation) => {
+    setBusy(row.locale)
+    setError(null)
+    try {
+      const res = await fetch('/api/categories/translations', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ categoryId, ...row }),
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`)
+      await load()
+    } catch (e) {
+      console.error(e)
+      setError(`Save failed: ${(e as Error).message}`)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const remove = async (locale: string) => {
+    if (!confirm(`Remove the ${locale} translation?`)) return
+    setBusy(locale)
+    setError(null)
+    try {
+      const res = await fetch('/api/categories/translations', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ categoryId, locale }),
+      })
+      // Unsaved rows only exist locally
+      if (!res.ok && res.status !== 404) throw new Error((await res.json()).error || `HTTP ${res.status}`)
+      setRows((prev) => prev.filter((r) => r.locale !== locale))
+    } catch (e) {
+      console.error(e)
+      setError(`Remove failed: ${(e as Error).message}`)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const addLocale = () => {
+    const locale = newLocale.trim()
+    if (!locale || rows.some((r) => r.locale.toLowerCase() === locale.toLowerCase())) return
+    setRows((prev) => [...prev, blankTranslation(locale)])
+    setNewLocale('')
+  }
+
+  return (
+    <section className="mb-6 max-w-xl rounded-lg border border-slate-300 bg-white p-4 text-sm text-slate-900">
+      <div className="mb-2 font-semibold">Translations</div>
+      <p className="mb-3 text-xs text-slate-600">
+        Empty fields fall back to the {defaultLocale} text above (fr-CA falls back to fr first).
+      </p>
+      {error && <div className="mb-2 text-red-600">{error}</div>}
+
+      {rows.map((r) => (
+        <div key={r.locale} className="mb-3 grid gap-2 rounded border border-slate-200 p-3">
+          <div className="flex items-center justify-between">
+            <span className="font-mono text-xs font-semibold">{r.locale}</span>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => save(r)}
+                disabled={busy === r.locale}
+                className="text-xs px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40"
+              >
+                Save
+              </button>
+              <button
+                type="button"
+                onClick={() => remove(r.locale)}
+                disabled={busy === r.locale}
+                className="text-xs px-2 py-1 rounded border border-red-300 text-red-700 hover:bg-red-50 disabled:opacity-40"
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+          <input
+            className="border rounded p-2"
+            placeholder="Title"
+            value={r.title ?? ''}
+            onChange={(e) => update(r.locale, 'title', e.target.value)}
+          />
+          <textarea
+            className="border rounded p-2"
+            placeholder="Description"
+            rows={2}
+            value={r.description ?? ''}
+            onChange={(e) => update(r.locale, 'description', e.target.value)}
+          />
+          <input
+            className="border rounded p-2"
+            placeholder="Meta title"
+            value={r.seoTitle ?? ''}
+            onChange={(e) => update(r.locale, 'seoTitle', e.target.value)}
+          />
+          <textarea
+            className="border rounded p-2"
+            placeholder="Meta description"
+            rows={2}
+            value={r.seoDescription ?? ''}
+            onChange={(e) => update(r.locale, 'seoDescription', e.target.value)}
+          />
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <input
+          className="border rounded p-1 w-28"
+          placeholder="e.g. fr-CA"
+          value={newLocale}
+          onChange={(e) => setNewLocale(e.target.value)}
+        />
+        <button
+          type="button"
+          onClick={addLocale}
+          className="text-xs px-2 py-1 rounded border border-slate-300 hover:bg-slate-50"
+        >
+          Add locale
+        </button>
+      </div>
+    </section>
+  )
+}
+
+type CategoryAttribute = {
+  id: string
+  key: string
+  label: string
+  type: 'ENUM' | 'NUMBER' | 'BOOLEAN'
+  unit: string | null
+  options: string[]
+  inherited: boolean
+  category: { id: string; title: string }
+}
+
+// Filterable attributes defined here (editable) or inherited from ancestors (read-only)
+function AttributesEditor({ categoryId }: { categoryId: string }) {
+  const [attrs, setAttrs] = useState<CategoryAttribute[]>([])
+  const [key, setKey] = useState('')
+  const [label, setLabel] = useState('')
+  const [type, setType] = useState<CategoryAttribute['type']>('ENUM')
+  const [unit, setUnit] = useState('')
+  const [options, setOptions] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/categories/attributes?categoryId=${encodeURIComponent(categoryId)}`, {
+        cache: 'no-store',
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`)
+      setAttrs(json.attributes)
+    } catch (e) {
+      console.error(e)
+      setError('Failed to load attributes')
+    }
+  }, [categoryId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const send = async (method: 'POST' | 'PUT' | 'DELETE', body: Record<string, unknown>) => {
+    setError(null)
+    try {
+      const res = await fetch('/api/categories/attributes', {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`)
+      await load()
+      return true
+    } catch (e) {
+      console.error(e)
+      setError((e as Error).message)
+      return false
+    }
+  }
+
+  const add = async () => {
+    const ok = await send('POST', {
+      categoryId,
+      key: key.trim(),
+      label: label.trim(),
+      type,
+      unit: unit.trim() || null,
+      options: options.split(',').map((o) => o.trim()).filter(Boolean),
+    })
+    if (ok) {
+      setKey('')
+      setLabel('')
+      setUnit('')
+      setOptions('')
+    }
+  }
+
+  const editOptions = async (a: CategoryAttribute) => {
+    const next = prompt(`Options for “${a.label}” (comma-separated)`, a.options.join(', '))
+    if (next === null) return
+    await send('PUT', { id: a.id, options: next.split(',').map((o) => o.trim()).filter(Boolean) })
+  }
+
+  const remove = async (a: CategoryAttribute) => {
+    if (!confirm(`Delete “${a.label}”? Values on every product in this branch are removed too.`)) return
+    await send('DELETE', { id: a.id })
+  }
+
+  return (
+    <section className="mb-6 max-w-xl rounded-lg border border-slate-300 bg-white p-4 text-sm text-slate-900">
+      <div className="mb-2 font-semibold">Attributes</div>
+      {error && <div className="mb-2 text-red-600">{error}</div>}
+
+      <ul className="mb-3 divide-y divide-slate-200">
+        {attrs.map((a) => (
+          <li key={a.id} className="flex items-center justify-between py-1.5">
+            <div>
+              <span className="font-medium">{a.label}</span>{' '}
+              <code className="text-xs text-slate-600">{a.key}</code>{' '}
+              <span className="text-xs text-slate-600">
+                {a.type.toLowerCase()}
+                {a.unit ? ` · ${a.unit}` : ''}
+                {a.options.length ? ` · ${a.options.join(', ')}` : ''}
+                {a.inherited ? ` · from ${a.category.title}` : ''}
+              </span>
+            </div>
+            {!a.inherited && (
+              <div className="flex gap-2">
+                {a.type === 'ENUM' && (
+                  <button type="button" onClick={() => editOptions(a)} className="text-xs text-blue-700 hover:underline">
+                    Options
+                  </button>
+                )}
+                <button type="button" onClick={() => remove(a)} className="text-xs text-red-700 hover:underline">
+                  Delete
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+        {!attrs.length && <li className="py-1.5 text-slate-600">No attributes yet.</li>}
+      </ul>
+
+      <div className="grid grid-cols-2 gap-2">
+        <input className="border rounded p-1" placeholder="key (e.g. pipe_diameter)" value={key} onChange={(e) => setKey(e.target.value)} />
+        <input className="border rounded p-1" placeholder="Label" value={label} onChange={(e) => setLabel(e.target.value)} />
+        <select className="border rounded p-1" value={type} onChange={(e) => setType(e.target.value as CategoryAttribute['type'])}>
+          <option value="ENUM">Enum</option>
+          <option value="NUMBER">Number</option>
+          <option value="BOOLEAN">Yes / no</option>
+        </select>
+        {type === 'NUMBER' && (
+          <input className="border rounded p-1" placeholder="Unit (e.g. in, mm)" value={unit} onChange={(e) => setUnit(e.target.value)} />
+        )}
+        {type === 'ENUM' && (
+          <input className="border rounded p-1" placeholder="Options, comma-separated" value={options} onChange={(e) => setOptions(e.target.value)} />
+        )}
+      </div>
+      <button
+        type="button"
+        onClick={add}
+        disabled={!key.trim() || !label.trim()}
+        className="mt-2 text-xs px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40"
+      >
+        Add attribute
+      </button>
+    </section>
+  )
+}
+
+type RuleCondition = { field: string; op: string; value: string }
+
+const RULE_FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  vendor: 'Vendor',
+  productType: 'Product type',
+  tag: 'Tag',
+  fitmentMake: 'Fitment make',
+  fitmentModel: 'Fitment model',
+  fitmentYear: 'Fitment year',
+}
+
+const RULE_OP_LABELS: Record<string, string> = {
+  equals: 'is',
+  notEquals: 'is not',
+  contains: 'contains',
+  notContains: 'does not contain',
+  startsWith: 'starts with',
+}
+
+function RulesEditor({ categoryId }: { categoryId: string }) {
+  const [match, setMatch] = useState<'all' | 'any'>('all')
+  const [conditions, setConditions] = useState<RuleCondition[]>([])
+  const [ruleLinks, setRuleLinks] = useState(0)
+  const [status, setStatus] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/categories/rules?categoryId=${encodeURIComponent(categoryId)}`, {
+        cache: 'no-store',
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`)
+      setMatch(json.rules?.match ?? 'all')
+      setConditions(json.rules?.conditions ?? [])
+      setRuleLinks(json.ruleLinks)
+    } catch (e) {
+      console.error(e)
+      setError('Failed to load rules')
+    }
+  }, [categoryId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const setCondition = (i: number, patch: Partial<RuleCondition>) =>
+    setConditions((cs) => cs.map((c, j) => (j === i ? { ...c, ...patch } : c)))
+
+  const post = async (url: string, method: string, body: Record<string, unknown>) => {
+    setError(null)
+    setStatus(null)
+    setBusy(true)
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`)
+      return json
+    } catch (e) {
+      console.error(e)
+      setError((e as Error).message)
+      return null
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const preview = async () => {
+    const json = await post('/api/categories/rules/evaluate', 'POST', { rules: { match, conditions } })
+    if (!json) return
+    const sample = json.sample.slice(0, 5).map((p: { title: string }) => p.title).join(', ')
+    setStatus(`${json.matched} of ${json.productsScanned} products match${sample ? ` (e.g. ${sample})` : ''}.`)
+  }
+
+  const save = async () => {
+    const json = await post('/api/categories/rules', 'PUT', {
+      categoryId,
+      rules: conditions.length ? { match, conditions } : null,
+    })
+    if (!json) return
+    setStatus(json.evaluating ? 'Saved. Matching products are being linked in the background.' : 'Saved.')
+    await load()
+  }
+
+  return (
+    <section className="mb-6 max-w-xl rounded-lg border border-slate-300 bg-white p-4 text-sm text-slate-900">
+      <div className="mb-2 font-semibold">Smart category rules</div>
+      <p className="mb-2 text-xs text-slate-600">
+        Matching products are linked automatically ({ruleLinks} now). Manually assigned products are never removed.
+      </p>
+      {error && <div className="mb-2 text-red-600">{error}</div>}
+      {status && <div className="mb-2 text-green-700">{status}</div>}
+
+      <label className="mb-2 block">
+        Match{' '}
+        <select className="border rounded p-1" value={match} onChange={(e) => setMatch(e.target.value as 'all' | 'any')}>
+          <option value="all">all conditions</option>
+          <option value="any">any condition</option>
+        </select>
+      </label>
+
+      <ul className="mb-2 space-y-1">
+        {conditions.map((c, i) => (
+          <li key={i} className="flex gap-2">
+            <select className="border rounded p-1" value={c.field} onChange={(e) => setCondition(i, { field: e.target.value })}>
+              {Object.entries(RULE_FIELD_LABELS).map(([v, l]) => (
+                <option key={v} value={v}>{l}</option>
+              ))}
+            </select>
+            <select className="border rounded p-1" value={c.op} onChange={(e) => setCondition(i, { op: e.target.value })}>
+              {Object.entries(RULE_OP_LABELS).map(([v, l]) => (
+                <option key={v} value={v}>{l}</option>
+              ))}
+            </select>
+            <input className="flex-1 border rounded p-1" value={c.value} onChange={(e) => setCondition(i, { value: e.target.value })} />
+            <button
+              type="button"
+              onClick={() => setConditions((cs) => cs.filter((_, j) => j !== i))}
+              className="text-xs text-red-700 hover:underline"
+            >
+              Remove
+            </button>
+          </li>
+        ))}
+        {!conditions.length && <li className="text-slate-600">No rules — products are assigned by hand only.</li>}
+      </ul>
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => setConditions((cs) => [...cs, { field: 'title', op: 'contains', value: '' }])}
+          className="text-xs px-2 py-1 rounded border border-slate-300 hover:bg-slate-50"
+        >
+          Add condition
+        </button>
+        <button
+          type="button"
+          onClick={preview}
+          disabled={busy || !conditions.length}
+          className="text-xs px-2 py-1 rounded border border-slate-300 hover:bg-slate-50 disabled:opacity-40"
+        >
+          Preview
+        </button>
+        <button
+          type="button"
+          onClick={save}
+          disabled={busy}
+          className="text-xs px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40"
+        >
+          Save &amp; apply
+        </button>
+      </div>
+    </section>
+  )
+}
+
+// Mirrors the server-side checks in src/lib/category-images.ts, so bad files fail before uploading
+const IMAGE_ACCEPT = ['image/jpeg', 'image/png', 'image/gif', 'image/webp']
+const IMAGE_MAX_BYTES = 20 * 1024 * 1024
+const IMAGE_MIN_SIDE = 200
+const IMAGE_MAX_SIDE = 5000
+
+type UploadedImage = { url: string; alt: string | null; width: number; height: number }
+
+function readImageSize(file: File): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file)
+    const img = new Image()
+    img.onload = () => {
+      resolve({ width: img.naturalWidth, height: img.naturalHeight })
+      URL.revokeObjectURL(url)
+    }
+    img.onerror = () => {
+      reject(new Error('Not a readable image'))
+      URL.revokeObjectURL(url)
+    }
+    img.src = url
+  })
+}
+
+function ImageField({
+  image,
+  alt,
+  size,
+  onUploaded,
+  onAltChange,
+  onClear,
+}: {
+  image: string
+  alt: string
+  size: { width: number; height: number } | null
+  onUploaded: (u: UploadedImage) => void
+  onAltChange: (alt: string) => void
+  onClear: () => void
+}) {
+  const [file, setFile] = useState<File | null>(null)
+  const [localPreview, setLocalPreview] = useState<string | null>(null)
+  const [uploading, setUploading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!file) return
+    const url = URL.createObjectURL(file)
+    setLocalPreview(url)
+    return () => URL.revokeObjectURL(url)
+  }, [file])
+
+  const pick = async (f: File | null) => {
+    setError(null)
+    setFile(null)
+    setLocalPreview(null)
+    if (!f) return
+    if (!IMAGE_ACCEPT.includes(f.type)) return setError('Use a JPEG, PNG, GIF or WebP image')
+    if (f.size > IMAGE_MAX_BYTES) return setError('File is larger than 20 MB')
+    try {
+      const { width, height } = await readImageSize(f)
+      if (width < IMAGE_MIN_SIDE || height < IMAGE_MIN_SIDE) {
+        return setError(`Image is ${width}×${height}; it must be at least ${IMAGE_MIN_SIDE}px on each side`)
+      }
+      if (width > IMAGE_MAX_SIDE || height > IMAGE_MAX_SIDE) {
+        return setError(`Image is ${width}×${height}; it must be at most ${IMAGE_MAX_SIDE}px on each side`)
+      }
+    } catch (e) {
+      return setError((e as Error).message)
+    }
+    setFile(f)
+  }
+
+  const upload = async () => {
+    if (!file) return
+    setUploading(true)
+    setError(null)
+    try {
+      const form = new FormData()
+      form.append('file', file)
+      form.append('alt', alt)
+      const res = await fetch('/api/categories/image', { method: 'POST', body: form })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`)
+      onUploaded(json)
+      setFile(null)
+      setLocalPreview(null)
+    } catch (e) {
+      console.error(e)
+      setError(`Upload failed: ${(e as Error).message}`)
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const preview = localPreview ?? (image || null)
+
+  return (
+    <div className="grid gap-1">
+      <label className="text-sm font-medium text-gray-900">Image (optional)</label>
+      {preview && (
+        <div className="flex items-start gap-3">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={preview} alt={alt} className="h-24 w-24 rounded border object-cover" />
+          <div className="text-xs text-gray-600">
+            {localPreview ? 'Not uploaded yet' : size ? `${size.width}×${size.height}` : 'Size unknown'}
+            {!localPreview && (
+              <button type="button" onClick={onClear} className="ml-2 text-red-700 hover:underline">
+                Remove
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+      <input
+        type="file"
+        accept={IMAGE_ACCEPT.join(',')}
+        className="text-sm text-gray-900"
+        onChange={(e) => pick(e.target.files?.[0] ?? null)}
+      />
+      <input
+        className="border rounded p-2 text-gray-900"
+        placeholder="Alt text (describe the image)"
+        value={alt}
+        onChange={(e) => onAltChange(e.target.value)}
+      />
+      {file && (
+        <button
+          type="button"
+          onClick={upload}
+          disabled={uploading}
+          className="justify-self-start text-xs px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40"
+        >
+          {uploading ? 'Uploading…' : 'Upload to Shopify'}
+        </button>
+      )}
+      {error && <div className="text-sm text-red-600">{error}</div>}
+    </div>
+  )
+}
+
+// Search synonyms, one per line or comma-separated ("muffler, silencer")
+function AliasesEditor({ categoryId }: { categoryId: string }) {
+  const [text, setText] = useState('')
+  const [saved, setSaved] = useState<string[]>([])
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/categories/aliases?categoryId=${encodeURIComponent(categoryId)}`, {
+        cache: 'no-store',
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`)
+      setSaved(json.aliases)
+      setText(json.aliases.join(', '))
+    } catch (e) {
+      console.error(e)
+      setError('Failed to load aliases')
+    }
+  }, [categoryId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const save = async () => {
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/categories/aliases', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ categoryId, aliases: text.split(/[,\n]/) }),
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`)
+      setSaved(json.aliases)
+      setText(json.aliases.join(', '))
+    } catch (e) {
+      console.error(e)
+      setError((e as Error).message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <section className="mb-6 max-w-xl rounded-lg border border-slate-300 bg-white p-4 text-sm text-slate-900">
+      <div className="mb-2 font-semibold">Search aliases</div>
+      <p className="mb-2 text-xs text-slate-600">
+        Other words shoppers use for this category. Used by the storefront category search.
+      </p>
+      {error && <div className="mb-2 text-red-600">{error}</div>}
+      <textarea
+        className="w-full border rounded p-1"
+        rows={2}
+        placeholder="muffler, silencer"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+      />
+      <button
+        type="button"
+        onClick={save}
+        disabled={busy || text === saved.join(', ')}
+        className="mt-2 text-xs px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40"
+      >
+        Save aliases
+      </button>
+    </section>
+  )
+}
+
+/* ---------- ScheduleEditor component ---------- */
+
+// ISO timestamp ↔ the local-time value of <input type="datetime-local">
+function toLocalInput(iso: string | null): string {
+  if (!iso) return ''
+  const d = new Date(iso)
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60_000).toISOString().slice(0, 16)
+}
+
+function fromLocalInput(v: string): string | null {
+  return v ? new Date(v).toISOString() : null
+}
+
+function ScheduleEditor({ categoryId }: { categoryId: string }) {
+  const [publishAt, setPublishAt] = useState('')
+  const [unpublishAt, setUnpublishAt] = useState('')
+  const [saved, setSaved] = useState({ publishAt: '', unpublishAt: '' })
+  const [live, setLive] = useState<boolean | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const apply = (row: { publishAt: string | null; unpublishAt: string | null }) => {
+    const next = { publishAt: toLocalInput(row.publishAt), unpublishAt: toLocalInput(row.unpublishAt) }
+    setSaved(next)
+    setPublishAt(next.publishAt)
+    setUnpublishAt(next.unpublishAt)
+  }
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/categories/schedule?categoryId=${encodeURIComponent(categoryId)}`, {
+        cache: 'no-store',
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`)
+      apply(json)
+    } catch (e) {
+      console.error(e)
+      setError('Failed to load schedule')
+    }
+  }, [categoryId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const save = async (clear = false) => {
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/categories/schedule', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          categoryId,
+          publishAt: clear ? null : fromLocalInput(publishAt),
+          unpublishAt: clear ? null : fromLocalInput(unpublishAt),
+        }),
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`)
+      apply(json)
+      setLive(json.live)
+      if (json.applied?.failed?.length) {
+        setError(`Saved, but the Shopify page could not be updated: ${json.applied.failed[0].error}`)
+      }
+    } catch (e) {
+      console.error(e)
+      setError((e as Error).message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const dirty = publishAt !== saved.publishAt || unpublishAt !== saved.unpublishAt
+
+  return (
+    <section className="mb-6 max-w-xl rounded-lg border border-slate-300 bg-white p-4 text-sm text-slate-900">
+      <div className="mb-2 font-semibold">Publish schedule</div>
+      <p className="mb-2 text-xs text-slate-600">
+        Outside this window the category is hidden from the storefront APIs and its Shopify page is unpublished.
+        Times are in your local time zone; leave a field empty for no limit.
+      </p>
+      {error && <div className="mb-2 text-red-600">{error}</div>}
+      <div className="grid grid-cols-2 gap-2">
+        <label className="grid gap-1">
+          <span className="text-xs font-medium">Publish at</span>
+          <input
+            type="datetime-local"
+            className="border rounded p-1"
+            value={publishAt}
+            onChange={(e) => setPublishAt(e.target.value)}
+          />
+        </label>
+        <label className="grid gap-1">
+          <span className="text-xs font-medium">Unpublish at</span>
+          <input
+            type="datetime-local"
+            className="border rounded p-1"
+            value={unpublishAt}
+            onChange={(e) => setUnpublishAt(e.target.value)}
+          />
+        </label>
+      </div>
+      <div className="mt-2 flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => save()}
+          disabled={busy || !dirty}
+          className="text-xs px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40"
+        >
+          Save schedule
+        </button>
+        <button
+          type="button"
+          onClick={() => save(true)}
+          disabled={busy || (!saved.publishAt && !saved.unpublishAt)}
+          className="text-xs px-2 py-1 rounded border hover:bg-gray-50 disabled:opacity-40"
+        >
+          Clear
+        </button>
+        {live !== null && <span className="text-xs text-slate-600">Now {live ? 'visible' : 'hidden'}</span>}
+      </div>
+    </section>
+  )
+}
+
+/* ---------- ShopifyCategoryPicker component ---------- */
+
+type ShopifyTaxonomyNode = { id: string; name: string; fullName: string; level: number | null; isLeaf: boolean | null }
+
+function ShopifyCategoryPicker({ categoryId }: { categoryId: string }) {
+  const [mapped, setMapped] = useState<ShopifyTaxonomyNode | null>(null)
+  const [inherited, setInherited] = useState<{ from: string; node: ShopifyTaxonomyNode } | null>(null)
+  const [loaded, setLoaded] = useState<boolean | null>(null)
+  const [q, setQ] = useState('')
+  const [results, setResults] = useState<ShopifyTaxonomyNode[]>([])
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      const [mapRes, statusRes] = await Promise.all([
+        fetch(`/api/categories/shopify-category?categoryId=${encodeURIComponent(categoryId)}`, { cache: 'no-store' }),
+        fetch('/api/shopify-taxonomy', { cache: 'no-store' }),
+      ])
+      const map = await mapRes.json()
+      const status = await statusRes.json()
+      if (!mapRes.ok) throw new Error(map.error || `HTTP ${mapRes.status}`)
+      setMapped(map.mapped)
+      setInherited(map.inherited)
+      setLoaded(Boolean(status.loaded))
+    } catch (e) {
+      console.error(e)
+      setError('Failed to load Shopify category')
+    }
+  }, [categoryId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  // Debounced search over the local copy of the taxonomy
+  useEffect(() => {
+    const term = q.trim()
+    if (term.length < 2) {
+      setResults([])
+      return
+    }
+    const t = setTimeout(async () => {
+      const res = await fetch(`/api/shopify-taxonomy?q=${encodeURIComponent(term)}&limit=15`, { cache: 'no-store' })
+      const json = await res.json()
+      if (res.ok) setResults(json.results)
+    }, 250)
+    return () => clearTimeout(t)
+  }, [q])
+
+  const save = async (shopifyTaxonomyId: string | null) => {
+    setBusy(true)
+    setError(null)
+    setMessage(null)
+    try {
+      const res = await fetch('/api/categories/shopify-category', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ categoryId, shopifyTaxonomyId }),
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`)
+      const p = json.products
+      if (p) setMessage(`${p.total} product(s) queued for update`)
+      setQ('')
+      await load()
+    } catch (e) {
+      console.error(e)
+      setError((e as Error).message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const loadTaxonomy = async () => {
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/shopify-taxonomy', { method: 'POST' })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`)
+      setMessage(`Loaded ${json.nodes} Shopify categories (${json.version})`)
+      await load()
+    } catch (e) {
+      console.error(e)
+      setError((e as Error).message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <section className="mb-6 max-w-xl rounded-lg border border-slate-300 bg-white p-4 text-sm text-slate-900">
+      <div className="mb-2 font-semibold">Shopify product category</div>
+      <p className="mb-2 text-xs text-slate-600">
+        Linked products get the most specific Shopify standard category among their categories. Unmapped
+        categories use their nearest mapped parent.
+      </p>
+      {error && <div className="mb-2 text-red-600">{error}</div>}
+      {message && <div className="mb-2 text-emerald-700">{message}</div>}
+
+      <div className="mb-2">
+        {mapped ? (
+          <div className="flex items-start justify-between gap-2">
+            <span>{mapped.fullName}</span>
+            <button
+              type="button"
+              onClick={() => save(null)}
+              disabled={busy}
+              className="text-xs px-2 py-1 rounded border hover:bg-gray-50 disabled:opacity-40"
+            >
+              Clear
+            </button>
+          </div>
+        ) : inherited ? (
+          <span className="text-slate-600">
+            Inherited from “{inherited.from}”: {inherited.node.fullName}
+          </span>
+        ) : (
+          <span className="text-slate-600">Not mapped</span>
+        )}
+      </div>
+
+      {loaded === false ? (
+        <button
+          type="button"
+          onClick={loadTaxonomy}
+          disabled={busy}
+          className="text-xs px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40"
+        >
+          {busy ? 'Loading…' : 'Load Shopify taxonomy'}
+        </button>
+      ) : (
+        <>
+          <input
+            className="w-full border rounded p-1"
+            placeholder="Search Shopify categories, e.g. exhaust"
+            value={q}
+            onChange={(e) => setQ(e.target.value)}
+          />
+          {results.length > 0 && (
+            <ul className="mt-1 max-h-60 overflow-y-auto divide-y rounded border">
+              {results.map((r) => (
+                <li key={r.id}>
+                  <button
+                    type="button"
+                    onClick={() => save(r.id)}
+                    disabled={busy}
+                    className="w-full px-2 py-1 text-left hover:bg-slate-50 disabled:opacity-40"
+                  >
+                    {r.fullName}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </section>
+  )
+}
@@ -2,6 +2,7 @@
 'use client'
 
 import { useCallback, useEffect, useMemo, useState } from 'react'
+import { slugify } from '@/lib/slugify'
 
 type Category = {
   id: string
@@ -60,14 +61,7 @@ export default function CategoriesPage() {
   // Auto-slugify from title (with & → -, multi-dash collapse)
   useEffect(() => {
     if (editing) return // do not autoslug while editing unless user types
-    const s = title
-      .toLowerCase()
-      .trim()
-      .replace(/&/g, '-')      // replace & with dash
-      .replace(/\s+/g, '-')    // spaces to dashes
-      .replace(/[^a-z0-9-]/g, '')
-      .replace(/-+/g, '-')     // collapse dashes
-    setSlug(s)
+    setSlug(slugify(title))
   }, [title, editing])
 
   const resetForm = () => {
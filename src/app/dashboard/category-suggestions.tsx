@@ -0,0 +1,81 @@
+'use client'
+
+import { useState } from 'react'
+
+export type CategorySuggestion = {
+  categoryId: string
+  slug: string
+  title: string
+  score: number
+}
+
+/** Suggestions per product gid from /api/categories/suggest (one request for up to 100 products). */
+export async function fetchCategorySuggestions(
+  productGids: string[],
+  taxonomy?: string
+): Promise<Record<string, CategorySuggestion[]>> {
+  if (!productGids.length) return {}
+  const params = new URLSearchParams(productGids.map(g => ['productGid', g]))
+  if (taxonomy) params.set('taxonomy', taxonomy)
+  const res = await fetch(`/api/categories/suggest?${params}`, { cache: 'no-store' })
+  const data = await res.json()
+  if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`)
+  return data.suggestions
+}
+
+/**
+ * Suggested categories as chips; clicking one links the product to it
+ * (same as a manual assign) and reports it through `onAccepted`.
+ */
+export function CategorySuggestions({
+  productGid,
+  suggestions,
+  onAccepted,
+}: {
+  productGid: string
+  suggestions: CategorySuggestion[]
+  onAccepted: (s: CategorySuggestion) => void
+}) {
+  const [accepting, setAccepting] = useState<string | null>(null)
+
+  const accept = async (s: CategorySuggestion) => {
+    setAccepting(s.categoryId)
+    try {
+      const res = await fetch('/api/product-categories', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ productGid, categoryId: s.categoryId }),
+      })
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}))
+        throw new Error(err.error || res.statusText)
+      }
+      onAccepted(s)
+    } catch (e) {
+      alert('Assign failed: ' + (e as Error).message)
+    } finally {
+      setAccepting(null)
+    }
+  }
+
+  if (!suggestions.length) return null
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 text-xs">
+      <span className="text-slate-600">Suggested:</span>
+      {suggestions.map(s => (
+        <button
+          key={s.categoryId}
+          type="button"
+          title={`Assign ${s.slug}`}
+          onClick={() => accept(s)}
+          disabled={accepting !== null}
+          className="inline-flex items-center gap-1 rounded border border-emerald-300 bg-emerald-50 px-2 py-0.5 text-emerald-900 hover:bg-emerald-100 disabled:opacity-60"
+        >
+          {accepting === s.categoryId ? '…' : '+'} {s.title}
+          <span className="text-emerald-700">{Math.round(s.score * 100)}%</span>
+        </button>
+      ))}
+    </div>
+  )
+}
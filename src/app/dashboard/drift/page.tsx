@@ -0,0 +1,284 @@
+// src/app/dashboard/drift/page.tsx
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+interface DriftScan {
+  id: string;
+  status: 'RUNNING' | 'DONE' | 'FAILED' | 'REPAIRING';
+  productsScanned: number;
+  mismatches: number;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+interface DriftItem {
+  id: string;
+  productGid: string;
+  metafieldKey: string;
+  expected: string[];
+  actual: string[];
+  resolution: string | null;
+  resolvedAt: string | null;
+  error: string | null;
+  note: string | null; // what an import left as is
+}
+
+type RepairMode = 'push' | 'import';
+
+function fmt(iso: string | null) {
+  return iso ? new Date(iso).toLocaleString() : '—';
+}
+
+function SlugDiff({ item }: { item: DriftItem }) {
+  const missing = item.expected.filter((s) => !item.actual.includes(s));
+  const extra = item.actual.filter((s) => !item.expected.includes(s));
+  return (
+    <div className="flex flex-wrap gap-1 text-xs">
+      {missing.map((s) => (
+        <span key={`-${s}`} className="rounded border border-amber-300 bg-amber-50 px-1.5" title="In DB, missing in Shopify">
+          +{s}
+        </span>
+      ))}
+      {extra.map((s) => (
+        <span key={`+${s}`} className="rounded border border-red-300 bg-red-50 px-1.5" title="In Shopify, not in DB">
+          −{s}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export default function DriftPage() {
+  const [scans, setScans] = useState<DriftScan[]>([]);
+  const [scanId, setScanId] = useState<string | null>(null);
+  const [scan, setScan] = useState<(DriftScan & { items: DriftItem[] }) | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [pollRun, setPollRun] = useState(0); // bumped when a repair starts to restart polling
+
+  const loadScans = useCallback(async () => {
+    try {
+      const res = await fetch('/api/admin/category-drift', { cache: 'no-store' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setScans(data.scans);
+      setScanId((cur) => cur ?? data.scans[0]?.id ?? null);
+    } catch (e) {
+      console.error('Drift scans load error:', e);
+      setError('Failed to load scans');
+    }
+  }, []);
+
+  const loadScan = useCallback(async (id: string) => {
+    const res = await fetch(`/api/admin/category-drift?scanId=${id}`, { cache: 'no-store' });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+    setScan(data);
+    return data as DriftScan;
+  }, []);
+
+  useEffect(() => {
+    loadScans();
+  }, [loadScans]);
+
+  // Follow the selected scan while it runs or is being repaired
+  useEffect(() => {
+    if (!scanId) return;
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const poll = async () => {
+      try {
+        const s = await loadScan(scanId);
+        if (stopped) return;
+        if (s.status === 'RUNNING' || s.status === 'REPAIRING') timer = setTimeout(poll, 3000);
+        else loadScans();
+      } catch (e) {
+        console.error('Drift scan load error:', e);
+        setError('Failed to load scan');
+      }
+    };
+    poll();
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [scanId, pollRun, loadScan, loadScans]);
+
+  async function startScan() {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch('/api/admin/category-drift', { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setScanId(data.scanId);
+      await loadScans();
+    } catch (e) {
+      setError(`Scan failed to start: ${(e as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function repair(mode: RepairMode, itemIds?: string[]) {
+    if (!scan) return;
+    if (
+      mode === 'import' &&
+      !confirm(
+        'Replace the DB category links of these products with the slugs currently in Shopify? ' +
+          'Products whose Shopify metafield is empty will lose their manual links in that taxonomy ' +
+          '(rule-assigned links and the primary category are kept).'
+      )
+    ) {
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch('/api/admin/category-drift/repair', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scanId: scan.id, mode, itemIds }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setMessage('Repair started; items update as products are processed');
+      setPollRun((n) => n + 1);
+    } catch (e) {
+      setError(`Repair failed: ${(e as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const open = scan?.items.filter((i) => !i.resolvedAt) ?? [];
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <h1 className="text-2xl font-bold">Metafield Drift</h1>
+        <button
+          onClick={startScan}
+          disabled={busy || scans.some((s) => s.status === 'RUNNING')}
+          className="px-3 py-1.5 rounded border text-sm disabled:opacity-50"
+        >
+          Scan catalog
+        </button>
+        {scans.length > 0 && (
+          <select
+            className="border rounded px-2 py-1.5 text-sm"
+            value={scanId ?? ''}
+            onChange={(e) => setScanId(e.target.value)}
+          >
+            {scans.map((s) => (
+              <option key={s.id} value={s.id}>
+                {fmt(s.startedAt)} — {s.status.toLowerCase()}, {s.mismatches} mismatches
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      <p className="text-sm text-gray-600">
+        Compares each product’s <code>taxonomy.*</code> slug metafields in Shopify with the slugs its category
+        links produce. <b>Rewrite</b> pushes the DB state to Shopify; <b>Import</b> replaces the DB links with
+        what Shopify has.
+      </p>
+      {message && <div className="text-sm text-emerald-700">{message}</div>}
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      {scan && (
+        <div className="space-y-3">
+          <div className="text-sm">
+            {scan.status === 'RUNNING'
+              ? 'Scanning…'
+              : scan.status === 'REPAIRING'
+              ? 'Repairing…'
+              : scan.status === 'FAILED'
+              ? 'Failed'
+              : 'Finished'}{' '}
+            —{' '}
+            {scan.productsScanned} products scanned, {scan.mismatches} mismatches, {open.length} open
+            {scan.error && <span className="text-red-600"> ({scan.error})</span>}
+          </div>
+          {open.length > 0 && scan.status === 'DONE' && (
+            <div className="flex gap-2">
+              <button
+                onClick={() => repair('push')}
+                disabled={busy}
+                className="px-3 py-1.5 rounded border text-sm disabled:opacity-50"
+              >
+                Rewrite all {open.length} from DB
+              </button>
+            </div>
+          )}
+
+          {scan.items.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="py-2">Product</th>
+                  <th>Metafield</th>
+                  <th>Difference (+ missing in Shopify, − extra)</th>
+                  <th>Status</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {scan.items.map((i) => (
+                  <tr key={i.id}>
+                    <td className="py-1.5">
+                      <code className="text-xs">{i.productGid.replace('gid://shopify/Product/', '')}</code>
+                    </td>
+                    <td>
+                      <code className="text-xs">{i.metafieldKey}</code>
+                    </td>
+                    <td>
+                      <SlugDiff item={i} />
+                    </td>
+                    <td className="text-xs">
+                      {i.resolvedAt ? (
+                        <span className="text-emerald-700">
+                          {i.resolution} {fmt(i.resolvedAt)}
+                          {i.note && <span className="text-amber-700"> ({i.note})</span>}
+                        </span>
+                      ) : i.error ? (
+                        <span className="text-red-600">{i.error}</span>
+                      ) : (
+                        'open'
+                      )}
+                    </td>
+                    <td className="text-right whitespace-nowrap">
+                      {!i.resolvedAt && scan.status === 'DONE' && (
+                        <>
+                          <button
+                            onClick={() => repair('push', [i.id])}
+                            disabled={busy}
+                            className="px-2 py-0.5 rounded border text-xs disabled:opacity-50"
+                          >
+                            Rewrite
+                          </button>{' '}
+                          <button
+                            onClick={() => repair('import', [i.id])}
+                            disabled={busy}
+                            className="px-2 py-0.5 rounded border text-xs disabled:opacity-50"
+                          >
+                            Import
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
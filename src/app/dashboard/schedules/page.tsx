@@ -0,0 +1,117 @@
+// src/app/dashboard/schedules/page.tsx
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+interface UpcomingSchedule {
+  id: string;
+  title: string;
+  slug: string;
+  taxonomy: string;
+  publishAt: string | null;
+  unpublishAt: string | null;
+  live: boolean;
+  next: { action: 'publish' | 'unpublish'; at: string };
+}
+
+function fmt(iso: string | null) {
+  return iso ? new Date(iso).toLocaleString() : '—';
+}
+
+export default function SchedulesPage() {
+  const [upcoming, setUpcoming] = useState<UpcomingSchedule[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      const res = await fetch('/api/categories/schedule', { cache: 'no-store' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setUpcoming(data.upcoming);
+    } catch (e) {
+      console.error('Schedule load error:', e);
+      setError('Failed to load schedules');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function runNow() {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch('/api/categories/schedule/run', { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setMessage(
+        `${data.published.length} published, ${data.unpublished.length} unpublished` +
+          (data.failed.length ? `, ${data.failed.length} failed` : '')
+      );
+    } catch (e) {
+      console.error('Schedule run error:', e);
+      setError(`Run failed: ${(e as Error).message}`);
+    } finally {
+      setBusy(false);
+      await load();
+    }
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <h1 className="text-2xl font-bold">Scheduled Categories</h1>
+        <button
+          onClick={runNow}
+          disabled={busy}
+          className="px-3 py-1.5 rounded border text-sm disabled:opacity-50"
+        >
+          {busy ? 'Running…' : 'Apply due changes now'}
+        </button>
+      </div>
+      <p className="text-sm text-gray-600">
+        Storefront APIs follow each window immediately; Shopify pages are toggled by the scheduler run. Set a
+        window from the category’s editor in Manage Category Tree.
+      </p>
+      {message && <div className="text-sm text-emerald-700">{message}</div>}
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      {upcoming && upcoming.length === 0 && <p className="text-sm text-gray-600">Nothing scheduled.</p>}
+      {upcoming && upcoming.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left border-b">
+              <th className="py-2">Category</th>
+              <th>Taxonomy</th>
+              <th>Now</th>
+              <th>Next</th>
+              <th>Publish at</th>
+              <th>Unpublish at</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {upcoming.map((u) => (
+              <tr key={u.id}>
+                <td className="py-1.5">
+                  {u.title} <code className="text-xs">{u.slug}</code>
+                </td>
+                <td>{u.taxonomy}</td>
+                <td className={u.live ? 'text-emerald-700' : 'text-gray-500'}>{u.live ? 'Visible' : 'Hidden'}</td>
+                <td>
+                  {u.next.action === 'publish' ? 'Publish' : 'Unpublish'} {fmt(u.next.at)}
+                </td>
+                <td>{fmt(u.publishAt)}</td>
+                <td>{fmt(u.unpublishAt)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,10 @@ const links = [
   { href: '/dashboard', label: 'Overview' },
   { href: '/dashboard/audit', label: 'Product + Category View' },
   { href: '/dashboard/categories', label: 'Manage Category Tree' },
+  { href: '/dashboard/taxonomy-io', label: 'Category Import / Export' },
+  { href: '/dashboard/taxonomy-lint', label: 'Taxonomy Lint' },
+  { href: '/dashboard/schedules', label: 'Scheduled Categories' },
+  { href: '/dashboard/drift', label: 'Metafield Drift' },
   { href: '/dashboard/fit-terms', label: 'Fitment Terms' },
   { href: '/dashboard/fitments-audit', label: 'Assign Fitments' },
   { href: '/dashboard/distributors', label: 'Distributor Import' },
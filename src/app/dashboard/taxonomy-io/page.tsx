@@ -0,0 +1,220 @@
+// src/app/dashboard/taxonomy-io/page.tsx
+'use client';
+
+import { useState } from 'react';
+import { TaxonomySelect } from '../taxonomy-select';
+
+type Format = 'csv' | 'json';
+
+interface ImportPlan {
+  rows: number;
+  creates: Array<{ slug: string; title: string; parentSlug: string | null; line?: number }>;
+  updates: Array<{
+    slug: string;
+    changes: Record<string, { from: string | null; to: string | null }>;
+    line?: number;
+  }>;
+  moves: Array<{ slug: string; fromParentSlug: string | null; toParentSlug: string | null; line?: number }>;
+  conflicts: Array<{ slug: string; error: string; line?: number }>;
+  unchanged: number;
+  pagesSynced?: number;
+  metafields?: { jobId: string; total: number } | null;
+}
+
+export default function CategoriesImportExportPage() {
+  const [taxonomy, setTaxonomy] = useState('');
+  const [format, setFormat] = useState<Format>('csv');
+  const [text, setText] = useState('');
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [applied, setApplied] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function onFile(file: File | undefined) {
+    if (!file) return;
+    setText(await file.text());
+    setFormat(file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+    setPlan(null);
+    setApplied(false);
+  }
+
+  async function run(dryRun: boolean) {
+    setBusy(true);
+    setError(null);
+    try {
+      const qs = `format=${format}&taxonomy=${encodeURIComponent(taxonomy)}${dryRun ? '&dryRun=1' : ''}`;
+      const res = await fetch(`/api/categories/import?${qs}`, {
+        method: 'POST',
+        headers: { 'Content-Type': format === 'json' ? 'application/json' : 'text/csv' },
+        body: text,
+      });
+      const data = await res.json();
+      if (data.creates) setPlan(data);
+      if (!res.ok) {
+        setError(data.error || 'Import failed');
+        return;
+      }
+      setApplied(!dryRun);
+    } catch (e) {
+      console.error('Import error:', e);
+      setError('Import failed');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const canApply = Boolean(plan && !applied && plan.conflicts.length === 0);
+
+  return (
+    <div className="p-6 space-y-6">
+      <h1 className="text-2xl font-bold">Category Import / Export</h1>
+
+      <TaxonomySelect
+        value={taxonomy}
+        onChange={(key) => {
+          setTaxonomy(key);
+          setPlan(null);
+          setApplied(false);
+        }}
+      />
+
+      <section className="rounded border p-4 space-y-2">
+        <h2 className="font-semibold">Export</h2>
+        <p className="text-sm text-gray-600">
+          Paths use <code>Parent &gt; Child &gt; Grandchild</code> title notation; slugs identify categories on import.
+        </p>
+        <div className="flex gap-2">
+          <a href={`/api/categories/export?format=csv&taxonomy=${encodeURIComponent(taxonomy)}`} className="px-3 py-1.5 rounded bg-slate-800 text-white text-sm">
+            Download CSV
+          </a>
+          <a href={`/api/categories/export?format=json&taxonomy=${encodeURIComponent(taxonomy)}`} className="px-3 py-1.5 rounded bg-slate-800 text-white text-sm">
+            Download JSON
+          </a>
+        </div>
+      </section>
+
+      <section className="rounded border p-4 space-y-3">
+        <h2 className="font-semibold">Import</h2>
+        <div className="flex items-center gap-3">
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={(e) => onFile(e.target.files?.[0])}
+          />
+          <select
+            value={format}
+            onChange={(e) => {
+              setFormat(e.target.value as Format);
+              setPlan(null);
+            }}
+            className="border rounded px-2 py-1 text-sm"
+          >
+            <option value="csv">CSV</option>
+            <option value="json">JSON</option>
+          </select>
+        </div>
+        <textarea
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setPlan(null);
+            setApplied(false);
+          }}
+          rows={10}
+          placeholder={format === 'csv' ? 'path,slug,description,image' : '[{ "title": "...", "slug": "...", "children": [] }]'}
+          className="w-full border rounded p-2 font-mono text-xs"
+        />
+        <div className="flex gap-2">
+          <button
+            onClick={() => run(true)}
+            disabled={busy || !text.trim()}
+            className="px-3 py-1.5 rounded border text-sm disabled:opacity-50"
+          >
+            {busy ? 'Working…' : 'Dry run'}
+          </button>
+          <button
+            onClick={() => {
+              if (confirm('Apply this import? Categories will be written and synced to Shopify.')) run(false);
+            }}
+            disabled={busy || !canApply}
+            className="px-3 py-1.5 rounded bg-emerald-600 text-white text-sm disabled:opacity-50"
+          >
+            Apply import
+          </button>
+        </div>
+        {error && <div className="text-sm text-red-600">{error}</div>}
+      </section>
+
+      {plan && (
+        <section className="rounded border p-4 space-y-4 text-sm">
+          <div className="font-semibold">
+            {applied ? 'Imported' : 'Dry run'}: {plan.rows} row(s) — {plan.creates.length} create,{' '}
+            {plan.updates.length} update, {plan.moves.length} move, {plan.conflicts.length} conflict,{' '}
+            {plan.unchanged} unchanged
+            {applied && plan.pagesSynced !== undefined && <> · {plan.pagesSynced} page(s) synced</>}
+            {applied && plan.metafields && <> · {plan.metafields.total} product(s) queued for update</>}
+          </div>
+
+          {plan.conflicts.length > 0 && (
+            <div>
+              <h3 className="font-medium text-red-700">Conflicts</h3>
+              <ul className="list-disc ml-5">
+                {plan.conflicts.map((c, i) => (
+                  <li key={i}>
+                    {c.line !== undefined && <span className="text-gray-500">#{c.line} </span>}
+                    <code>{c.slug || '—'}</code>: {c.error}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {plan.creates.length > 0 && (
+            <div>
+              <h3 className="font-medium">Creates</h3>
+              <ul className="list-disc ml-5">
+                {plan.creates.map((c) => (
+                  <li key={c.slug}>
+                    {c.title} <code>{c.slug}</code>
+                    {c.parentSlug && <span className="text-gray-500"> under {c.parentSlug}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {plan.moves.length > 0 && (
+            <div>
+              <h3 className="font-medium">Moves</h3>
+              <ul className="list-disc ml-5">
+                {plan.moves.map((m) => (
+                  <li key={m.slug}>
+                    <code>{m.slug}</code>: {m.fromParentSlug ?? '(root)'} → {m.toParentSlug ?? '(root)'}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {plan.updates.length > 0 && (
+            <div>
+              <h3 className="font-medium">Updates</h3>
+              <ul className="list-disc ml-5">
+                {plan.updates.map((u) => (
+                  <li key={u.slug}>
+                    <code>{u.slug}</code>
+                    {Object.entries(u.changes).map(([field, c]) => (
+                      <div key={field} className="ml-2 text-gray-700">
+                        {field}: <span className="line-through">{c.from ?? '∅'}</span> → {c.to ?? '∅'}
+                      </div>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+// src/app/dashboard/taxonomy-lint/page.tsx
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+type LintType = 'missingParent' | 'cycle' | 'duplicateTitle' | 'badSlug' | 'emptyLeaf' | 'missingPage' | 'staleSync';
+
+interface LintIssue {
+  type: LintType;
+  categoryId: string;
+  title: string;
+  slug: string;
+  detail: string;
+  related?: string[];
+}
+
+interface LintReport {
+  checked: number;
+  counts: Record<LintType, number>;
+  issues: LintIssue[];
+}
+
+const SECTIONS: Array<{ type: LintType; label: string; fix: string; confirm: string }> = [
+  {
+    type: 'missingParent',
+    label: 'Parent does not exist',
+    fix: 'Move to root',
+    confirm: 'Move these categories to the top level?',
+  },
+  {
+    type: 'cycle',
+    label: 'Parent cycles',
+    fix: 'Break cycles',
+    confirm: 'Move one category of each loop to the top level?',
+  },
+  {
+    type: 'duplicateTitle',
+    label: 'Duplicate titles under one parent',
+    fix: 'Add numeric suffix',
+    confirm: 'Rename the later duplicates to “Title (2)”, “Title (3)”, …?',
+  },
+  {
+    type: 'badSlug',
+    label: 'Slugs not in editor format',
+    fix: 'Re-slugify',
+    confirm: 'Change these slugs? Old slugs keep resolving and their pages get redirects.',
+  },
+  {
+    type: 'emptyLeaf',
+    label: 'Leaf categories with no products',
+    fix: 'Archive',
+    confirm: 'Archive these empty categories? They can be restored later.',
+  },
+  {
+    type: 'missingPage',
+    label: 'No Shopify page',
+    fix: 'Create pages',
+    confirm: 'Create Shopify pages for these categories?',
+  },
+  {
+    type: 'staleSync',
+    label: 'Edited since last Shopify sync',
+    fix: 'Sync pages',
+    confirm: 'Push these categories to their Shopify pages?',
+  },
+];
+
+export default function TaxonomyLintPage() {
+  const [report, setReport] = useState<LintReport | null>(null);
+  const [busy, setBusy] = useState<LintType | 'load' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setBusy('load');
+    setError(null);
+    try {
+      const res = await fetch('/api/categories/lint', { cache: 'no-store' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setReport(data);
+    } catch (e) {
+      console.error('Lint error:', e);
+      setError('Failed to load report');
+    } finally {
+      setBusy(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function fix(type: LintType, confirmText: string, categoryIds?: string[]) {
+    if (!confirm(confirmText)) return;
+    setBusy(type);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch('/api/categories/lint', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type, categoryIds }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setMessage(`${data.fixed} fixed${data.failed ? `, ${data.failed} failed` : ''}${data.error ? ` (${data.error})` : ''}`);
+    } catch (e) {
+      console.error('Fix error:', e);
+      setError(`Fix failed: ${(e as Error).message}`);
+    } finally {
+      setBusy(null);
+      await load();
+    }
+  }
+
+  const total = report?.issues.length ?? 0;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <h1 className="text-2xl font-bold">Taxonomy Lint</h1>
+        <button
+          onClick={load}
+          disabled={busy !== null}
+          className="px-3 py-1.5 rounded border text-sm disabled:opacity-50"
+        >
+          {busy === 'load' ? 'Checking…' : 'Re-run'}
+        </button>
+      </div>
+
+      {report && (
+        <p className="text-sm text-gray-600">
+          {report.checked} categories checked · {total ? `${total} issue(s)` : 'no issues found'}
+        </p>
+      )}
+      {message && <div className="text-sm text-emerald-700">{message}</div>}
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      {report &&
+        SECTIONS.filter((s) => report.counts[s.type] > 0).map((s) => {
+          const issues = report.issues.filter((i) => i.type === s.type);
+          return (
+            <section key={s.type} className="rounded border p-4 space-y-2 text-sm">
+              <div className="flex items-center justify-between">
+                <h2 className="font-semibold">
+                  {s.label} <span className="text-gray-500">({issues.length})</span>
+                </h2>
+                <button
+                  onClick={() => fix(s.type, s.confirm)}
+                  disabled={busy !== null}
+                  className="px-3 py-1.5 rounded bg-emerald-600 text-white text-sm disabled:opacity-50"
+                >
+                  {busy === s.type ? 'Fixing…' : `${s.fix} (all)`}
+                </button>
+              </div>
+              <ul className="divide-y">
+                {issues.map((i) => (
+                  <li key={`${i.type}:${i.categoryId}`} className="flex items-center justify-between py-1.5">
+                    <div>
+                      {i.title} <code className="text-xs">{i.slug}</code>
+                      <div className="text-xs text-gray-600">{i.detail}</div>
+                    </div>
+                    <button
+                      onClick={() => fix(s.type, s.confirm, [i.categoryId])}
+                      disabled={busy !== null}
+                      className="text-xs text-blue-700 hover:underline disabled:opacity-50"
+                    >
+                      {s.fix}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          );
+        })}
+    </div>
+  );
+}
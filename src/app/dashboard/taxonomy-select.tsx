@@ -0,0 +1,103 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { slugify } from '@/lib/slugify'
+
+export type TaxonomyOption = {
+  id: string
+  key: string
+  name: string
+  metafieldKey: string
+  isDefault: boolean
+  categoryCount: number
+}
+
+/**
+ * Picks the category tree a page works on. `value` is a taxonomy key; the
+ * default taxonomy is selected once the list loads if nothing else is.
+ * With `allowCreate`, a "+ New" button adds an empty taxonomy.
+ */
+export function TaxonomySelect({
+  value,
+  onChange,
+  allowCreate = false,
+}: {
+  value: string
+  onChange: (key: string) => void
+  allowCreate?: boolean
+}) {
+  const [taxonomies, setTaxonomies] = useState<TaxonomyOption[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch('/api/taxonomies', { cache: 'no-store' })
+      if (!res.ok) throw new Error(`HTTP ${res.status}`)
+      const data: { taxonomies: TaxonomyOption[] } = await res.json()
+      setTaxonomies(data.taxonomies)
+      return data.taxonomies
+    } catch (e) {
+      console.error(e)
+      setError('Failed to load taxonomies')
+      return []
+    }
+  }, [])
+
+  useEffect(() => {
+    load().then((list) => {
+      if (!value) {
+        const def = list.find((t) => t.isDefault)
+        if (def) onChange(def.key)
+      }
+    })
+    // Only on mount; later selections come from the user
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [load])
+
+  const create = async () => {
+    const name = prompt('Name of the new taxonomy (e.g. "By Build Stage")')?.trim()
+    if (!name) return
+    const key = prompt('Key used in URLs and ?taxonomy= (lowercase, dashes)', slugify(name))?.trim()
+    if (!key) return
+    setError(null)
+    try {
+      const res = await fetch('/api/taxonomies', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, key }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`)
+      await load()
+      onChange(data.key)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Create failed')
+    }
+  }
+
+  const current = taxonomies.find((t) => t.key === value)
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-gray-900">
+      <label className="font-medium">Taxonomy</label>
+      <select className="border rounded p-2" value={value} onChange={(e) => onChange(e.target.value)}>
+        {taxonomies.map((t) => (
+          <option key={t.id} value={t.key}>
+            {t.name} ({t.categoryCount})
+          </option>
+        ))}
+      </select>
+      {current && (
+        <span className="text-slate-600">
+          metafield <code className="bg-slate-100 px-1 rounded">taxonomy.{current.metafieldKey}</code>
+        </span>
+      )}
+      {allowCreate && (
+        <button type="button" className="px-2 py-1 rounded border" onClick={create}>
+          + New taxonomy
+        </button>
+      )}
+      {error && <span className="text-red-700">{error}</span>}
+    </div>
+  )
+}
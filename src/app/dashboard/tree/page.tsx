@@ -1,6 +1,6 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 
 type CategoryNode = {
   id: string
@@ -9,11 +9,17 @@ type CategoryNode = {
   image?: string | null
   description?: string | null
   parentId: string | null
+  childCount: number
   children?: CategoryNode[]
 }
 
+// Top level first; a node's children are fetched when it is expanded.
+// Filtering needs every category, so typing a filter loads the full tree once.
 export default function TreeViewerPage() {
   const [tree, setTree] = useState<CategoryNode[]>([])
+  const [kids, setKids] = useState<Record<string, CategoryNode[]>>({})
+  const [full, setFull] = useState<CategoryNode[] | null>(null)
+  const pending = useRef(new Set<string>())
   const [loading, setLoading] = useState(true)
   const [open, setOpen] = useState<Record<string, boolean>>(() => {
     if (typeof window === 'undefined') return {}
@@ -28,7 +34,7 @@ export default function TreeViewerPage() {
   useEffect(() => {
     (async () => {
       try {
-        const res = await fetch('/api/categories', { cache: 'no-store' })
+        const res = await fetch('/api/categories?depth=0', { cache: 'no-store' })
         const data = (await res.json()) as CategoryNode[]
         setTree(data)
       } finally {
@@ -37,29 +43,61 @@ export default function TreeViewerPage() {
     })()
   }, [])
 
+  const loadChildren = useCallback(async (id: string) => {
+    if (pending.current.has(id)) return
+    pending.current.add(id)
+    try {
+      const res = await fetch(`/api/categories?root=${encodeURIComponent(id)}&depth=1`, { cache: 'no-store' })
+      const [node] = (await res.json()) as CategoryNode[]
+      setKids(p => ({ ...p, [id]: node?.children ?? [] }))
+    } finally {
+      pending.current.delete(id)
+    }
+  }, [])
+
+  // Expanded nodes (including ones remembered from this session) need their children
+  useEffect(() => {
+    const known = [...tree, ...Object.values(kids).flat()]
+    for (const n of known) {
+      if (open[n.id] && n.childCount && !kids[n.id]) loadChildren(n.id)
+    }
+  }, [tree, kids, open, loadChildren])
+
+  useEffect(() => {
+    if (!filter.trim() || full) return
+    fetch('/api/categories', { cache: 'no-store' })
+      .then(r => r.json())
+      .then(setFull)
+  }, [filter, full])
+
   const toggle = (id: string) => setOpen(p => ({ ...p, [id]: !p[id] }))
 
   const matches = (n: CategoryNode, q: string) =>
     n.title.toLowerCase().includes(q) || n.slug.toLowerCase().includes(q)
 
+  const q = filter.trim().toLowerCase()
   const filtered = (() => {
-    const q = filter.trim().toLowerCase()
     if (!q) return tree
+    if (!full) return []
     const walk = (nodes: CategoryNode[]): CategoryNode[] =>
       nodes.map(n => {
         const kids = n.children ? walk(n.children) : []
         return (matches(n, q) || kids.length) ? { ...n, children: kids } : null
       }).filter(Boolean) as CategoryNode[]
-    return walk(tree)
+    return walk(full)
   })()
 
+  // While filtering, nodes carry their whole subtree; otherwise children come from `kids`
+  const childrenOf = (n: CategoryNode) => (q ? n.children ?? [] : kids[n.id])
+
   const Tree = ({ nodes }: { nodes: CategoryNode[] }) => {
     if (!nodes?.length) return null
     return (
       <ul className="space-y-1">
         {nodes.map(n => {
-          const hasKids = !!n.children?.length
-          const isOpen = open[n.id] ?? true
+          const hasKids = q ? !!n.children?.length : n.childCount > 0
+          const isOpen = q ? (open[n.id] ?? true) : !!open[n.id]
+          const children = childrenOf(n)
           return (
             <li key={n.id}>
               <div className="group flex items-start gap-2 rounded-md px-2 py-1 hover:bg-slate-50">
@@ -90,7 +128,7 @@ export default function TreeViewerPage() {
 
               {hasKids && isOpen ? (
                 <div className="ml-6 border-l border-slate-200 pl-4">
-                  <Tree nodes={n.children!} />
+                  {children ? <Tree nodes={children} /> : <p className="text-sm text-slate-500">Loading…</p>}
                 </div>
               ) : null}
             </li>
@@ -119,7 +157,7 @@ export default function TreeViewerPage() {
         </header>
 
         <section className="rounded-xl border border-slate-200 bg-white p-5 shadow-sm">
-          {loading ? <p className="text-slate-700">Loading…</p> :
+          {loading || (q && !full) ? <p className="text-slate-700">Loading…</p> :
             filtered.length ? <Tree nodes={filtered} /> :
             <p className="text-slate-700">No categories.</p>}
         </section>
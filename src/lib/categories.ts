@@ -1,29 +1,344 @@
 import prisma from '@/lib/prisma';
+import type { Prisma } from '@prisma/client';
+import { filterProductsByFitment, type YmmParams } from '@/lib/fitments';
 
-export async function getSlugsForProduct(productGid: string): Promise<string[]> {
-  const links = await prisma.productCategory.findMany({
-    where: { productGid },
-    select: { categoryId: true },
+/**
+ * Categories that may appear in /api/public/* responses: not archived and
+ * inside their publish window. Evaluated per request, so visibility flips on
+ * time even if the page scheduler runs late.
+ */
+export function publicCategoryWhere(now = new Date()): Prisma.CategoryWhereInput {
+  return {
+    archivedAt: null,
+    AND: [
+      { OR: [{ publishAt: null }, { publishAt: { lte: now } }] },
+      { OR: [{ unpublishAt: null }, { unpublishAt: { gt: now } }] },
+    ],
+  };
+}
+
+/** In-memory counterpart of publicCategoryWhere(). */
+export function isCategoryPublic(
+  c: { archivedAt: Date | null; publishAt: Date | null; unpublishAt: Date | null },
+  now = new Date()
+): boolean {
+  if (c.archivedAt) return false;
+  if (c.publishAt && c.publishAt > now) return false;
+  if (c.unpublishAt && c.unpublishAt <= now) return false;
+  return true;
+}
+
+/** Slug lists keyed by taxonomy metafield key, e.g. `{ category_slugs: [...], build_stage_slugs: [] }`. */
+export type TaxonomySlugs = Record<string, string[]>;
+
+/**
+ * Slugs of every category a product is linked to, plus all their ancestors,
+ * per taxonomy: leaf first, then up towards the root, de-duplicated. Every
+ * taxonomy is present (empty when unlinked). One closure-table query.
+ */
+export async function getSlugsForProduct(productGid: string): Promise<TaxonomySlugs> {
+  const map = await getSlugsForProducts([productGid]);
+  return map.get(productGid)!;
+}
+
+/** Bulk form of getSlugsForProduct. */
+export async function getSlugsForProducts(productGids: string[]): Promise<Map<string, TaxonomySlugs>> {
+  const taxonomies = await prisma.taxonomy.findMany({ select: { metafieldKey: true } });
+  const out = new Map<string, TaxonomySlugs>(
+    productGids.map((g) => [g, Object.fromEntries(taxonomies.map((t) => [t.metafieldKey, [] as string[]]))])
+  );
+  if (!productGids.length) return out;
+
+  const rows = await prisma.$queryRaw<Array<{ productGid: string; metafieldKey: string; slug: string }>>`
+    SELECT pc."productGid", t."metafieldKey", a."slug"
+    FROM "ProductCategory" pc
+    JOIN "CategoryClosure" cc ON cc."descendantId" = pc."categoryId"
+    JOIN "Category" a ON a."id" = cc."ancestorId"
+    JOIN "Taxonomy" t ON t."id" = a."taxonomyId"
+    WHERE pc."productGid" = ANY(${productGids}::text[])
+    ORDER BY pc."productGid", pc."id", cc."depth"
+  `;
+
+  for (const r of rows) {
+    const slugs = (out.get(r.productGid)![r.metafieldKey] ??= []);
+    if (r.slug && !slugs.includes(r.slug)) slugs.push(r.slug);
+  }
+  return out;
+}
+
+/** Root-first ancestor chain of a category, ending with the category itself. */
+export async function getCategoryPath(categoryId: string) {
+  const rows = await prisma.categoryClosure.findMany({
+    where: { descendantId: categoryId },
+    orderBy: { depth: 'desc' },
+    select: { ancestor: { select: { id: true, title: true, slug: true } } },
   });
+  return rows.map((r) => r.ancestor);
+}
+
+export type CategoryCrumb = { title: string; slug: string };
+
+/**
+ * Root-first breadcrumb of each product's primary category. Products without
+ * a primary link get an empty list.
+ */
+export async function getPrimaryPathsForProducts(productGids: string[]): Promise<Map<string, CategoryCrumb[]>> {
+  const out = new Map<string, CategoryCrumb[]>(productGids.map((g) => [g, []]));
+  if (!productGids.length) return out;
 
-  const slugs = new Set<string>();
-
-  for (const { categoryId } of links) {
-    let current = await prisma.category.findUnique({
-      where: { id: categoryId },
-      select: { id: true, slug: true, parentId: true },
-    });
-
-    while (current) {
-      if (current.slug) slugs.add(current.slug);
-      current = current.parentId
-        ? await prisma.category.findUnique({
-            where: { id: current.parentId },
-            select: { id: true, slug: true, parentId: true },
-          })
-        : null;
+  const rows = await prisma.$queryRaw<Array<{ productGid: string; title: string; slug: string }>>`
+    SELECT pc."productGid", a."title", a."slug"
+    FROM "ProductCategory" pc
+    JOIN "CategoryClosure" cc ON cc."descendantId" = pc."categoryId"
+    JOIN "Category" a ON a."id" = cc."ancestorId"
+    WHERE pc."productGid" = ANY(${productGids}::text[]) AND pc."isPrimary"
+    ORDER BY pc."productGid", cc."depth" DESC
+  `;
+  for (const r of rows) out.get(r.productGid)!.push({ title: r.title, slug: r.slug });
+  return out;
+}
+
+/** Returns `categoryId` plus the ids of every category below it. */
+export async function getDescendantIds(categoryId: string): Promise<string[]> {
+  const rows = await prisma.categoryClosure.findMany({
+    where: { ancestorId: categoryId },
+    orderBy: { depth: 'asc' },
+    select: { descendantId: true },
+  });
+  return rows.length ? rows.map((r) => r.descendantId) : [categoryId];
+}
+
+/**
+ * Checks whether `categoryId` may be placed under `parentId`.
+ * Returns an error message, or null when the move is allowed.
+ */
+export async function validateParentChange(
+  categoryId: string,
+  parentId: string | null
+): Promise<string | null> {
+  if (parentId === null) return null;
+  if (parentId === categoryId) return 'A category cannot be its own parent';
+
+  const [self, parent, underSelf] = await Promise.all([
+    prisma.category.findUnique({ where: { id: categoryId }, select: { taxonomyId: true } }),
+    prisma.category.findUnique({ where: { id: parentId }, select: { archivedAt: true, taxonomyId: true } }),
+    prisma.categoryClosure.findUnique({
+      where: { ancestorId_descendantId: { ancestorId: categoryId, descendantId: parentId } },
+      select: { depth: true },
+    }),
+  ]);
+  if (!parent) return 'Parent not found';
+  if (underSelf) return 'Cannot move a category under one of its own descendants';
+  if (parent.archivedAt) return 'Cannot move a category under an archived category';
+  if (self && self.taxonomyId !== parent.taxonomyId) return 'Cannot move a category into another taxonomy';
+  return null;
+}
+
+/**
+ * Depth-first flatten (parent before children). Siblings keep the order of
+ * `rows`, so pass rows sorted by sortOrder/title.
+ */
+export function flattenCategoryRows<T extends { id: string; parentId: string | null }>(
+  rows: T[]
+): T[] {
+  const byParent = new Map<string | null, T[]>();
+  for (const r of rows) {
+    const k = r.parentId ?? null;
+    if (!byParent.has(k)) byParent.set(k, []);
+    byParent.get(k)!.push(r);
+  }
+  const out: T[] = [];
+  const walk = (parentId: string | null) => {
+    for (const n of byParent.get(parentId) || []) {
+      out.push(n);
+      walk(n.id);
     }
+  };
+  walk(null);
+  return out;
+}
+
+export type CategoryTreeNode<T> = T & { children: CategoryTreeNode<T>[] };
+
+/**
+ * Nest rows under their parents in one pass. Returns the rows whose parent is
+ * `rootParentId` (null = top level); rows whose parent is not in `rows` are
+ * dropped along with their subtree. Siblings keep the order of `rows`.
+ */
+export function buildCategoryTree<T extends { id: string; parentId: string | null }>(
+  rows: T[],
+  rootParentId: string | null = null
+): CategoryTreeNode<T>[] {
+  const nodes = new Map<string, CategoryTreeNode<T>>(rows.map((r) => [r.id, { ...r, children: [] }]));
+  const roots: CategoryTreeNode<T>[] = [];
+  for (const r of rows) {
+    const node = nodes.get(r.id)!;
+    if (r.parentId === rootParentId) roots.push(node);
+    else if (r.parentId) nodes.get(r.parentId)?.children.push(node);
+  }
+  return roots;
+}
+
+/** `?root=<slug|id>&depth=<n>` for the tree endpoints. */
+export type CategoryTreeQuery = { root: string | null; depth: number | null };
+
+/** Returns the parsed query, or an error message. */
+export function parseCategoryTreeQuery(params: URLSearchParams): CategoryTreeQuery | string {
+  const root = params.get('root')?.trim() || null;
+  const rawDepth = params.get('depth');
+  if (rawDepth === null || rawDepth === '') return { root, depth: null };
+  const depth = Number(rawDepth);
+  if (!Number.isInteger(depth) || depth < 0) return 'depth must be a non-negative integer';
+  return { root, depth };
+}
+
+/**
+ * Narrow `where` to what a tree query asks for, via the closure table: the
+ * subtree under `root` (id or slug, looked up within `where`) and/or the
+ * first `depth` levels below it (0 = the root only, or the top level only).
+ * Pass the result's `rootParentId` to buildCategoryTree. Null when `root`
+ * does not match a category.
+ */
+export async function scopeCategoryTree(
+  where: Prisma.CategoryWhereInput,
+  query: CategoryTreeQuery
+): Promise<{ where: Prisma.CategoryWhereInput; rootParentId: string | null } | null> {
+  if (!query.root) {
+    if (query.depth === null) return { where, rootParentId: null };
+    // A category's deepest closure row is its distance from the top level
+    return { where: { ...where, ancestors: { none: { depth: { gt: query.depth } } } }, rootParentId: null };
+  }
+
+  const root = await prisma.category.findFirst({
+    where: { ...where, OR: [{ id: query.root }, { slug: query.root }] },
+    select: { id: true, parentId: true },
+  });
+  if (!root) return null;
+  const depth = query.depth === null ? {} : { depth: { lte: query.depth } };
+  return {
+    where: { ...where, ancestors: { some: { ancestorId: root.id, ...depth } } },
+    rootParentId: root.parentId,
+  };
+}
+
+/**
+ * Next free sortOrder under a parent, so new children land at the end. Every
+ * taxonomy has its own roots, hence `taxonomyId` for parentId = null.
+ */
+export async function nextSortOrder(parentId: string | null, taxonomyId: string): Promise<number> {
+  const agg = await prisma.category.aggregate({
+    where: { parentId, taxonomyId },
+    _max: { sortOrder: true },
+  });
+  return (agg._max.sortOrder ?? -1) + 1;
+}
+
+/** Distinct products linked to any of the given categories. */
+export async function getProductGidsForCategories(categoryIds: string[]): Promise<string[]> {
+  if (!categoryIds.length) return [];
+  const rows = await prisma.productCategory.findMany({
+    where: { categoryId: { in: categoryIds } },
+    distinct: ['productGid'],
+    select: { productGid: true },
+  });
+  return rows.map((r) => r.productGid);
+}
+
+/**
+ * Public subtree of each category (itself included), for "include descendants"
+ * storefront queries. Categories below a hidden one inside the subtree are left
+ * out, as in the public tree; visibility above the category is the caller's call.
+ */
+export async function getPublicSubtreeIds(
+  categoryIds: string[],
+  now = new Date()
+): Promise<Map<string, string[]>> {
+  const out = new Map<string, string[]>(categoryIds.map((id) => [id, [id]]));
+  if (!categoryIds.length) return out;
+  const [rows, hidden] = await Promise.all([
+    prisma.categoryClosure.findMany({
+      where: { ancestorId: { in: categoryIds }, depth: { gt: 0 } },
+      orderBy: { depth: 'asc' },
+      select: { ancestorId: true, descendantId: true },
+    }),
+    prisma.categoryClosure.findMany({
+      where: { ancestorId: { in: categoryIds }, depth: { gt: 0 }, descendant: { NOT: publicCategoryWhere(now) } },
+      select: { ancestorId: true, descendantId: true },
+    }),
+  ]);
+
+  // A hidden category takes its whole subtree with it
+  const underHidden = hidden.length
+    ? await prisma.categoryClosure.findMany({
+        where: { ancestorId: { in: Array.from(new Set(hidden.map((h) => h.descendantId))) } },
+        select: { ancestorId: true, descendantId: true },
+      })
+    : [];
+  const excluded = new Map<string, Set<string>>();
+  for (const h of hidden) {
+    const set = excluded.get(h.ancestorId) ?? new Set<string>();
+    set.add(h.descendantId);
+    for (const u of underHidden) if (u.ancestorId === h.descendantId) set.add(u.descendantId);
+    excluded.set(h.ancestorId, set);
+  }
+
+  for (const r of rows) {
+    if (!excluded.get(r.ancestorId)?.has(r.descendantId)) out.get(r.ancestorId)!.push(r.descendantId);
+  }
+  return out;
+}
+
+export type CategoryProductCount = { direct: number; rolledUp: number };
+
+/**
+ * Distinct products linked to each category (`direct`) and to anything in its
+ * public subtree (`rolledUp`; a product linked at several levels counts once).
+ * With YMM params only fitting products are counted.
+ */
+export async function countCategoryProducts(
+  categoryIds: string[],
+  ymm: YmmParams = {}
+): Promise<Map<string, CategoryProductCount>> {
+  const subtrees = await getPublicSubtreeIds(categoryIds);
+  const allIds = Array.from(new Set([...categoryIds, ...[...subtrees.values()].flat()]));
+  const links = await prisma.productCategory.findMany({
+    where: { categoryId: { in: allIds } },
+    select: { categoryId: true, productGid: true },
+  });
+
+  const fitting = new Set(
+    await filterProductsByFitment(Array.from(new Set(links.map((l) => l.productGid))), ymm)
+  );
+  const byCategory = new Map<string, string[]>();
+  for (const l of links) {
+    if (!fitting.has(l.productGid)) continue;
+    const list = byCategory.get(l.categoryId);
+    if (list) list.push(l.productGid);
+    else byCategory.set(l.categoryId, [l.productGid]);
+  }
+
+  const out = new Map<string, CategoryProductCount>();
+  for (const id of categoryIds) {
+    const rolledUp = new Set<string>(byCategory.get(id));
+    for (const d of subtrees.get(id)!) for (const g of byCategory.get(d) ?? []) rolledUp.add(g);
+    out.set(id, { direct: byCategory.get(id)?.length ?? 0, rolledUp: rolledUp.size });
   }
+  return out;
+}
 
-  return Array.from(slugs);
-}
\ No newline at end of file
+/**
+ * Persist sibling order: each id gets its index as `sortOrder`.
+ * Single statement, and it leaves `updatedAt` alone (reordering is not an edit).
+ */
+export async function writeSiblingOrder(
+  db: Pick<typeof prisma, '$executeRaw'>,
+  orderedIds: string[]
+): Promise<void> {
+  if (!orderedIds.length) return;
+  await db.$executeRaw`
+    UPDATE "Category" AS c
+    SET "sortOrder" = o.pos - 1
+    FROM unnest(${orderedIds}::text[]) WITH ORDINALITY AS o(id, pos)
+    WHERE c."id" = o.id
+  `;
+}
@@ -0,0 +1,308 @@
+// src/lib/category-attributes.ts
+// Typed, category-scoped product attributes (inherited down the tree) and their facets.
+import prisma from '@/lib/prisma';
+import type { CategoryAttribute, CategoryAttributeType, Prisma } from '@prisma/client';
+import { rebuildProductAttributeMetafield } from '@/lib/product-metafields';
+
+export const ATTRIBUTE_TYPES: CategoryAttributeType[] = ['ENUM', 'NUMBER', 'BOOLEAN'];
+const KEY_RE = /^[a-z][a-z0-9_]{0,49}$/;
+
+export type AttributeInput = {
+  key?: string;
+  label?: string;
+  type?: CategoryAttributeType;
+  unit?: string | null;
+  options?: string[];
+  sortOrder?: number;
+};
+
+export type AttributeValue = string | number | boolean;
+
+type StoredColumns = { valueText: string | null; valueNumber: number | null; valueBoolean: boolean | null };
+
+/** Returns an error message, or null when the input is acceptable. */
+export function validateAttributeInput(input: AttributeInput, opts: { partial?: boolean } = {}): string | null {
+  if (!opts.partial || input.key !== undefined) {
+    if (!input.key || !KEY_RE.test(input.key)) {
+      return 'Key must be lowercase letters, digits and underscores, starting with a letter';
+    }
+  }
+  if (!opts.partial || input.label !== undefined) {
+    if (!input.label?.trim()) return 'Label is required';
+  }
+  if (!opts.partial || input.type !== undefined) {
+    if (!input.type || !ATTRIBUTE_TYPES.includes(input.type)) return 'Type must be ENUM, NUMBER or BOOLEAN';
+  }
+  if (input.type === 'ENUM' && (!input.options || !input.options.some((o) => o.trim()))) {
+    return 'An enum attribute needs at least one option';
+  }
+  return null;
+}
+
+export function cleanOptions(options: string[] | undefined): string[] {
+  return Array.from(new Set((options ?? []).map((o) => o.trim()).filter(Boolean)));
+}
+
+/**
+ * Another attribute with `key` on the category's ancestors or descendants.
+ * Keys must be unique along a path so inherited attributes never shadow each other.
+ */
+export async function findAttributeKeyClash(categoryId: string, key: string, excludeId?: string) {
+  const related = await prisma.categoryClosure.findMany({
+    where: { OR: [{ ancestorId: categoryId }, { descendantId: categoryId }] },
+    select: { ancestorId: true, descendantId: true },
+  });
+  const ids = new Set<string>([categoryId]);
+  for (const r of related) {
+    ids.add(r.ancestorId);
+    ids.add(r.descendantId);
+  }
+  return prisma.categoryAttribute.findFirst({
+    where: { key, categoryId: { in: [...ids] }, ...(excludeId ? { NOT: { id: excludeId } } : {}) },
+    select: { id: true, category: { select: { title: true } } },
+  });
+}
+
+/** Attributes of a category and of all its ancestors, root-first then by sortOrder. */
+export async function getEffectiveAttributes(categoryId: string) {
+  const chain = await prisma.categoryClosure.findMany({
+    where: { descendantId: categoryId },
+    select: { ancestorId: true, depth: true },
+  });
+  const depthOf = new Map(chain.map((c) => [c.ancestorId, c.depth]));
+
+  const attrs = await prisma.categoryAttribute.findMany({
+    where: { categoryId: { in: [...depthOf.keys()] } },
+    include: { category: { select: { id: true, title: true, slug: true } } },
+  });
+
+  return attrs
+    .map((a) => ({ ...a, inherited: a.categoryId !== categoryId }))
+    .sort(
+      (a, b) =>
+        (depthOf.get(b.categoryId) ?? 0) - (depthOf.get(a.categoryId) ?? 0) ||
+        a.sortOrder - b.sortOrder ||
+        a.label.localeCompare(b.label)
+    );
+}
+
+/** Attributes that apply to a product: the effective attributes of every category it is in. */
+export async function getProductAttributes(productGid: string) {
+  const rows = await prisma.categoryAttribute.findMany({
+    where: {
+      category: { descendants: { some: { descendant: { products: { some: { productGid } } } } } },
+    },
+    orderBy: [{ sortOrder: 'asc' }, { label: 'asc' }],
+  });
+  return rows;
+}
+
+/** Parse a raw value for an attribute into the column it is stored in. */
+export function coerceAttributeValue(
+  attr: Pick<CategoryAttribute, 'type' | 'options' | 'label'>,
+  raw: unknown
+): StoredColumns | string {
+  switch (attr.type) {
+    case 'ENUM': {
+      const v = String(raw ?? '').trim();
+      const match = attr.options.find((o) => o.toLowerCase() === v.toLowerCase());
+      if (!match) return `${attr.label}: “${v}” is not one of ${attr.options.join(', ')}`;
+      return { valueText: match, valueNumber: null, valueBoolean: null };
+    }
+    case 'NUMBER': {
+      const n = typeof raw === 'number' ? raw : Number(String(raw ?? '').trim());
+      if (!Number.isFinite(n)) return `${attr.label}: expected a number`;
+      return { valueText: null, valueNumber: n, valueBoolean: null };
+    }
+    case 'BOOLEAN': {
+      const s = String(raw).toLowerCase();
+      if (raw === true || s === 'true' || s === '1' || s === 'yes') {
+        return { valueText: null, valueNumber: null, valueBoolean: true };
+      }
+      if (raw === false || s === 'false' || s === '0' || s === 'no') {
+        return { valueText: null, valueNumber: null, valueBoolean: false };
+      }
+      return `${attr.label}: expected true or false`;
+    }
+  }
+}
+
+export function storedValue(v: StoredColumns): AttributeValue | null {
+  return v.valueText ?? v.valueNumber ?? v.valueBoolean ?? null;
+}
+
+/**
+ * Set (or clear, with null/'') a product's attribute values by key. Only
+ * attributes that apply to the product's categories are accepted.
+ */
+export async function setProductAttributeValues(productGid: string, values: Record<string, unknown>) {
+  const applicable = await getProductAttributes(productGid);
+  const byKey = new Map(applicable.map((a) => [a.key, a]));
+
+  const upserts: Array<{ attributeId: string; data: StoredColumns }> = [];
+  const clears: string[] = [];
+  for (const [key, raw] of Object.entries(values)) {
+    const attr = byKey.get(key);
+    if (!attr) return { error: `Attribute “${key}” does not apply to this product's categories`, status: 400 as const };
+    if (raw === null || raw === undefined || raw === '') {
+      clears.push(attr.id);
+      continue;
+    }
+    const data = coerceAttributeValue(attr, raw);
+    if (typeof data === 'string') return { error: data, status: 400 as const };
+    upserts.push({ attributeId: attr.id, data });
+  }
+
+  await prisma.$transaction([
+    prisma.productAttributeValue.deleteMany({ where: { productGid, attributeId: { in: clears } } }),
+    ...upserts.map(({ attributeId, data }) =>
+      prisma.productAttributeValue.upsert({
+        where: { productGid_attributeId: { productGid, attributeId } },
+        create: { productGid, attributeId, ...data },
+        update: data,
+      })
+    ),
+  ]);
+
+  let metafieldError: string | null = null;
+  try {
+    await rebuildProductAttributeMetafield(productGid);
+  } catch (e) {
+    metafieldError = e instanceof Error ? e.message : String(e);
+    console.error('[category-attributes] metafield write failed', productGid, e);
+  }
+
+  return { ok: true as const, values: await getProductAttributeValues(productGid), metafieldError };
+}
+
+/** Current values keyed by attribute key, with unit for numbers. */
+export async function getProductAttributeValues(productGid: string) {
+  const rows = await prisma.productAttributeValue.findMany({
+    where: { productGid },
+    include: { attribute: { select: { key: true, label: true, type: true, unit: true } } },
+  });
+  const out: Record<string, { label: string; type: CategoryAttributeType; value: AttributeValue | null; unit: string | null }> = {};
+  for (const r of rows) {
+    out[r.attribute.key] = {
+      label: r.attribute.label,
+      type: r.attribute.type,
+      value: storedValue(r),
+      unit: r.attribute.unit,
+    };
+  }
+  return out;
+}
+
+/* =========================
+   Filtering + facets
+========================= */
+
+/** `?attr.material=Stainless,Titanium&attr.polished=true` → { material: [...], polished: [...] } */
+export function parseAttributeFilters(searchParams: URLSearchParams): Record<string, string[]> {
+  const out: Record<string, string[]> = {};
+  for (const [name, value] of searchParams.entries()) {
+    if (!name.startsWith('attr.')) continue;
+    const key = name.slice(5);
+    const vals = value.split(',').map((v) => v.trim()).filter(Boolean);
+    if (key && vals.length) out[key] = [...(out[key] ?? []), ...vals];
+  }
+  return out;
+}
+
+function valueWhere(
+  attr: Pick<CategoryAttribute, 'type' | 'options' | 'label'>,
+  raws: string[]
+): Prisma.ProductAttributeValueWhereInput | null {
+  const ors: Prisma.ProductAttributeValueWhereInput[] = [];
+  for (const raw of raws) {
+    const v = coerceAttributeValue(attr, raw);
+    if (typeof v === 'string') continue; // unknown values simply match nothing
+    if (v.valueText !== null) ors.push({ valueText: v.valueText });
+    if (v.valueNumber !== null) ors.push({ valueNumber: v.valueNumber });
+    if (v.valueBoolean !== null) ors.push({ valueBoolean: v.valueBoolean });
+  }
+  return ors.length ? { OR: ors } : null;
+}
+
+/**
+ * Keep products matching every filter (values within one attribute are OR'ed).
+ * Filters on keys that are not in `attrs` are ignored.
+ */
+export async function filterProductsByAttributes(
+  productGids: string[],
+  attrs: CategoryAttribute[],
+  filters: Record<string, string[]>
+): Promise<string[]> {
+  let remaining = productGids;
+  for (const attr of attrs) {
+    const raws = filters[attr.key];
+    if (!raws?.length || !remaining.length) continue;
+    const where = valueWhere(attr, raws);
+    if (!where) return [];
+    const rows = await prisma.productAttributeValue.findMany({
+      where: { attributeId: attr.id, productGid: { in: remaining }, ...where },
+      select: { productGid: true },
+    });
+    const allowed = new Set(rows.map((r) => r.productGid));
+    remaining = remaining.filter((g) => allowed.has(g));
+  }
+  return remaining;
+}
+
+export type Facet = {
+  key: string;
+  label: string;
+  type: CategoryAttributeType;
+  unit: string | null;
+  values: Array<{ value: AttributeValue; count: number; selected: boolean }>;
+  min?: number;
+  max?: number;
+};
+
+/**
+ * Value counts per attribute over `productGids` (already narrowed by YMM).
+ * Each facet is counted with every *other* attribute filter applied, so
+ * shoppers can still widen a selection within the same facet.
+ */
+export async function getAttributeFacets(
+  attrs: CategoryAttribute[],
+  productGids: string[],
+  filters: Record<string, string[]>
+): Promise<Facet[]> {
+  const facets: Facet[] = [];
+  for (const attr of attrs) {
+    const others = Object.fromEntries(Object.entries(filters).filter(([k]) => k !== attr.key));
+    const scope = await filterProductsByAttributes(productGids, attrs, others);
+
+    const groups = scope.length
+      ? await prisma.productAttributeValue.groupBy({
+          by: ['valueText', 'valueNumber', 'valueBoolean'],
+          where: { attributeId: attr.id, productGid: { in: scope } },
+          _count: { _all: true },
+        })
+      : [];
+
+    const selected = new Set((filters[attr.key] ?? []).map((v) => v.toLowerCase()));
+    let values = groups
+      .map((g) => ({ value: storedValue(g), count: g._count._all }))
+      .filter((v): v is { value: AttributeValue; count: number } => v.value !== null)
+      .map((v) => ({ ...v, selected: selected.has(String(v.value).toLowerCase()) }));
+
+    if (attr.type === 'ENUM') {
+      const order = new Map(attr.options.map((o, i) => [o, i]));
+      values = values.sort((a, b) => (order.get(String(a.value)) ?? 0) - (order.get(String(b.value)) ?? 0));
+    } else if (attr.type === 'NUMBER') {
+      values = values.sort((a, b) => Number(a.value) - Number(b.value));
+    } else {
+      values = values.sort((a, b) => Number(b.value) - Number(a.value)); // true first
+    }
+
+    const facet: Facet = { key: attr.key, label: attr.label, type: attr.type, unit: attr.unit, values };
+    if (attr.type === 'NUMBER' && values.length) {
+      facet.min = Number(values[0].value);
+      facet.max = Number(values[values.length - 1].value);
+    }
+    facets.push(facet);
+  }
+  return facets;
+}
@@ -0,0 +1,74 @@
+// src/lib/category-closure.ts
+// Maintenance of the CategoryClosure table (ancestor/descendant pairs).
+// Every write that sets Category.parentId must call one of these in the same
+// transaction; deletes are covered by the ON DELETE CASCADE foreign keys.
+import prisma from '@/lib/prisma';
+
+type Db = Pick<typeof prisma, '$executeRaw'>;
+
+/** Rows for a newly created category: itself plus every ancestor of its parent. */
+export async function addCategoryToClosure(
+  db: Db,
+  categoryId: string,
+  parentId: string | null
+): Promise<void> {
+  await db.$executeRaw`
+    INSERT INTO "CategoryClosure" ("ancestorId", "descendantId", "depth")
+    SELECT ${categoryId}, ${categoryId}, 0
+    UNION ALL
+    SELECT "ancestorId", ${categoryId}, "depth" + 1
+    FROM "CategoryClosure"
+    WHERE "descendantId" = ${parentId}
+    ON CONFLICT DO NOTHING
+  `;
+}
+
+/**
+ * Re-hang the subtree rooted at `categoryId` under `parentId` (null = root):
+ * drop the links from outside ancestors into the subtree, then link every
+ * ancestor of the new parent to every node of the subtree.
+ */
+export async function moveCategoryInClosure(
+  db: Db,
+  categoryId: string,
+  parentId: string | null
+): Promise<void> {
+  await db.$executeRaw`
+    DELETE FROM "CategoryClosure"
+    WHERE "descendantId" IN (
+      SELECT "descendantId" FROM "CategoryClosure" WHERE "ancestorId" = ${categoryId}
+    )
+    AND "ancestorId" NOT IN (
+      SELECT "descendantId" FROM "CategoryClosure" WHERE "ancestorId" = ${categoryId}
+    )
+  `;
+  if (!parentId) return;
+  await db.$executeRaw`
+    INSERT INTO "CategoryClosure" ("ancestorId", "descendantId", "depth")
+    SELECT p."ancestorId", s."descendantId", p."depth" + s."depth" + 1
+    FROM "CategoryClosure" p
+    CROSS JOIN "CategoryClosure" s
+    WHERE p."descendantId" = ${parentId} AND s."ancestorId" = ${categoryId}
+    ON CONFLICT DO NOTHING
+  `;
+}
+
+/**
+ * Recompute the whole table from parentId. Used after bulk tree rewrites
+ * (imports) where many moves would otherwise be applied one by one.
+ */
+export async function rebuildCategoryClosure(db: Db): Promise<void> {
+  await db.$executeRaw`DELETE FROM "CategoryClosure"`;
+  await db.$executeRaw`
+    WITH RECURSIVE "walk"("ancestorId", "descendantId", "depth", "path") AS (
+        SELECT "id", "id", 0, ARRAY["id"] FROM "Category"
+      UNION ALL
+        SELECT w."ancestorId", c."id", w."depth" + 1, w."path" || c."id"
+        FROM "walk" w
+        JOIN "Category" c ON c."parentId" = w."descendantId"
+        WHERE NOT c."id" = ANY(w."path")
+    )
+    INSERT INTO "CategoryClosure" ("ancestorId", "descendantId", "depth")
+    SELECT "ancestorId", "descendantId", MIN("depth") FROM "walk" GROUP BY "ancestorId", "descendantId"
+  `;
+}
@@ -0,0 +1,255 @@
+// src/lib/category-delete.ts
+// Hard delete with an impact preview and explicit handling of dependents.
+import prisma from '@/lib/prisma';
+import {
+  getDescendantIds,
+  getProductGidsForCategories,
+  writeSiblingOrder,
+} from '@/lib/categories';
+import { deleteShopifyPageById } from '@/lib/category-pages';
+import { moveCategoryInClosure } from '@/lib/category-closure';
+import { queueProductRebuild } from '@/lib/product-category-jobs';
+import { recordCategoryRevisions, snapshotOf, snapshotSelect } from '@/lib/category-revisions';
+
+export type DeleteOptions = {
+  children?: 'reparent' | 'cascade'; // reparent = move to grandparent
+  products?: 'moveToParent' | 'unlink';
+};
+
+export type DeleteImpact = {
+  category: { id: string; title: string; slug: string };
+  parent: { id: string; title: string; slug: string } | null;
+  children: {
+    direct: number;
+    descendants: number;
+    sample: Array<{ id: string; title: string; slug: string }>;
+  };
+  productLinks: { direct: number; subtree: number; sample: string[] };
+  distributorMappings: {
+    direct: number;
+    subtree: number;
+    sample: Array<{ distributor: string; distributorPath: string; distributorName: string }>;
+  };
+  affectedProducts: number;
+};
+
+const SAMPLE = 10;
+
+export async function previewCategoryDelete(id: string): Promise<DeleteImpact | null> {
+  const cat = await prisma.category.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      title: true,
+      slug: true,
+      parent: { select: { id: true, title: true, slug: true } },
+    },
+  });
+  if (!cat) return null;
+
+  const subtreeIds = await getDescendantIds(id);
+
+  const [
+    directChildren,
+    childSample,
+    directLinks,
+    subtreeLinks,
+    linkSample,
+    directMappings,
+    subtreeMappings,
+    mappingSample,
+    affected,
+  ] = await Promise.all([
+    prisma.category.count({ where: { parentId: id } }),
+    prisma.category.findMany({
+      where: { parentId: id },
+      orderBy: [{ sortOrder: 'asc' }, { title: 'asc' }],
+      select: { id: true, title: true, slug: true },
+      take: SAMPLE,
+    }),
+    prisma.productCategory.count({ where: { categoryId: id } }),
+    prisma.productCategory.count({ where: { categoryId: { in: subtreeIds } } }),
+    prisma.productCategory.findMany({
+      where: { categoryId: id },
+      select: { productGid: true },
+      take: SAMPLE,
+    }),
+    prisma.distributorCategory.count({ where: { categoryId: id } }),
+    prisma.distributorCategory.count({ where: { categoryId: { in: subtreeIds } } }),
+    prisma.distributorCategory.findMany({
+      where: { categoryId: { in: subtreeIds } },
+      select: { distributorPath: true, distributorName: true, distributor: { select: { name: true } } },
+      take: SAMPLE,
+    }),
+    getProductGidsForCategories(subtreeIds),
+  ]);
+
+  return {
+    category: { id: cat.id, title: cat.title, slug: cat.slug },
+    parent: cat.parent,
+    children: {
+      direct: directChildren,
+      descendants: subtreeIds.length - 1,
+      sample: childSample,
+    },
+    productLinks: {
+      direct: directLinks,
+      subtree: subtreeLinks,
+      sample: linkSample.map((l) => l.productGid),
+    },
+    distributorMappings: {
+      direct: directMappings,
+      subtree: subtreeMappings,
+      sample: mappingSample.map((m) => ({
+        distributor: m.distributor.name,
+        distributorPath: m.distributorPath,
+        distributorName: m.distributorName,
+      })),
+    },
+    affectedProducts: affected.length,
+  };
+}
+
+/**
+ * Deletes a category. Without options it refuses (409) when anything depends
+ * on it; the options say what to do with children and linked products.
+ * With `children: 'cascade'` the whole subtree goes, and `products` applies to
+ * every deleted category's links.
+ */
+export async function deleteCategory(id: string, opts: DeleteOptions = {}) {
+  const impact = await previewCategoryDelete(id);
+  if (!impact) return { error: 'Not found', status: 404 as const };
+
+  if (impact.children.direct > 0 && !opts.children) {
+    return {
+      error: `Category has ${impact.children.direct} child categor(ies). Choose to re-parent them or cascade.`,
+      status: 409 as const,
+      impact,
+    };
+  }
+  const deletedIds = opts.children === 'cascade' ? await getDescendantIds(id) : [id];
+  const linkCount = opts.children === 'cascade' ? impact.productLinks.subtree : impact.productLinks.direct;
+  if (linkCount > 0 && !opts.products) {
+    return {
+      error: `Category still has ${linkCount} linked product(s). Archive it instead, or choose to move them to the parent or unlink them.`,
+      status: 409 as const,
+      impact,
+    };
+  }
+  const parentId = impact.parent?.id ?? null;
+  if (opts.products === 'moveToParent' && !parentId) {
+    return { error: 'A top-level category has no parent to move products to', status: 400 as const, impact };
+  }
+
+  // Every product under the deleted category changes: links move or ancestors change
+  const affectedProducts = await getProductGidsForCategories(await getDescendantIds(id));
+  const pages = await prisma.category.findMany({
+    where: { id: { in: deletedIds }, shopifyPageId: { not: null } },
+    select: { slug: true, shopifyPageId: true },
+  });
+
+  // Last known state of everything this delete touches, for the revision log
+  const [deletedRows, reparentedRows] = await Promise.all([
+    prisma.category.findMany({ where: { id: { in: deletedIds } }, select: { id: true, ...snapshotSelect } }),
+    opts.children === 'reparent'
+      ? prisma.category.findMany({ where: { parentId: id }, select: { id: true, ...snapshotSelect } })
+      : Promise.resolve([]),
+  ]);
+
+  await prisma.$transaction(async (tx) => {
+    // 1) Product links: onto the parent (deduplicated) or dropped
+    if (opts.products === 'moveToParent' && parentId) {
+      const onParent = await tx.productCategory.findMany({
+        where: { categoryId: parentId },
+        select: { productGid: true },
+      });
+      const alreadyOnParent = onParent.map((l) => l.productGid);
+      // A dropped duplicate may have been the product's primary; the parent link takes over
+      const primaryDropped = await tx.productCategory.findMany({
+        where: { categoryId: { in: deletedIds }, productGid: { in: alreadyOnParent }, isPrimary: true },
+        select: { productGid: true },
+      });
+      await tx.productCategory.deleteMany({
+        where: { categoryId: { in: deletedIds }, productGid: { in: alreadyOnParent } },
+      });
+      await tx.productCategory.updateMany({
+        where: { categoryId: parentId, productGid: { in: primaryDropped.map((l) => l.productGid) } },
+        data: { isPrimary: true },
+      });
+      // A product linked to several deleted categories may only land on the parent once,
+      // and the link that survives is the primary one if there is one
+      const remaining = await tx.productCategory.findMany({
+        where: { categoryId: { in: deletedIds } },
+        select: { id: true, productGid: true, isPrimary: true },
+      });
+      const keep = new Map<string, string>();
+      for (const l of remaining) if (l.isPrimary || !keep.has(l.productGid)) keep.set(l.productGid, l.id);
+      await tx.productCategory.deleteMany({
+        where: { categoryId: { in: deletedIds }, id: { notIn: [...keep.values()] } },
+      });
+      await tx.productCategory.updateMany({
+        where: { id: { in: [...keep.values()] } },
+        data: { categoryId: parentId },
+      });
+    } else {
+      await tx.productCategory.deleteMany({ where: { categoryId: { in: deletedIds } } });
+    }
+
+    // 2) Distributor mappings follow the products
+    await tx.distributorCategory.updateMany({
+      where: { categoryId: { in: deletedIds } },
+      data: { categoryId: opts.products === 'moveToParent' ? parentId : null },
+    });
+
+    // 3) Children move up to the grandparent, appended after its current children
+    if (opts.children === 'reparent' && impact.children.direct > 0) {
+      const { taxonomyId } = await tx.category.findUniqueOrThrow({ where: { id }, select: { taxonomyId: true } });
+      const [grandChildren, movedChildren] = await Promise.all([
+        tx.category.findMany({
+          where: { parentId, taxonomyId, NOT: { id } },
+          orderBy: [{ sortOrder: 'asc' }, { title: 'asc' }],
+          select: { id: true },
+        }),
+        tx.category.findMany({
+          where: { parentId: id },
+          orderBy: [{ sortOrder: 'asc' }, { title: 'asc' }],
+          select: { id: true },
+        }),
+      ]);
+      await tx.category.updateMany({ where: { parentId: id }, data: { parentId } });
+      for (const c of movedChildren) await moveCategoryInClosure(tx, c.id, parentId);
+      await writeSiblingOrder(tx, [...grandChildren, ...movedChildren].map((c) => c.id));
+    }
+
+    // 4) The categories themselves (parent FK is SET NULL, so order does not matter)
+    await tx.category.deleteMany({ where: { id: { in: deletedIds } } });
+  });
+
+  await recordCategoryRevisions([
+    ...deletedRows.map((r) => ({
+      categoryId: r.id,
+      action: 'DELETE' as const,
+      before: snapshotOf(r),
+      after: null,
+    })),
+    ...reparentedRows.map((r) => ({
+      categoryId: r.id,
+      action: 'UPDATE' as const,
+      before: snapshotOf(r),
+      after: { ...snapshotOf(r), parentId },
+    })),
+  ]);
+
+  let pagesDeleted = 0;
+  for (const p of pages) {
+    try {
+      await deleteShopifyPageById(p.shopifyPageId!);
+      pagesDeleted++;
+    } catch (e) {
+      console.error('[category-delete] Shopify page delete failed', p.slug, e);
+    }
+  }
+
+  const metafields = await queueProductRebuild(affectedProducts);
+  return { ok: true as const, deleted: deletedIds.length, pagesDeleted, metafields };
+}
@@ -0,0 +1,288 @@
+// src/lib/category-drift.ts
+// Drift between DB links and the taxonomy.* slug metafields in Shopify (edited by
+// hand in Shopify admin, or a rebuild that failed). A scan pages the whole catalog
+// and records every product/metafield whose slugs differ from getSlugsForProducts;
+// repair either rewrites the metafield from the DB or imports the Shopify value.
+import prisma from '@/lib/prisma';
+import { shopifyAdminGraphQL } from '@/lib/shopify';
+import { getSlugsForProducts } from '@/lib/categories';
+import { rebuildProductCategoryMetafield } from '@/lib/product-metafields';
+
+// One aliased metafield per taxonomy key (as in products-audit) rather than a
+// nested metafields connection, which multiplies the page's query cost
+function productsPageQuery(metafieldKeys: string[]) {
+  const fields = metafieldKeys
+    .map((key, i) => `mf${i}: metafield(namespace: "taxonomy", key: ${JSON.stringify(key)}) { value }`)
+    .join('\n          ');
+  return /* GraphQL */ `
+    query DriftProducts($first: Int!, $after: String) {
+      products(first: $first, after: $after) {
+        pageInfo { hasNextPage endCursor }
+        edges {
+          node {
+            id
+            ${fields}
+          }
+        }
+      }
+    }
+  `;
+}
+
+type ProductsPage = {
+  products: {
+    pageInfo: { hasNextPage: boolean; endCursor: string | null };
+    edges: Array<{ node: { id: string; [alias: `mf${number}`]: { value: string | null } | null } }>;
+  };
+};
+
+// Shopify rejects queries above 1000 cost points; each product costs 1 + one per
+// metafield. The bucket refills at 50 points/s (standard plan), so pages are paced
+// to let it recover.
+const MAX_QUERY_COST = 900;
+const RESTORE_PER_SECOND = 50;
+
+const STALE_SCAN_MS = 2 * 60 * 60 * 1000;
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+// list.single_line_text_field values are JSON arrays; anything else counts as one slug
+function parseSlugList(raw: string | null | undefined): string[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    if (Array.isArray(parsed)) return parsed.filter((x): x is string => typeof x === 'string');
+    return typeof parsed === 'string' ? [parsed] : [];
+  } catch {
+    return [raw];
+  }
+}
+
+// Order is not compared: the storefront treats the list as a set
+function sameSlugs(a: string[], b: string[]) {
+  const sa = new Set(a);
+  const sb = new Set(b);
+  return sa.size === sb.size && [...sa].every((s) => sb.has(s));
+}
+
+/** Start a scan. Returns an error message when one is already running. */
+export async function startDriftScan() {
+  // A scan whose server restarted mid-way never finishes; don't let it block new ones
+  await prisma.categoryDriftScan.updateMany({
+    where: { status: 'RUNNING', startedAt: { lt: new Date(Date.now() - STALE_SCAN_MS) } },
+    data: { status: 'FAILED', finishedAt: new Date(), error: 'Abandoned (did not finish)' },
+  });
+  const running = await prisma.categoryDriftScan.findFirst({ where: { status: 'RUNNING' }, select: { id: true } });
+  if (running) return `Scan ${running.id} is still running`;
+  return prisma.categoryDriftScan.create({ data: {}, select: { id: true, status: true, startedAt: true } });
+}
+
+/** Page the catalog and record mismatches on the scan. Meant to run after the response. */
+export async function runDriftScan(scanId: string) {
+  try {
+    const taxonomies = await prisma.taxonomy.findMany({ select: { id: true, metafieldKey: true } });
+    const query = productsPageQuery(taxonomies.map((t) => t.metafieldKey));
+    const first = Math.min(250, Math.floor(MAX_QUERY_COST / (taxonomies.length + 1)));
+    const pageCost = first * (taxonomies.length + 1);
+    let after: string | null = null;
+    do {
+      const page: ProductsPage = await shopifyAdminGraphQL<ProductsPage>(query, { first, after });
+      const nodes = page.products.edges.map((e) => e.node);
+      const expectedByProduct = await getSlugsForProducts(nodes.map((n) => n.id));
+
+      const items = nodes.flatMap((n) =>
+        taxonomies.flatMap((t, i) => {
+          const expected = expectedByProduct.get(n.id)![t.metafieldKey] ?? [];
+          const actual = parseSlugList(n[`mf${i}`]?.value);
+          return sameSlugs(expected, actual)
+            ? []
+            : [{ scanId, productGid: n.id, taxonomyId: t.id, metafieldKey: t.metafieldKey, expected, actual }];
+        })
+      );
+
+      await prisma.$transaction([
+        prisma.categoryDriftItem.createMany({ data: items, skipDuplicates: true }),
+        prisma.categoryDriftScan.update({
+          where: { id: scanId },
+          data: { productsScanned: { increment: nodes.length }, mismatches: { increment: items.length } },
+        }),
+      ]);
+
+      after = page.products.pageInfo.hasNextPage ? page.products.pageInfo.endCursor : null;
+      if (after) await sleep((pageCost / RESTORE_PER_SECOND) * 1000);
+    } while (after);
+
+    await prisma.categoryDriftScan.update({ where: { id: scanId }, data: { status: 'DONE', finishedAt: new Date() } });
+  } catch (e) {
+    console.error('[category-drift] scan failed', scanId, e);
+    await prisma.categoryDriftScan.update({
+      where: { id: scanId },
+      data: { status: 'FAILED', finishedAt: new Date(), error: e instanceof Error ? e.message : String(e) },
+    });
+  }
+}
+
+/**
+ * Make the product's links in one taxonomy match a Shopify slug list. Slugs that
+ * are ancestors of other listed slugs are implied and not linked themselves.
+ * Only MANUAL links to live categories are removed: rule links come back on the
+ * next rule run, archived categories never reach the metafield, and the primary
+ * link is kept (and reported) so the product keeps its breadcrumb.
+ */
+async function importShopifySlugs(
+  productGid: string,
+  taxonomyId: string,
+  slugs: string[]
+): Promise<{ unknown: string[]; keptPrimary: string | null }> {
+  const found = await prisma.category.findMany({
+    where: { taxonomyId, slug: { in: slugs }, archivedAt: null },
+    select: { id: true, slug: true },
+  });
+  const ids = found.map((c) => c.id);
+  const implied = await prisma.categoryClosure.findMany({
+    where: { ancestorId: { in: ids }, descendantId: { in: ids }, depth: { gt: 0 } },
+    select: { ancestorId: true },
+  });
+  const impliedIds = new Set(implied.map((r) => r.ancestorId));
+  const keep = ids.filter((id) => !impliedIds.has(id));
+
+  const removable = { productGid, categoryId: { notIn: keep }, category: { taxonomyId, archivedAt: null } };
+  const primary = await prisma.productCategory.findFirst({
+    where: { ...removable, source: 'MANUAL', isPrimary: true },
+    select: { category: { select: { slug: true } } },
+  });
+  await prisma.$transaction([
+    prisma.productCategory.deleteMany({ where: { ...removable, source: 'MANUAL', isPrimary: false } }),
+    prisma.productCategory.updateMany({
+      where: { productGid, categoryId: { in: keep }, source: 'RULE' },
+      data: { source: 'MANUAL' },
+    }),
+    prisma.productCategory.createMany({
+      data: keep.map((categoryId) => ({ productGid, categoryId })),
+      skipDuplicates: true,
+    }),
+  ]);
+  return {
+    unknown: slugs.filter((s) => !found.some((c) => c.slug === s)),
+    keptPrimary: primary?.category.slug ?? null,
+  };
+}
+
+export type DriftRepairMode = 'push' | 'import';
+
+/**
+ * Claim a finished scan for repair (DONE → REPAIRING). Returns an error message
+ * when the scan is missing, still scanning, or already being repaired.
+ */
+export async function startDriftRepair(scanId: string) {
+  // A repair whose server restarted mid-way never finishes; hand the scan back
+  await prisma.categoryDriftScan.updateMany({
+    where: { status: 'REPAIRING', repairStartedAt: { lt: new Date(Date.now() - STALE_SCAN_MS) } },
+    data: { status: 'DONE', repairStartedAt: null },
+  });
+  const claimed = await prisma.categoryDriftScan.updateMany({
+    where: { id: scanId, status: 'DONE' },
+    data: { status: 'REPAIRING', repairStartedAt: new Date() },
+  });
+  if (claimed.count) return null;
+  const scan = await prisma.categoryDriftScan.findUnique({ where: { id: scanId }, select: { status: true } });
+  if (!scan) return 'Scan not found';
+  return scan.status === 'REPAIRING' ? 'This scan is already being repaired' : 'Scan has not finished';
+}
+
+/**
+ * Repair open items of a scan claimed by startDriftRepair (all, or `itemIds`).
+ * Meant to run after the response. `push` rewrites the metafields from the DB;
+ * `import` first replaces the product's links with the Shopify value, then
+ * rewrites (which adds ancestors and fixes the order). Outcomes are kept on the
+ * items; the scan goes back to DONE when finished.
+ */
+export async function repairDrift(scanId: string, mode: DriftRepairMode, itemIds?: string[]) {
+  try {
+    const items = await prisma.categoryDriftItem.findMany({
+      where: { scanId, resolvedAt: null, ...(itemIds?.length ? { id: { in: itemIds } } : {}) },
+      select: { id: true, productGid: true, taxonomyId: true, actual: true },
+    });
+
+    const byProduct = new Map<string, typeof items>();
+    for (const it of items) {
+      if (!byProduct.has(it.productGid)) byProduct.set(it.productGid, []);
+      byProduct.get(it.productGid)!.push(it);
+    }
+
+    for (const [productGid, list] of byProduct) {
+      const ids = list.map((it) => it.id);
+      const notes = new Map<string, string>();
+      try {
+        if (mode === 'import') {
+          for (const it of list) {
+            const imported = await importShopifySlugs(productGid, it.taxonomyId, it.actual);
+            const note = [
+              imported.unknown.length ? `unknown slugs skipped: ${imported.unknown.join(', ')}` : '',
+              imported.keptPrimary ? `primary ${imported.keptPrimary} kept` : '',
+            ].filter(Boolean);
+            if (note.length) notes.set(it.id, note.join('; '));
+          }
+        }
+        await rebuildProductCategoryMetafield(productGid);
+        await prisma.categoryDriftItem.updateMany({
+          where: { id: { in: ids } },
+          data: { resolution: mode === 'push' ? 'pushed' : 'imported', resolvedAt: new Date(), error: null },
+        });
+        for (const [id, note] of notes) {
+          await prisma.categoryDriftItem.update({ where: { id }, data: { note } });
+        }
+      } catch (e) {
+        const error = e instanceof Error ? e.message : 'unknown error';
+        await prisma.categoryDriftItem.updateMany({ where: { id: { in: ids } }, data: { error } });
+      }
+      await sleep(250);
+    }
+  } catch (e) {
+    console.error('[category-drift] repair failed', scanId, e);
+  } finally {
+    await prisma.categoryDriftScan.update({
+      where: { id: scanId },
+      data: { status: 'DONE', repairStartedAt: null },
+    });
+  }
+}
+
+const scanSelect = {
+  id: true,
+  status: true,
+  productsScanned: true,
+  mismatches: true,
+  error: true,
+  startedAt: true,
+  finishedAt: true,
+  repairStartedAt: true,
+} as const;
+
+export async function listDriftScans(limit = 10) {
+  return prisma.categoryDriftScan.findMany({ orderBy: { startedAt: 'desc' }, take: limit, select: scanSelect });
+}
+
+/** A scan with its mismatches, open ones first. */
+export async function getDriftScan(scanId: string) {
+  const scan = await prisma.categoryDriftScan.findUnique({ where: { id: scanId }, select: scanSelect });
+  if (!scan) return null;
+  const items = await prisma.categoryDriftItem.findMany({
+    where: { scanId },
+    orderBy: [{ resolvedAt: { sort: 'asc', nulls: 'first' } }, { productGid: 'asc' }],
+    select: {
+      id: true,
+      productGid: true,
+      metafieldKey: true,
+      expected: true,
+      actual: true,
+      resolution: true,
+      resolvedAt: true,
+      error: true,
+      note: true,
+    },
+  });
+  return { ...scan, items };
+}
@@ -0,0 +1,233 @@
+// src/lib/category-images.ts
+// Category images: validate uploads, push them to Shopify Files, build CDN size variants.
+import { shopifyAdminGraphQL } from '@/lib/shopify';
+
+export const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'] as const;
+export type ImageType = (typeof IMAGE_TYPES)[number];
+
+export const MAX_IMAGE_BYTES = 20 * 1024 * 1024; // Shopify's limit for image files
+export const MIN_IMAGE_SIDE = 200;
+export const MAX_IMAGE_SIDE = 5000;
+
+/** Widths offered to storefronts via the CDN `width` parameter. */
+export const VARIANT_WIDTHS = [160, 320, 640, 960, 1280, 1920];
+
+export type ImageInfo = { type: ImageType; width: number; height: number };
+
+/* =========================
+   Header sniffing (no image library needed)
+========================= */
+
+function pngInfo(b: Buffer): ImageInfo | null {
+  if (b.length < 24 || b.readUInt32BE(0) !== 0x89504e47 || b.toString('ascii', 12, 16) !== 'IHDR') return null;
+  return { type: 'image/png', width: b.readUInt32BE(16), height: b.readUInt32BE(20) };
+}
+
+function gifInfo(b: Buffer): ImageInfo | null {
+  if (b.length < 10 || !/^GIF8[79]a$/.test(b.toString('ascii', 0, 6))) return null;
+  return { type: 'image/gif', width: b.readUInt16LE(6), height: b.readUInt16LE(8) };
+}
+
+function jpegInfo(b: Buffer): ImageInfo | null {
+  if (b.length < 4 || b[0] !== 0xff || b[1] !== 0xd8) return null;
+  let i = 2;
+  while (i + 9 < b.length) {
+    if (b[i] !== 0xff) return null;
+    const marker = b[i + 1];
+    // SOF0..SOF15 except DHT (C4), JPG (C8) and DAC (CC) carry the frame size
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { type: 'image/jpeg', width: b.readUInt16BE(i + 7), height: b.readUInt16BE(i + 5) };
+    }
+    i += 2 + b.readUInt16BE(i + 2);
+  }
+  return null;
+}
+
+function webpInfo(b: Buffer): ImageInfo | null {
+  if (b.length < 30 || b.toString('ascii', 0, 4) !== 'RIFF' || b.toString('ascii', 8, 12) !== 'WEBP') return null;
+  const chunk = b.toString('ascii', 12, 16);
+  if (chunk === 'VP8X') {
+    return { type: 'image/webp', width: 1 + b.readUIntLE(24, 3), height: 1 + b.readUIntLE(27, 3) };
+  }
+  if (chunk === 'VP8 ') {
+    return { type: 'image/webp', width: b.readUInt16LE(26) & 0x3fff, height: b.readUInt16LE(28) & 0x3fff };
+  }
+  if (chunk === 'VP8L') {
+    const bits = b.readUInt32LE(21);
+    return { type: 'image/webp', width: 1 + (bits & 0x3fff), height: 1 + ((bits >> 14) & 0x3fff) };
+  }
+  return null;
+}
+
+/** Real type and pixel size from the file header; null when it is not a supported image. */
+export function readImageInfo(buf: Buffer): ImageInfo | null {
+  return pngInfo(buf) ?? jpegInfo(buf) ?? gifInfo(buf) ?? webpInfo(buf);
+}
+
+/** Returns the image's info, or an error message explaining why it was rejected. */
+export function validateCategoryImage(buf: Buffer): ImageInfo | string {
+  if (!buf.length) return 'File is empty';
+  if (buf.length > MAX_IMAGE_BYTES) return `File is larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB`;
+  const info = readImageInfo(buf);
+  if (!info) return 'Unsupported file type (use JPEG, PNG, GIF or WebP)';
+  if (info.width < MIN_IMAGE_SIDE || info.height < MIN_IMAGE_SIDE) {
+    return `Image is ${info.width}×${info.height}; it must be at least ${MIN_IMAGE_SIDE}px on each side`;
+  }
+  if (info.width > MAX_IMAGE_SIDE || info.height > MAX_IMAGE_SIDE) {
+    return `Image is ${info.width}×${info.height}; it must be at most ${MAX_IMAGE_SIDE}px on each side`;
+  }
+  return info;
+}
+
+/* =========================
+   Shopify Files (staged upload → fileCreate → wait until READY)
+========================= */
+
+const STAGED_UPLOADS_CREATE = /* GraphQL */ `
+  mutation StagedUploadsCreate($input: [StagedUploadInput!]!) {
+    stagedUploadsCreate(input: $input) {
+      stagedTargets { url resourceUrl parameters { name value } }
+      userErrors { field message }
+    }
+  }
+`;
+
+const FILE_CREATE = /* GraphQL */ `
+  mutation FileCreate($files: [FileCreateInput!]!) {
+    fileCreate(files: $files) {
+      files { id fileStatus }
+      userErrors { field message }
+    }
+  }
+`;
+
+const FILE_STATUS = /* GraphQL */ `
+  query FileStatus($id: ID!) {
+    node(id: $id) {
+      ... on MediaImage {
+        fileStatus
+        fileErrors { message }
+        image { url width height }
+      }
+    }
+  }
+`;
+
+type StagedUploadsCreateResult = {
+  stagedUploadsCreate: {
+    stagedTargets: Array<{ url: string; resourceUrl: string; parameters: Array<{ name: string; value: string }> }>;
+    userErrors: Array<{ field?: string[]; message: string }>;
+  };
+};
+
+type FileCreateResult = {
+  fileCreate: {
+    files: Array<{ id: string; fileStatus: string }>;
+    userErrors: Array<{ field?: string[]; message: string }>;
+  };
+};
+
+type FileStatusResult = {
+  node: {
+    fileStatus?: 'UPLOADED' | 'PROCESSING' | 'READY' | 'FAILED';
+    fileErrors?: Array<{ message: string }>;
+    image?: { url: string; width: number | null; height: number | null } | null;
+  } | null;
+};
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+export type UploadedImage = { fileId: string; url: string; alt: string | null; width: number; height: number };
+
+/**
+ * Upload an already-validated image to Shopify Files and wait for its CDN URL.
+ * Throws on Shopify errors or when processing does not finish in time.
+ */
+export async function uploadImageToShopifyFiles(
+  buf: Buffer,
+  filename: string,
+  info: ImageInfo,
+  alt: string | null
+): Promise<UploadedImage> {
+  const staged = await shopifyAdminGraphQL<StagedUploadsCreateResult>(STAGED_UPLOADS_CREATE, {
+    input: [
+      {
+        resource: 'IMAGE',
+        filename,
+        mimeType: info.type,
+        fileSize: String(buf.length),
+        httpMethod: 'POST',
+      },
+    ],
+  });
+  const sErrs = staged.stagedUploadsCreate.userErrors;
+  if (sErrs.length) throw new Error(`stagedUploadsCreate: ${sErrs.map((e) => e.message).join('; ')}`);
+  const target = staged.stagedUploadsCreate.stagedTargets[0];
+  if (!target) throw new Error('stagedUploadsCreate returned no target');
+
+  // The signed parameters must precede the file in the form
+  const form = new FormData();
+  for (const p of target.parameters) form.append(p.name, p.value);
+  form.append('file', new Blob([new Uint8Array(buf)], { type: info.type }), filename);
+  const up = await fetch(target.url, { method: 'POST', body: form });
+  if (!up.ok) throw new Error(`Staged upload HTTP ${up.status}: ${(await up.text()).slice(0, 300)}`);
+
+  const created = await shopifyAdminGraphQL<FileCreateResult>(FILE_CREATE, {
+    files: [{ originalSource: target.resourceUrl, contentType: 'IMAGE', alt: alt ?? undefined }],
+  });
+  const cErrs = created.fileCreate.userErrors;
+  if (cErrs.length) throw new Error(`fileCreate: ${cErrs.map((e) => e.message).join('; ')}`);
+  const fileId = created.fileCreate.files[0]?.id;
+  if (!fileId) throw new Error('fileCreate returned no file');
+
+  // Shopify processes images asynchronously; the URL only exists once READY
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const { node } = await shopifyAdminGraphQL<FileStatusResult>(FILE_STATUS, { id: fileId });
+    if (node?.fileStatus === 'FAILED') {
+      throw new Error(`Shopify could not process the image: ${node.fileErrors?.map((e) => e.message).join('; ') || 'unknown error'}`);
+    }
+    if (node?.fileStatus === 'READY' && node.image?.url) {
+      return {
+        fileId,
+        url: node.image.url,
+        alt,
+        width: node.image.width ?? info.width,
+        height: node.image.height ?? info.height,
+      };
+    }
+    await sleep(1000);
+  }
+  throw new Error('Timed out waiting for Shopify to process the image');
+}
+
+/* =========================
+   Responsive variants
+========================= */
+
+function isShopifyCdn(u: URL): boolean {
+  return u.hostname === 'cdn.shopify.com' || u.pathname.startsWith('/cdn/shop/');
+}
+
+/**
+ * Resized URLs for a Shopify CDN image, never wider than the original.
+ * Other hosts cannot resize on the fly, so pasted URLs get no variants.
+ */
+export function imageVariants(url: string | null, width: number | null): Array<{ width: number; url: string }> {
+  if (!url) return [];
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return [];
+  }
+  if (!isShopifyCdn(parsed)) return [];
+
+  const widths = VARIANT_WIDTHS.filter((w) => !width || w < width);
+  return widths.map((w) => {
+    const u = new URL(parsed);
+    u.searchParams.set('width', String(w));
+    return { width: w, url: u.toString() };
+  });
+}
@@ -0,0 +1,445 @@
+// src/lib/category-io.ts
+// Taxonomy import/export: CSV and nested JSON, addressed by title path
+// ("Exhaust > Downpipes > Catted") and upserted by slug.
+import prisma from '@/lib/prisma';
+import {
+  flattenCategoryRows,
+  getDescendantIds,
+  getProductGidsForCategories,
+} from '@/lib/categories';
+import { syncCategoryPage } from '@/lib/category-pages';
+import { rebuildCategoryClosure } from '@/lib/category-closure';
+import { recordCategoryRevisions, snapshotOf, type RevisionEntry } from '@/lib/category-revisions';
+import { queueProductRebuild } from '@/lib/product-category-jobs';
+
+export const PATH_SEPARATOR = ' > ';
+
+export type CategoryIORow = {
+  path: string[]; // titles from the root down; the last one is this category's title
+  slug: string;
+  // undefined = column/key absent from the file: leave the current value alone
+  description?: string | null;
+  image?: string | null;
+  line?: number; // 1-based source line/position, for error reporting
+};
+
+export type CategoryJsonNode = {
+  title: string;
+  slug: string;
+  description?: string | null;
+  image?: string | null;
+  children?: CategoryJsonNode[];
+};
+
+/* =========================
+   Export
+========================= */
+
+export async function exportCategoryRows(taxonomyId: string): Promise<CategoryIORow[]> {
+  const rows = await prisma.category.findMany({
+    where: { taxonomyId, archivedAt: null },
+    orderBy: [{ sortOrder: 'asc' }, { title: 'asc' }],
+    select: { id: true, title: true, slug: true, parentId: true, description: true, image: true },
+  });
+
+  const byId = new Map(rows.map((r) => [r.id, r]));
+  const pathOf = (id: string): string[] => {
+    const out: string[] = [];
+    const seen = new Set<string>();
+    let cur = byId.get(id);
+    while (cur && !seen.has(cur.id)) {
+      seen.add(cur.id);
+      out.unshift(cur.title);
+      cur = cur.parentId ? byId.get(cur.parentId) : undefined;
+    }
+    return out;
+  };
+
+  return flattenCategoryRows(rows).map((r) => ({
+    path: pathOf(r.id),
+    slug: r.slug,
+    description: r.description,
+    image: r.image,
+  }));
+}
+
+function csvCell(v: string | null | undefined): string {
+  const s = v ?? '';
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function rowsToCsv(rows: CategoryIORow[]): string {
+  const lines = ['path,slug,description,image'];
+  for (const r of rows) {
+    lines.push(
+      [r.path.join(PATH_SEPARATOR), r.slug, r.description, r.image].map(csvCell).join(',')
+    );
+  }
+  return lines.join('\n');
+}
+
+export function rowsToNestedJson(rows: CategoryIORow[]): CategoryJsonNode[] {
+  const roots: CategoryJsonNode[] = [];
+  const byPath = new Map<string, CategoryJsonNode>();
+  for (const r of rows) {
+    const node: CategoryJsonNode = {
+      title: r.path[r.path.length - 1],
+      slug: r.slug,
+      description: r.description,
+      image: r.image,
+      children: [],
+    };
+    byPath.set(r.path.join(PATH_SEPARATOR), node);
+    const parent = byPath.get(r.path.slice(0, -1).join(PATH_SEPARATOR));
+    if (r.path.length > 1 && parent) parent.children!.push(node);
+    else roots.push(node);
+  }
+  return roots;
+}
+
+/* =========================
+   Parse
+========================= */
+
+/** Minimal RFC 4180 parser: quoted fields, doubled quotes, CRLF or LF. */
+export function parseCsv(text: string): string[][] {
+  const out: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+    if (ch === '"') quoted = true;
+    else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      out.push(row);
+      row = [];
+      field = '';
+    } else field += ch;
+  }
+  if (field !== '' || row.length) {
+    row.push(field);
+    out.push(row);
+  }
+  return out.filter((r) => r.some((c) => c.trim() !== ''));
+}
+
+export function csvToRows(text: string): CategoryIORow[] {
+  const [header, ...body] = parseCsv(text.replace(/^﻿/, ''));
+  if (!header) return [];
+  const col = (name: string) => header.findIndex((h) => h.trim().toLowerCase() === name);
+  const iPath = col('path');
+  const iSlug = col('slug');
+  const iDesc = col('description');
+  const iImage = col('image');
+  if (iPath < 0 || iSlug < 0) throw new Error('CSV needs at least "path" and "slug" columns');
+
+  return body.map((cells, i) => ({
+    path: (cells[iPath] ?? '').split('>').map((s) => s.trim()).filter(Boolean),
+    slug: (cells[iSlug] ?? '').trim(),
+    description: iDesc >= 0 ? (cells[iDesc] ?? '').trim() || null : undefined,
+    image: iImage >= 0 ? (cells[iImage] ?? '').trim() || null : undefined,
+    line: i + 2, // header is line 1
+  }));
+}
+
+export function nestedJsonToRows(nodes: CategoryJsonNode[]): CategoryIORow[] {
+  const out: CategoryIORow[] = [];
+  const walk = (list: CategoryJsonNode[], prefix: string[]) => {
+    for (const n of list) {
+      const path = [...prefix, String(n.title ?? '').trim()];
+      out.push({
+        path,
+        slug: String(n.slug ?? '').trim(),
+        description: 'description' in n ? n.description?.trim() || null : undefined,
+        image: 'image' in n ? n.image?.trim() || null : undefined,
+        line: out.length + 1,
+      });
+      if (Array.isArray(n.children)) walk(n.children, path);
+    }
+  };
+  walk(nodes, []);
+  return out;
+}
+
+/* =========================
+   Plan (dry run)
+========================= */
+
+type Existing = {
+  id: string;
+  title: string;
+  slug: string;
+  parentId: string | null;
+  description: string | null;
+  image: string | null;
+};
+
+export type ImportPlan = {
+  creates: Array<{ slug: string; title: string; parentSlug: string | null; line?: number }>;
+  updates: Array<{
+    slug: string;
+    changes: Partial<Record<'title' | 'description' | 'image', { from: string | null; to: string | null }>>;
+    line?: number;
+  }>;
+  moves: Array<{ slug: string; fromParentSlug: string | null; toParentSlug: string | null; line?: number }>;
+  conflicts: Array<{ slug: string; error: string; line?: number }>;
+  unchanged: number;
+};
+
+/**
+ * Works out what an import would do without writing anything. A row's parent
+ * is the row (or existing category) whose title path is the row's path minus
+ * its last segment; rows in the file win over the current tree.
+ */
+export async function planCategoryImport(rows: CategoryIORow[], taxonomyId: string): Promise<ImportPlan> {
+  const plan: ImportPlan = { creates: [], updates: [], moves: [], conflicts: [], unchanged: 0 };
+
+  const existing: Existing[] = await prisma.category.findMany({
+    where: { taxonomyId },
+    select: { id: true, title: true, slug: true, parentId: true, description: true, image: true },
+  });
+  const bySlug = new Map(existing.map((c) => [c.slug, c]));
+  const byId = new Map(existing.map((c) => [c.id, c]));
+
+  const key = (path: string[]) => path.map((p) => p.toLowerCase()).join(PATH_SEPARATOR);
+
+  // Current tree, addressed by title path
+  const existingByPath = new Map<string, Existing>();
+  for (const c of existing) {
+    const path: string[] = [];
+    const seen = new Set<string>();
+    let cur: Existing | undefined = c;
+    while (cur && !seen.has(cur.id)) {
+      seen.add(cur.id);
+      path.unshift(cur.title);
+      cur = cur.parentId ? byId.get(cur.parentId) : undefined;
+    }
+    existingByPath.set(key(path), c);
+  }
+
+  // Validate rows and index the file by path
+  const valid: CategoryIORow[] = [];
+  const fileBySlug = new Map<string, CategoryIORow>();
+  const fileByPath = new Map<string, CategoryIORow>();
+  for (const r of rows) {
+    if (!r.slug || !r.path.length) {
+      plan.conflicts.push({ slug: r.slug, error: 'Missing slug or path', line: r.line });
+      continue;
+    }
+    if (fileBySlug.has(r.slug)) {
+      plan.conflicts.push({ slug: r.slug, error: 'Slug appears more than once in the file', line: r.line });
+      continue;
+    }
+    if (fileByPath.has(key(r.path))) {
+      plan.conflicts.push({
+        slug: r.slug,
+        error: `Path “${r.path.join(PATH_SEPARATOR)}” appears more than once in the file`,
+        line: r.line,
+      });
+      continue;
+    }
+    fileBySlug.set(r.slug, r);
+    fileByPath.set(key(r.path), r);
+    valid.push(r);
+  }
+
+  // Resolve each row's parent slug
+  const parentSlugOf = new Map<string, string | null>();
+  for (const r of valid) {
+    if (r.path.length === 1) {
+      parentSlugOf.set(r.slug, null);
+      continue;
+    }
+    const parentKey = key(r.path.slice(0, -1));
+    const parentSlug = fileByPath.get(parentKey)?.slug ?? existingByPath.get(parentKey)?.slug;
+    if (!parentSlug) {
+      plan.conflicts.push({
+        slug: r.slug,
+        error: `Parent “${r.path.slice(0, -1).join(PATH_SEPARATOR)}” not found in file or tree`,
+        line: r.line,
+      });
+      continue;
+    }
+    parentSlugOf.set(r.slug, parentSlug);
+  }
+
+  // Final parent of every slug after the import, to catch cycles
+  const finalParent = new Map<string, string | null>();
+  for (const c of existing) {
+    finalParent.set(c.slug, c.parentId ? byId.get(c.parentId)?.slug ?? null : null);
+  }
+  for (const [slug, parentSlug] of parentSlugOf) finalParent.set(slug, parentSlug);
+
+  const inCycle = (slug: string) => {
+    const seen = new Set<string>();
+    let cur: string | null | undefined = finalParent.get(slug);
+    while (cur) {
+      if (cur === slug) return true;
+      if (seen.has(cur)) return false;
+      seen.add(cur);
+      cur = finalParent.get(cur);
+    }
+    return false;
+  };
+
+  for (const r of valid) {
+    if (!parentSlugOf.has(r.slug)) continue; // parent conflict already reported
+    const parentSlug = parentSlugOf.get(r.slug)!;
+    const title = r.path[r.path.length - 1];
+    const cur = bySlug.get(r.slug);
+
+    if (!cur) {
+      plan.creates.push({ slug: r.slug, title, parentSlug, line: r.line });
+      continue;
+    }
+
+    const curParentSlug = cur.parentId ? byId.get(cur.parentId)?.slug ?? null : null;
+    if (curParentSlug !== parentSlug) {
+      if (inCycle(r.slug)) {
+        plan.conflicts.push({
+          slug: r.slug,
+          error: 'Move would place the category under its own descendant',
+          line: r.line,
+        });
+        continue;
+      }
+      plan.moves.push({ slug: r.slug, fromParentSlug: curParentSlug, toParentSlug: parentSlug, line: r.line });
+    }
+
+    const changes: ImportPlan['updates'][number]['changes'] = {};
+    if (cur.title !== title) changes.title = { from: cur.title, to: title };
+    if (r.description !== undefined && (cur.description ?? null) !== r.description) {
+      changes.description = { from: cur.description, to: r.description };
+    }
+    if (r.image !== undefined && (cur.image ?? null) !== r.image) changes.image = { from: cur.image, to: r.image };
+    if (Object.keys(changes).length) plan.updates.push({ slug: r.slug, changes, line: r.line });
+    else if (curParentSlug === parentSlug) plan.unchanged++;
+  }
+
+  return plan;
+}
+
+/* =========================
+   Apply
+========================= */
+
+/**
+ * Writes a conflict-free plan: creates (parents first), updates and moves in
+ * one transaction, then syncs Shopify pages and queues moved products' metafield rebuilds.
+ */
+export async function applyCategoryImport(rows: CategoryIORow[], plan: ImportPlan, taxonomyId: string) {
+  const rowBySlug = new Map(rows.map((r) => [r.slug, r]));
+  const revisions: RevisionEntry[] = [];
+  const touchedIds = new Set<string>();
+  const movedIds: string[] = [];
+
+  await prisma.$transaction(
+    async (tx) => {
+      const all = await tx.category.findMany({
+        where: { taxonomyId },
+        select: { id: true, title: true, slug: true, parentId: true, description: true, image: true, sortOrder: true },
+      });
+      const idBySlug = new Map(all.map((c) => [c.slug, c.id]));
+      const nextOrder = new Map<string | null, number>();
+      for (const c of all) {
+        nextOrder.set(c.parentId, Math.max(nextOrder.get(c.parentId) ?? 0, c.sortOrder + 1));
+      }
+      const takeOrder = (parentId: string | null) => {
+        const n = nextOrder.get(parentId) ?? 0;
+        nextOrder.set(parentId, n + 1);
+        return n;
+      };
+
+      // Parents first: shorter paths before longer ones, file order otherwise
+      const creates = [...plan.creates].sort(
+        (a, b) => rowBySlug.get(a.slug)!.path.length - rowBySlug.get(b.slug)!.path.length
+      );
+      for (const c of creates) {
+        const r = rowBySlug.get(c.slug)!;
+        const parentId = c.parentSlug ? idBySlug.get(c.parentSlug) ?? null : null;
+        const created = await tx.category.create({
+          data: {
+            taxonomyId,
+            title: c.title,
+            slug: c.slug,
+            parentId,
+            description: r.description,
+            image: r.image,
+            sortOrder: takeOrder(parentId),
+          },
+        });
+        idBySlug.set(c.slug, created.id);
+        touchedIds.add(created.id);
+        revisions.push({ categoryId: created.id, action: 'CREATE', before: null, after: snapshotOf(created) });
+      }
+
+      const bySlug = new Map(all.map((c) => [c.slug, c]));
+      const moveBySlug = new Map(plan.moves.map((m) => [m.slug, m]));
+      const updateSlugs = new Set([...plan.updates.map((u) => u.slug), ...moveBySlug.keys()]);
+
+      for (const slug of updateSlugs) {
+        const cur = bySlug.get(slug)!;
+        const r = rowBySlug.get(slug)!;
+        const move = moveBySlug.get(slug);
+        const parentId = move
+          ? move.toParentSlug
+            ? idBySlug.get(move.toParentSlug) ?? null
+            : null
+          : cur.parentId;
+
+        const updated = await tx.category.update({
+          where: { id: cur.id },
+          data: {
+            title: r.path[r.path.length - 1],
+            description: r.description,
+            image: r.image,
+            ...(move ? { parentId, sortOrder: takeOrder(parentId) } : {}),
+          },
+        });
+        touchedIds.add(cur.id);
+        if (move) movedIds.push(cur.id);
+        revisions.push({
+          categoryId: cur.id,
+          action: 'UPDATE',
+          before: snapshotOf(cur),
+          after: snapshotOf(updated),
+        });
+      }
+
+      // Creates and moves can touch much of the tree; recompute ancestry in one pass
+      if (plan.creates.length || plan.moves.length) await rebuildCategoryClosure(tx);
+    },
+    { timeout: 60_000 }
+  );
+
+  await recordCategoryRevisions(revisions);
+
+  let pagesSynced = 0;
+  for (const id of touchedIds) {
+    if (await syncCategoryPage(id)) pagesSynced++;
+  }
+
+  const movedSubtrees = new Set<string>();
+  for (const id of movedIds) for (const d of await getDescendantIds(id)) movedSubtrees.add(d);
+  // Queued: moving a populated branch can touch thousands of products
+  const metafields = await queueProductRebuild(await getProductGidsForCategories([...movedSubtrees]));
+
+  return { pagesSynced, metafields };
+}
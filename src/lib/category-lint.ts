@@ -0,0 +1,323 @@
+// src/lib/category-lint.ts
+// Structural checks over the whole category table, and one fix per issue type.
+import prisma from '@/lib/prisma';
+import { getDescendantIds, getProductGidsForCategories, nextSortOrder } from '@/lib/categories';
+import { rebuildCategoryClosure } from '@/lib/category-closure';
+import { SHOPIFY_ENABLED, setShopifyPagePublished, syncCategoryPage } from '@/lib/category-pages';
+import { handleCategorySlugChange } from '@/lib/category-slugs';
+import { recordCategoryRevisions, snapshotOf, snapshotSelect, type RevisionEntry } from '@/lib/category-revisions';
+import { queueProductRebuild } from '@/lib/product-category-jobs';
+import { isSlugFormatted, slugify } from '@/lib/slugify';
+
+export const LINT_TYPES = [
+  'missingParent',
+  'cycle',
+  'duplicateTitle',
+  'badSlug',
+  'emptyLeaf',
+  'missingPage',
+  'staleSync',
+] as const;
+export type LintType = (typeof LINT_TYPES)[number];
+
+export type LintIssue = {
+  type: LintType;
+  categoryId: string; // the row the fix acts on
+  title: string;
+  slug: string;
+  detail: string;
+  related?: string[]; // other category ids involved (cycle members, duplicates)
+};
+
+// Saving lastSyncedAt is itself an update, so updatedAt always trails it by a few ms
+const SYNC_TOLERANCE_MS = 5000;
+
+type LintRow = {
+  id: string;
+  taxonomyId: string;
+  title: string;
+  slug: string;
+  parentId: string | null;
+  sortOrder: number;
+  archivedAt: Date | null;
+  shopifyPageId: string | null;
+  lastSyncedAt: Date | null;
+  updatedAt: Date;
+};
+
+const bySortThenTitle = (a: LintRow, b: LintRow) => a.sortOrder - b.sortOrder || a.title.localeCompare(b.title);
+
+function findCycles(rows: LintRow[]): LintRow[][] {
+  const byId = new Map(rows.map((r) => [r.id, r]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const cycles: LintRow[][] = [];
+
+  for (const start of rows) {
+    const path: string[] = [];
+    let id: string | null = start.id;
+    while (id && byId.has(id) && !state.has(id)) {
+      state.set(id, 'visiting');
+      path.push(id);
+      id = byId.get(id)!.parentId;
+    }
+    // Walked back into the current path: everything from there on is a loop
+    if (id && state.get(id) === 'visiting') {
+      cycles.push(path.slice(path.indexOf(id)).map((c) => byId.get(c)!));
+    }
+    for (const p of path) state.set(p, 'done');
+  }
+  return cycles;
+}
+
+/**
+ * Report structural problems. Parent/cycle/slug checks cover every row;
+ * the rest ignore archived categories, which are deliberately hidden.
+ */
+export async function lintTaxonomy() {
+  const rows: LintRow[] = await prisma.category.findMany({
+    select: {
+      id: true,
+      taxonomyId: true,
+      title: true,
+      slug: true,
+      parentId: true,
+      sortOrder: true,
+      archivedAt: true,
+      shopifyPageId: true,
+      lastSyncedAt: true,
+      updatedAt: true,
+    },
+  });
+  const links = await prisma.productCategory.groupBy({ by: ['categoryId'], _count: { _all: true } });
+  const linkCount = new Map(links.map((l) => [l.categoryId, l._count._all]));
+
+  const ids = new Set(rows.map((r) => r.id));
+  const live = rows.filter((r) => !r.archivedAt);
+  const issues: LintIssue[] = [];
+  const issue = (type: LintType, r: LintRow, detail: string, related?: string[]) =>
+    issues.push({ type, categoryId: r.id, title: r.title, slug: r.slug, detail, ...(related ? { related } : {}) });
+
+  for (const r of rows) {
+    if (r.parentId && !ids.has(r.parentId)) issue('missingParent', r, `Parent ${r.parentId} does not exist`);
+  }
+
+  for (const cycle of findCycles(rows)) {
+    const [detach] = [...cycle].sort(bySortThenTitle);
+    issue(
+      'cycle',
+      detach,
+      `Parent loop: ${cycle.map((c) => c.title).join(' → ')} → ${cycle[0].title}`,
+      cycle.map((c) => c.id).filter((id) => id !== detach.id)
+    );
+  }
+
+  const siblings = new Map<string, LintRow[]>();
+  for (const r of live) {
+    // Roots are only siblings within their own taxonomy
+    const k = `${r.taxonomyId}\u0000${r.parentId ?? ''}\u0000${r.title.trim().toLowerCase()}`;
+    if (!siblings.has(k)) siblings.set(k, []);
+    siblings.get(k)!.push(r);
+  }
+  for (const group of siblings.values()) {
+    if (group.length < 2) continue;
+    const [keep, ...dupes] = group.sort(bySortThenTitle);
+    for (const d of dupes) {
+      issue('duplicateTitle', d, `Same title as sibling “${keep.title}” (${keep.slug})`, [keep.id]);
+    }
+  }
+
+  for (const r of rows) {
+    if (!isSlugFormatted(r.slug)) issue('badSlug', r, `Expected “${slugify(r.slug) || slugify(r.title)}”`);
+  }
+
+  const hasLiveChildren = new Set(live.map((r) => r.parentId).filter((p): p is string => Boolean(p)));
+  for (const r of live) {
+    if (!hasLiveChildren.has(r.id) && !linkCount.get(r.id)) issue('emptyLeaf', r, 'Leaf category with no products');
+  }
+
+  for (const r of live) {
+    if (!r.shopifyPageId) {
+      issue('missingPage', r, 'No Shopify page');
+    } else if (!r.lastSyncedAt || r.updatedAt.getTime() - r.lastSyncedAt.getTime() > SYNC_TOLERANCE_MS) {
+      issue(
+        'staleSync',
+        r,
+        r.lastSyncedAt ? `Edited ${r.updatedAt.toISOString()}, last synced ${r.lastSyncedAt.toISOString()}` : 'Never synced'
+      );
+    }
+  }
+
+  const counts = Object.fromEntries(LINT_TYPES.map((t) => [t, 0])) as Record<LintType, number>;
+  for (const i of issues) counts[i.type]++;
+  return { checked: rows.length, counts, issues };
+}
+
+/* =========================
+   Fixes
+========================= */
+
+async function uniqueSlug(base: string, taxonomyId: string, excludeId: string): Promise<string> {
+  for (let n = 1; ; n++) {
+    const candidate = n === 1 ? base : `${base}-${n}`;
+    const [current, historic] = await Promise.all([
+      prisma.category.findFirst({
+        where: { taxonomyId, slug: candidate, NOT: { id: excludeId } },
+        select: { id: true },
+      }),
+      prisma.categorySlugHistory.findUnique({
+        where: { taxonomyId_slug: { taxonomyId, slug: candidate } },
+        select: { categoryId: true },
+      }),
+    ]);
+    if (!current && (!historic || historic.categoryId === excludeId)) return candidate;
+  }
+}
+
+// missingParent + cycle: hang the category at the root, then rebuild the closure table
+async function moveToRoot(issues: LintIssue[]) {
+  const targets = await prisma.category.findMany({
+    where: { id: { in: issues.map((i) => i.categoryId) } },
+    select: { id: true, taxonomyId: true, ...snapshotSelect },
+  });
+  // Appended after the existing roots of each category's own taxonomy
+  const nextByTaxonomy = new Map<string, number>();
+  for (const t of targets) {
+    if (!nextByTaxonomy.has(t.taxonomyId)) {
+      nextByTaxonomy.set(t.taxonomyId, await nextSortOrder(null, t.taxonomyId));
+    }
+  }
+  await prisma.$transaction(
+    async (tx) => {
+      for (const t of targets) {
+        const sortOrder = nextByTaxonomy.get(t.taxonomyId)!;
+        nextByTaxonomy.set(t.taxonomyId, sortOrder + 1);
+        await tx.category.update({ where: { id: t.id }, data: { parentId: null, sortOrder } });
+      }
+      await rebuildCategoryClosure(tx);
+    },
+    { timeout: 60_000 }
+  );
+  await recordCategoryRevisions(
+    targets.map((t) => ({
+      categoryId: t.id,
+      action: 'UPDATE' as const,
+      before: snapshotOf(t),
+      after: { ...snapshotOf(t), parentId: null },
+    }))
+  );
+
+  // Every product below a moved category has a new ancestor chain
+  const subtree = new Set<string>();
+  for (const t of targets) for (const id of await getDescendantIds(t.id)) subtree.add(id);
+  const metafields = await queueProductRebuild(await getProductGidsForCategories([...subtree]));
+  return { fixed: targets.length, failed: 0, metafields };
+}
+
+// duplicateTitle: suffix the later siblings with “(2)”, “(3)”, …
+async function renameDuplicates(issues: LintIssue[]) {
+  const revisions: RevisionEntry[] = [];
+  let fixed = 0;
+  for (const i of issues) {
+    const row = await prisma.category.findUnique({
+      where: { id: i.categoryId },
+      select: { id: true, taxonomyId: true, ...snapshotSelect },
+    });
+    if (!row) continue;
+    const taken = await prisma.category.findMany({
+      where: { taxonomyId: row.taxonomyId, parentId: row.parentId, archivedAt: null, NOT: { id: row.id } },
+      select: { title: true },
+    });
+    const titles = new Set(taken.map((t) => t.title.trim().toLowerCase()));
+    let n = 2;
+    while (titles.has(`${row.title} (${n})`.toLowerCase())) n++;
+    const title = `${row.title} (${n})`;
+
+    await prisma.category.update({ where: { id: row.id }, data: { title } });
+    revisions.push({ categoryId: row.id, action: 'UPDATE', before: snapshotOf(row), after: { ...snapshotOf(row), title } });
+    await syncCategoryPage(row.id);
+    fixed++;
+  }
+  await recordCategoryRevisions(revisions);
+  return { fixed, failed: issues.length - fixed };
+}
+
+// badSlug: re-slugify (keeping the old slug in history and redirecting its page)
+async function reslug(issues: LintIssue[]) {
+  const revisions: RevisionEntry[] = [];
+  let fixed = 0;
+  for (const i of issues) {
+    const row = await prisma.category.findUnique({
+      where: { id: i.categoryId },
+      select: { id: true, taxonomyId: true, shopifyPageId: true, ...snapshotSelect },
+    });
+    if (!row) continue;
+    const base = slugify(row.slug) || slugify(row.title);
+    if (!base) {
+      console.error('[category-lint] no usable slug for', row.id, row.title);
+      continue;
+    }
+    const slug = await uniqueSlug(base, row.taxonomyId, row.id);
+
+    await prisma.category.update({ where: { id: row.id }, data: { slug } });
+    revisions.push({ categoryId: row.id, action: 'UPDATE', before: snapshotOf(row), after: { ...snapshotOf(row), slug } });
+    await syncCategoryPage(row.id);
+    await handleCategorySlugChange(row.id, row.slug, slug, { hadPage: Boolean(row.shopifyPageId) });
+    fixed++;
+  }
+  await recordCategoryRevisions(revisions);
+  return { fixed, failed: issues.length - fixed };
+}
+
+// emptyLeaf: archive (reversible from the dashboard's archived list)
+async function archiveLeaves(issues: LintIssue[]) {
+  const rows = await prisma.category.findMany({
+    where: { id: { in: issues.map((i) => i.categoryId) }, archivedAt: null },
+    select: { id: true, slug: true, shopifyPageId: true },
+  });
+  for (const r of rows) {
+    // One archive batch per category (restore brings back a batch), so each can be restored on its own
+    await prisma.category.update({ where: { id: r.id }, data: { archivedAt: new Date() } });
+    if (!r.shopifyPageId) continue;
+    try {
+      await setShopifyPagePublished(r.shopifyPageId, false);
+    } catch (e) {
+      console.error('[category-lint] unpublish failed', r.slug, e);
+    }
+  }
+  return { fixed: rows.length, failed: issues.length - rows.length };
+}
+
+// missingPage + staleSync: push the page again
+async function resync(issues: LintIssue[]) {
+  if (!SHOPIFY_ENABLED) return { fixed: 0, failed: issues.length, error: 'Shopify is not configured' };
+  let fixed = 0;
+  for (const i of issues) if (await syncCategoryPage(i.categoryId)) fixed++;
+  return { fixed, failed: issues.length - fixed };
+}
+
+/**
+ * Re-run the linter and apply the fix for every current issue of `type`
+ * (or only those on `categoryIds`). Issues are recomputed first, so a stale
+ * report never triggers a fix for something that is already fine.
+ */
+export async function fixLintIssues(type: LintType, categoryIds?: string[]) {
+  const { issues } = await lintTaxonomy();
+  const only = categoryIds?.length ? new Set(categoryIds) : null;
+  const targets = issues.filter((i) => i.type === type && (!only || only.has(i.categoryId)));
+  if (!targets.length) return { type, fixed: 0, failed: 0 };
+
+  switch (type) {
+    case 'missingParent':
+    case 'cycle':
+      return { type, ...(await moveToRoot(targets)) };
+    case 'duplicateTitle':
+      return { type, ...(await renameDuplicates(targets)) };
+    case 'badSlug':
+      return { type, ...(await reslug(targets)) };
+    case 'emptyLeaf':
+      return { type, ...(await archiveLeaves(targets)) };
+    case 'missingPage':
+    case 'staleSync':
+      return { type, ...(await resync(targets)) };
+  }
+}
@@ -0,0 +1,401 @@
+// src/lib/category-merge.ts
+// Fold one category (the "source") into another (the "target").
+import prisma from '@/lib/prisma';
+import {
+  getDescendantIds,
+  getProductGidsForCategories,
+  writeSiblingOrder,
+} from '@/lib/categories';
+import { createShopifyRedirect, deleteShopifyPageById } from '@/lib/category-pages';
+import { moveCategoryInClosure } from '@/lib/category-closure';
+import { queueProductRebuild } from '@/lib/product-category-jobs';
+import { pageHandleFor } from '@/lib/taxonomies';
+import { recordCategoryRevisions, snapshotOf, snapshotSelect } from '@/lib/category-revisions';
+
+type CategoryRef = {
+  id: string;
+  title: string;
+  slug: string;
+  shopifyPageId: string | null;
+  taxonomyId: string;
+  taxonomy: { key: string; isDefault: boolean };
+};
+
+export type MergePreview = {
+  source: CategoryRef;
+  target: CategoryRef;
+  productLinks: { total: number; duplicates: number; moved: number };
+  distributorMappings: number;
+  children: Array<{ id: string; title: string; slug: string }>;
+  /** Dropped source links that were a product's primary; the target link becomes primary */
+  primaryLinks: number;
+  aliases: { moved: number; duplicates: number };
+  /** Locales moved to the target, and locales where the target's own translation wins */
+  translations: { moved: string[]; kept: string[] };
+  /** `merge` folds product values into the same-key attribute on the target or its ancestors */
+  attributes: Array<{ key: string; label: string; action: 'move' | 'merge'; values: number }>;
+  rules: 'none' | 'copy';
+  shopifyCategory: 'none' | 'copy' | 'target-kept';
+  affectedProducts: number;
+  sampleProductGids: string[];
+  shopifyPage: 'redirect-and-delete' | 'delete' | 'none';
+};
+
+export type MergeResult = MergePreview & {
+  metafields: { jobId: string; total: number } | null;
+};
+
+const refSelect = {
+  id: true,
+  title: true,
+  slug: true,
+  shopifyPageId: true,
+  taxonomyId: true,
+  taxonomy: { select: { key: true, isDefault: true } },
+} as const;
+
+// Rows hanging off the category that would otherwise go with it on delete
+const carriedSelect = {
+  rules: true,
+  shopifyTaxonomyId: true,
+  aliases: { select: { term: true } },
+  translations: { select: { locale: true } },
+} as const;
+
+type AttributePlan = {
+  id: string;
+  key: string;
+  label: string;
+  options: string[];
+  action: 'move' | 'merge';
+  into: { id: string; options: string[] } | null;
+  values: number;
+};
+
+/**
+ * What happens to each source attribute. Keys are unique along a path, so one
+ * that already exists on the target or its ancestors takes the source's values;
+ * a type mismatch there, or the key on one of the target's descendants, blocks.
+ */
+async function planAttributes(
+  sourceId: string,
+  targetId: string,
+  sourceSubtree: string[]
+): Promise<{ plan: AttributePlan[]; conflicts: string[] }> {
+  const sourceAttrs = await prisma.categoryAttribute.findMany({
+    where: { categoryId: sourceId },
+    orderBy: { sortOrder: 'asc' },
+    select: { id: true, key: true, label: true, type: true, options: true, _count: { select: { values: true } } },
+  });
+  if (!sourceAttrs.length) return { plan: [], conflicts: [] };
+
+  const related = await prisma.categoryClosure.findMany({
+    where: { OR: [{ descendantId: targetId }, { ancestorId: targetId }] },
+    select: { ancestorId: true, descendantId: true },
+  });
+  const pathIds = new Set(related.filter((r) => r.descendantId === targetId).map((r) => r.ancestorId));
+  const belowIds = related
+    .filter((r) => r.ancestorId === targetId && r.descendantId !== targetId)
+    .map((r) => r.descendantId)
+    .filter((id) => !sourceSubtree.includes(id));
+  const existing = await prisma.categoryAttribute.findMany({
+    where: {
+      key: { in: sourceAttrs.map((a) => a.key) },
+      categoryId: { in: [targetId, ...pathIds, ...belowIds] },
+    },
+    select: { id: true, key: true, type: true, options: true, categoryId: true },
+  });
+
+  const plan: AttributePlan[] = [];
+  const conflicts: string[] = [];
+  for (const a of sourceAttrs) {
+    const clash = existing.find((e) => e.key === a.key);
+    if (clash && clash.categoryId !== targetId && !pathIds.has(clash.categoryId)) {
+      conflicts.push(`attribute "${a.key}" is already defined below the target`);
+    } else if (clash && clash.type !== a.type) {
+      conflicts.push(`attribute "${a.key}" is ${a.type} on the source but ${clash.type} on the target`);
+    } else {
+      plan.push({
+        id: a.id,
+        key: a.key,
+        label: a.label,
+        options: a.options,
+        action: clash ? 'merge' : 'move',
+        into: clash ? { id: clash.id, options: clash.options } : null,
+        values: a._count.values,
+      });
+    }
+  }
+  return { plan, conflicts };
+}
+
+/**
+ * Validates the pair and computes the impact without writing anything.
+ * Returns `{ error, status }` when the merge is not allowed.
+ */
+export async function previewCategoryMerge(
+  sourceId: string,
+  targetId: string,
+  opts: { redirect?: boolean } = {}
+): Promise<MergePreview | { error: string; status: number }> {
+  if (sourceId === targetId) {
+    return { error: 'Cannot merge a category into itself', status: 400 };
+  }
+
+  const [source, target] = await Promise.all([
+    prisma.category.findUnique({ where: { id: sourceId }, select: refSelect }),
+    prisma.category.findUnique({ where: { id: targetId }, select: refSelect }),
+  ]);
+  if (!source || !target) {
+    return { error: 'Source or target not found', status: 404 };
+  }
+  if (source.taxonomyId !== target.taxonomyId) {
+    return { error: 'Source and target belong to different taxonomies', status: 400 };
+  }
+
+  // Children move under the target, so the target must not live inside the source
+  const sourceSubtree = await getDescendantIds(sourceId);
+  if (sourceSubtree.includes(targetId)) {
+    return { error: 'Cannot merge a category into one of its own descendants', status: 400 };
+  }
+
+  const [sourceRow, targetRow] = await Promise.all([
+    prisma.category.findUniqueOrThrow({
+      where: { id: sourceId },
+      select: carriedSelect,
+    }),
+    prisma.category.findUniqueOrThrow({
+      where: { id: targetId },
+      select: carriedSelect,
+    }),
+  ]);
+  const { plan: attributes, conflicts } = await planAttributes(sourceId, targetId, sourceSubtree);
+  if (
+    sourceRow.rules != null &&
+    targetRow.rules != null &&
+    JSON.stringify(sourceRow.rules) !== JSON.stringify(targetRow.rules)
+  ) {
+    conflicts.push('both categories have different auto-assign rules');
+  }
+  if (conflicts.length) {
+    return { error: `Cannot merge: ${conflicts.join('; ')}`, status: 409 };
+  }
+
+  const [sourceLinks, distributorMappings, children, affected] = await Promise.all([
+    prisma.productCategory.findMany({
+      where: { categoryId: sourceId },
+      select: { productGid: true, isPrimary: true },
+    }),
+    prisma.distributorCategory.count({ where: { categoryId: sourceId } }),
+    prisma.category.findMany({
+      where: { parentId: sourceId },
+      orderBy: [{ sortOrder: 'asc' }, { title: 'asc' }],
+      select: { id: true, title: true, slug: true },
+    }),
+    getProductGidsForCategories(sourceSubtree),
+  ]);
+
+  const onTarget = await prisma.productCategory.findMany({
+    where: { categoryId: targetId, productGid: { in: sourceLinks.map((l) => l.productGid) } },
+    select: { productGid: true },
+  });
+  const duplicates = new Set(onTarget.map((l) => l.productGid));
+  const targetTerms = new Set(targetRow.aliases.map((a) => a.term));
+  const targetLocales = new Set(targetRow.translations.map((t) => t.locale));
+  const sourceLocales = sourceRow.translations.map((t) => t.locale);
+  const duplicateAliases = sourceRow.aliases.filter((a) => targetTerms.has(a.term)).length;
+
+  const redirect = opts.redirect ?? true;
+  return {
+    source,
+    target,
+    productLinks: {
+      total: sourceLinks.length,
+      duplicates: duplicates.size,
+      moved: sourceLinks.length - duplicates.size,
+    },
+    distributorMappings,
+    children,
+    primaryLinks: sourceLinks.filter((l) => l.isPrimary && duplicates.has(l.productGid)).length,
+    aliases: { moved: sourceRow.aliases.length - duplicateAliases, duplicates: duplicateAliases },
+    translations: {
+      moved: sourceLocales.filter((l) => !targetLocales.has(l)),
+      kept: sourceLocales.filter((l) => targetLocales.has(l)),
+    },
+    attributes: attributes.map(({ key, label, action, values }) => ({ key, label, action, values })),
+    rules: sourceRow.rules != null && targetRow.rules == null ? 'copy' : 'none',
+    shopifyCategory: !sourceRow.shopifyTaxonomyId
+      ? 'none'
+      : targetRow.shopifyTaxonomyId
+      ? 'target-kept'
+      : 'copy',
+    affectedProducts: affected.length,
+    sampleProductGids: affected.slice(0, 10),
+    shopifyPage: !source.shopifyPageId ? 'none' : redirect ? 'redirect-and-delete' : 'delete',
+  };
+}
+
+/**
+ * Moves links, distributor mappings, children, aliases, translations and
+ * attributes from source to target (see MergePreview), deletes the source,
+ * then cleans up its Shopify page and queues the metafield rebuilds.
+ */
+export async function mergeCategories(
+  sourceId: string,
+  targetId: string,
+  opts: { redirect?: boolean } = {}
+): Promise<MergeResult | { error: string; status: number }> {
+  const preview = await previewCategoryMerge(sourceId, targetId, opts);
+  if ('error' in preview) return preview;
+
+  // Everything under the source gets new ancestor slugs
+  const affectedProducts = await getProductGidsForCategories(await getDescendantIds(sourceId));
+  const [sourceRow, childRows, { plan: attributes }] = await Promise.all([
+    prisma.category.findUniqueOrThrow({
+      where: { id: sourceId },
+      select: { ...snapshotSelect, rules: true, shopifyTaxonomyId: true },
+    }),
+    prisma.category.findMany({ where: { parentId: sourceId }, select: { id: true, ...snapshotSelect } }),
+    planAttributes(sourceId, targetId, await getDescendantIds(sourceId)),
+  ]);
+
+  await prisma.$transaction(async (tx) => {
+    // 1) Product links, deduplicated on [productGid, categoryId]
+    const targetLinks = await tx.productCategory.findMany({
+      where: { categoryId: targetId },
+      select: { productGid: true },
+    });
+    const alreadyOnTarget = targetLinks.map((l) => l.productGid);
+    // A dropped duplicate may have been the product's primary; the target link takes over
+    const primaryOnSource = await tx.productCategory.findMany({
+      where: { categoryId: sourceId, productGid: { in: alreadyOnTarget }, isPrimary: true },
+      select: { productGid: true },
+    });
+    await tx.productCategory.deleteMany({
+      where: { categoryId: sourceId, productGid: { in: alreadyOnTarget } },
+    });
+    await tx.productCategory.updateMany({
+      where: { categoryId: targetId, productGid: { in: primaryOnSource.map((l) => l.productGid) } },
+      data: { isPrimary: true },
+    });
+    await tx.productCategory.updateMany({
+      where: { categoryId: sourceId },
+      data: { categoryId: targetId },
+    });
+
+    // 2) Distributor mappings
+    await tx.distributorCategory.updateMany({
+      where: { categoryId: sourceId },
+      data: { categoryId: targetId },
+    });
+
+    // 3) Children, appended after the target's own children
+    const targetChildren = await tx.category.findMany({
+      where: { parentId: targetId },
+      orderBy: [{ sortOrder: 'asc' }, { title: 'asc' }],
+      select: { id: true },
+    });
+    await tx.category.updateMany({ where: { parentId: sourceId }, data: { parentId: targetId } });
+    for (const c of preview.children) await moveCategoryInClosure(tx, c.id, targetId);
+    await writeSiblingOrder(tx, [
+      ...targetChildren.map((c) => c.id),
+      ...preview.children.map((c) => c.id),
+    ]);
+
+    // 4) Old URLs of the source resolve to the target from now on
+    await tx.categorySlugHistory.updateMany({
+      where: { categoryId: sourceId },
+      data: { categoryId: targetId },
+    });
+    await tx.categorySlugHistory.create({
+      data: { categoryId: targetId, taxonomyId: preview.target.taxonomyId, slug: preview.source.slug },
+    });
+
+    // 5) Aliases and translations; the target's own win on [term] / [locale]
+    const [targetAliases, targetTranslations] = await Promise.all([
+      tx.categoryAlias.findMany({ where: { categoryId: targetId }, select: { term: true } }),
+      tx.categoryTranslation.findMany({ where: { categoryId: targetId }, select: { locale: true } }),
+    ]);
+    await tx.categoryAlias.updateMany({
+      where: { categoryId: sourceId, term: { notIn: targetAliases.map((a) => a.term) } },
+      data: { categoryId: targetId },
+    });
+    await tx.categoryTranslation.updateMany({
+      where: { categoryId: sourceId, locale: { notIn: targetTranslations.map((t) => t.locale) } },
+      data: { categoryId: targetId },
+    });
+
+    // 6) Attributes: move, or fold values into the same-key attribute (products
+    //    that already have a value there keep it)
+    for (const a of attributes) {
+      if (!a.into) {
+        await tx.categoryAttribute.update({ where: { id: a.id }, data: { categoryId: targetId } });
+        continue;
+      }
+      const taken = await tx.productAttributeValue.findMany({
+        where: { attributeId: a.into.id },
+        select: { productGid: true },
+      });
+      await tx.productAttributeValue.updateMany({
+        where: { attributeId: a.id, productGid: { notIn: taken.map((v) => v.productGid) } },
+        data: { attributeId: a.into.id },
+      });
+      const missing = a.options.filter((o) => !a.into!.options.includes(o));
+      if (missing.length) {
+        await tx.categoryAttribute.update({
+          where: { id: a.into.id },
+          data: { options: [...a.into.options, ...missing] },
+        });
+      }
+    }
+
+    // 7) Rules and Shopify category, when the target has none of its own. Raw so the
+    //    target's updatedAt stays put: neither changes its page (see lint staleSync)
+    if (preview.rules === 'copy') {
+      await tx.$executeRaw`
+        UPDATE "Category" SET "rules" = ${JSON.stringify(sourceRow.rules)}::jsonb WHERE "id" = ${targetId}
+      `;
+    }
+    if (preview.shopifyCategory === 'copy') {
+      await tx.$executeRaw`
+        UPDATE "Category" SET "shopifyTaxonomyId" = ${sourceRow.shopifyTaxonomyId} WHERE "id" = ${targetId}
+      `;
+    }
+
+    // 8) The source itself
+    await tx.category.delete({ where: { id: sourceId } });
+  });
+
+  await recordCategoryRevisions([
+    { categoryId: sourceId, action: 'DELETE', before: snapshotOf(sourceRow), after: null },
+    ...childRows.map((r) => ({
+      categoryId: r.id,
+      action: 'UPDATE' as const,
+      before: snapshotOf(r),
+      after: { ...snapshotOf(r), parentId: targetId },
+    })),
+  ]);
+
+  const { source, target } = preview;
+  if (source.shopifyPageId) {
+    if (opts.redirect ?? true) {
+      try {
+        await createShopifyRedirect(
+          `/pages/${pageHandleFor(source.taxonomy, source.slug)}`,
+          `/pages/${pageHandleFor(target.taxonomy, target.slug)}`
+        );
+      } catch (e) {
+        console.error('[category-merge] redirect failed', source.slug, e);
+      }
+    }
+    try {
+      await deleteShopifyPageById(source.shopifyPageId);
+    } catch (e) {
+      console.error('[category-merge] page delete failed', source.slug, e);
+    }
+  }
+
+  // Queued: a populated top-level source can touch thousands of products
+  const metafields = await queueProductRebuild(affectedProducts);
+  return { ...preview, metafields };
+}
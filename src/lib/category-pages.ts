@@ -0,0 +1,347 @@
+// src/lib/category-pages.ts
+// Shopify page sync for categories (one page per category, handle = slug).
+import prisma from '@/lib/prisma';
+import { shopifyAdminGraphQL, shopifyAdminREST } from '@/lib/shopify';
+import { pageHandleFor } from '@/lib/taxonomies';
+import { isCategoryPublic } from '@/lib/categories';
+
+export const SHOPIFY_ENABLED = Boolean(
+  process.env.SHOPIFY_SHOP && process.env.SHOPIFY_ADMIN_TOKEN
+);
+
+interface ShopifyPageShape {
+  id: number | string;
+  handle?: string;
+  title?: string;
+  body_html?: string;
+}
+interface ShopifyCreateUpdateResp {
+  page?: ShopifyPageShape;
+}
+
+export type CategorySeoInput = {
+  seoTitle: string | null;
+  seoDescription: string | null;
+  noindex: boolean;
+};
+
+export type CategoryPageInput = {
+  id: string;
+  title: string;
+  description: string | null;
+  slug: string;
+  shopifyPageId: string | null;
+} & Partial<CategorySeoInput>;
+
+function categoryToShopifyPagePayload(cat: {
+  title: string;
+  description: string | null;
+  handle: string;
+  published: boolean;
+}) {
+  return {
+    page: {
+      title: cat.title,
+      body_html: cat.description ?? '',
+      template_suffix: 'category',
+      handle: cat.handle, // keep Shopify handle in sync with your slug
+      published: cat.published,
+    },
+  };
+}
+
+/** Page handle for a category's (current or given) slug; see pageHandleFor. */
+export async function categoryPageHandle(categoryId: string, slug: string): Promise<string> {
+  const cat = await prisma.category.findUnique({
+    where: { id: categoryId },
+    select: { taxonomy: { select: { key: true, isDefault: true } } },
+  });
+  return cat ? pageHandleFor(cat.taxonomy, slug) : slug;
+}
+
+/**
+ * Upsert the page. When the input carries SEO fields they are pushed as page
+ * metafields too (see setShopifyPageSeo).
+ */
+export async function ensureShopifyPageForCategory(
+  cat: CategoryPageInput
+): Promise<{ id: string | null; handle: string | null }> {
+  if (!SHOPIFY_ENABLED) return { id: null, handle: null };
+
+  // Handle and visibility come from the stored row, so a sync never republishes
+  // a page that is archived or outside its publish window
+  const row = await prisma.category.findUnique({
+    where: { id: cat.id },
+    select: {
+      archivedAt: true,
+      publishAt: true,
+      unpublishAt: true,
+      taxonomy: { select: { key: true, isDefault: true } },
+    },
+  });
+  const payload = categoryToShopifyPagePayload({
+    ...cat,
+    handle: row ? pageHandleFor(row.taxonomy, cat.slug) : cat.slug,
+    published: row ? isCategoryPublic(row) : true,
+  });
+
+  let result: { id: string | null; handle: string | null };
+  if (cat.shopifyPageId) {
+    // Update existing page
+    const resp = await shopifyAdminREST<ShopifyCreateUpdateResp>(
+      `/pages/${encodeURIComponent(cat.shopifyPageId)}.json`,
+      { method: 'PUT', body: JSON.stringify(payload) }
+    );
+    result = {
+      id: resp.page ? String(resp.page.id) : cat.shopifyPageId,
+      handle: resp.page?.handle ?? null,
+    };
+  } else {
+    // Create new page
+    const resp = await shopifyAdminREST<ShopifyCreateUpdateResp>(
+      `/pages.json`,
+      { method: 'POST', body: JSON.stringify(payload) }
+    );
+    result = {
+      id: resp.page ? String(resp.page.id) : null,
+      handle: resp.page?.handle ?? null,
+    };
+  }
+
+  if (result.id && cat.noindex !== undefined) {
+    await setShopifyPageSeo(result.id, {
+      seoTitle: cat.seoTitle ?? null,
+      seoDescription: cat.seoDescription ?? null,
+      noindex: cat.noindex,
+    });
+  }
+  return result;
+}
+
+const SET_METAFIELDS = /* GraphQL */ `
+  mutation SetPageSeo($metafields: [MetafieldsSetInput!]!) {
+    metafieldsSet(metafields: $metafields) {
+      metafields { id namespace key }
+      userErrors { field message }
+    }
+  }
+`;
+
+const DELETE_METAFIELDS = /* GraphQL */ `
+  mutation ClearPageSeo($metafields: [MetafieldIdentifierInput!]!) {
+    metafieldsDelete(metafields: $metafields) {
+      deletedMetafields { key namespace }
+      userErrors { field message }
+    }
+  }
+`;
+
+/** REST ids are numeric; GraphQL hands out GIDs. Accept either. */
+export function pageGid(pageId: string): string {
+  return pageId.startsWith('gid://') ? pageId : `gid://shopify/Page/${pageId}`;
+}
+
+/**
+ * Push SEO overrides to a page: `global.title_tag` and `global.description_tag`
+ * (what themes render as <title>/<meta description>) and `seo.hidden` for
+ * noindex. Empty values delete the metafield so Shopify falls back to defaults.
+ */
+export async function setShopifyPageSeo(pageId: string, seo: CategorySeoInput): Promise<void> {
+  if (!SHOPIFY_ENABLED) return;
+  const ownerId = pageGid(pageId);
+
+  const fields = [
+    { namespace: 'global', key: 'title_tag', type: 'single_line_text_field', value: seo.seoTitle?.trim() || '' },
+    { namespace: 'global', key: 'description_tag', type: 'multi_line_text_field', value: seo.seoDescription?.trim() || '' },
+    { namespace: 'seo', key: 'hidden', type: 'number_integer', value: seo.noindex ? '1' : '' },
+  ];
+  const toSet = fields.filter((f) => f.value !== '').map((f) => ({ ownerId, ...f }));
+  const toDelete = fields
+    .filter((f) => f.value === '')
+    .map((f) => ({ ownerId, namespace: f.namespace, key: f.key }));
+
+  if (toSet.length) {
+    const data = await shopifyAdminGraphQL<{
+      metafieldsSet: { userErrors: Array<{ field?: string[]; message: string }> };
+    }>(SET_METAFIELDS, { metafields: toSet });
+    const errs = data.metafieldsSet?.userErrors || [];
+    if (errs.length) throw new Error(`metafieldsSet userErrors: ${JSON.stringify(errs)}`);
+  }
+  if (toDelete.length) {
+    const data = await shopifyAdminGraphQL<{
+      metafieldsDelete: { userErrors: Array<{ field?: string[]; message: string }> };
+    }>(DELETE_METAFIELDS, { metafields: toDelete });
+    const errs = data.metafieldsDelete?.userErrors || [];
+    if (errs.length) throw new Error(`metafieldsDelete userErrors: ${JSON.stringify(errs)}`);
+  }
+}
+
+export async function deleteShopifyPageById(pageId: string): Promise<void> {
+  if (!SHOPIFY_ENABLED) return;
+  await shopifyAdminREST<void>(`/pages/${encodeURIComponent(pageId)}.json`, {
+    method: 'DELETE',
+  });
+}
+
+/** Publish or unpublish a page without touching its content. */
+export async function setShopifyPagePublished(pageId: string, published: boolean): Promise<void> {
+  if (!SHOPIFY_ENABLED) return;
+  await shopifyAdminREST<ShopifyCreateUpdateResp>(`/pages/${encodeURIComponent(pageId)}.json`, {
+    method: 'PUT',
+    body: JSON.stringify({ page: { id: pageId, published } }),
+  });
+}
+
+export type PageTranslationInput = {
+  locale: string;
+  title: string | null;
+  description: string | null;
+  seoTitle: string | null;
+  seoDescription: string | null;
+};
+
+// Shopify's translatable keys on a page → our translation fields
+const PAGE_TRANSLATION_KEYS = {
+  title: 'title',
+  body_html: 'description',
+  meta_title: 'seoTitle',
+  meta_description: 'seoDescription',
+} as const;
+
+const TRANSLATABLE_CONTENT = /* GraphQL */ `
+  query PageTranslatable($id: ID!) {
+    translatableResource(resourceId: $id) {
+      translatableContent { key digest }
+    }
+  }
+`;
+
+const REGISTER_TRANSLATIONS = /* GraphQL */ `
+  mutation RegisterPageTranslations($id: ID!, $translations: [TranslationInput!]!) {
+    translationsRegister(resourceId: $id, translations: $translations) {
+      userErrors { field message }
+    }
+  }
+`;
+
+const REMOVE_TRANSLATIONS = /* GraphQL */ `
+  mutation RemovePageTranslations($id: ID!, $keys: [String!]!, $locales: [String!]!) {
+    translationsRemove(resourceId: $id, translationKeys: $keys, locales: $locales) {
+      userErrors { field message }
+    }
+  }
+`;
+
+/**
+ * Register per-locale page text with Shopify's translations API. Translations
+ * are tied to the digest of the current source text, so call this after every
+ * page upsert. Fields left empty are removed so the default language shows.
+ */
+export async function registerShopifyPageTranslations(
+  pageId: string,
+  translations: PageTranslationInput[]
+): Promise<void> {
+  if (!SHOPIFY_ENABLED || !translations.length) return;
+  const id = pageGid(pageId);
+
+  const data = await shopifyAdminGraphQL<{
+    translatableResource: { translatableContent: Array<{ key: string; digest: string | null }> } | null;
+  }>(TRANSLATABLE_CONTENT, { id });
+  const digests = new Map(
+    (data.translatableResource?.translatableContent ?? []).map((c) => [c.key, c.digest])
+  );
+
+  for (const t of translations) {
+    const register: Array<{ locale: string; key: string; value: string; translatableContentDigest: string }> = [];
+    const remove: string[] = [];
+    for (const [key, field] of Object.entries(PAGE_TRANSLATION_KEYS)) {
+      const digest = digests.get(key);
+      if (!digest) continue; // source field empty on the page: nothing to translate
+      const value = t[field]?.trim();
+      if (value) register.push({ locale: t.locale, key, value, translatableContentDigest: digest });
+      else remove.push(key);
+    }
+
+    if (register.length) {
+      const res = await shopifyAdminGraphQL<{
+        translationsRegister: { userErrors: Array<{ field?: string[]; message: string }> };
+      }>(REGISTER_TRANSLATIONS, { id, translations: register });
+      const errs = res.translationsRegister?.userErrors || [];
+      if (errs.length) throw new Error(`translationsRegister userErrors: ${JSON.stringify(errs)}`);
+    }
+    if (remove.length) {
+      await removeShopifyPageTranslations(pageId, [t.locale], remove);
+    }
+  }
+}
+
+export async function removeShopifyPageTranslations(
+  pageId: string,
+  locales: string[],
+  keys: string[] = Object.keys(PAGE_TRANSLATION_KEYS)
+): Promise<void> {
+  if (!SHOPIFY_ENABLED || !locales.length) return;
+  const res = await shopifyAdminGraphQL<{
+    translationsRemove: { userErrors: Array<{ field?: string[]; message: string }> };
+  }>(REMOVE_TRANSLATIONS, { id: pageGid(pageId), keys, locales });
+  const errs = res.translationsRemove?.userErrors || [];
+  if (errs.length) throw new Error(`translationsRemove userErrors: ${JSON.stringify(errs)}`);
+}
+
+/**
+ * Upsert the Shopify page for one category and persist the page id/handle,
+ * then re-register its translations against the fresh source text.
+ * Errors are logged, not thrown: a failed page sync never fails the DB edit.
+ */
+export async function syncCategoryPage(categoryId: string): Promise<boolean> {
+  if (!SHOPIFY_ENABLED) return false;
+
+  const cat = await prisma.category.findUnique({
+    where: { id: categoryId },
+    select: {
+      id: true,
+      title: true,
+      description: true,
+      slug: true,
+      shopifyPageId: true,
+      seoTitle: true,
+      seoDescription: true,
+      noindex: true,
+      translations: {
+        select: { locale: true, title: true, description: true, seoTitle: true, seoDescription: true },
+      },
+    },
+  });
+  if (!cat) return false;
+
+  try {
+    const res = await ensureShopifyPageForCategory(cat);
+    if (res.id || res.handle) {
+      await prisma.category.update({
+        where: { id: cat.id },
+        data: {
+          shopifyPageId: res.id,
+          shopifyHandle: res.handle,
+          lastSyncedAt: new Date(),
+        },
+      });
+    }
+    if (res.id) await registerShopifyPageTranslations(res.id, cat.translations);
+    return true;
+  } catch (e) {
+    console.error('[category-pages] sync failed', cat.slug, e);
+    return false;
+  }
+}
+
+/**
+ * Create a storefront URL redirect (e.g. `/pages/old` → `/pages/new`).
+ * Shopify rejects a duplicate `path`, so callers should treat failure as soft.
+ */
+export async function createShopifyRedirect(path: string, target: string): Promise<void> {
+  if (!SHOPIFY_ENABLED) return;
+  await shopifyAdminREST<unknown>(`/redirects.json`, {
+    method: 'POST',
+    body: JSON.stringify({ redirect: { path, target } }),
+  });
+}
@@ -0,0 +1,93 @@
+// src/lib/category-revisions.ts
+// Field-level revision log for categories (who changed what, and when).
+import prisma from '@/lib/prisma';
+import { auth } from '@/auth';
+import type { CategoryRevisionAction } from '@prisma/client';
+
+export const TRACKED_FIELDS = ['title', 'slug', 'description', 'image', 'parentId'] as const;
+
+export type TrackedField = (typeof TRACKED_FIELDS)[number];
+export type CategorySnapshot = { [K in TrackedField]: string | null };
+export type CategoryDiff = Partial<Record<TrackedField, { from: string | null; to: string | null }>>;
+
+/** Prisma `select` for everything a snapshot needs. */
+export const snapshotSelect = {
+  title: true,
+  slug: true,
+  description: true,
+  image: true,
+  parentId: true,
+} as const;
+
+export function snapshotOf(row: CategorySnapshot): CategorySnapshot {
+  return {
+    title: row.title,
+    slug: row.slug,
+    description: row.description ?? null,
+    image: row.image ?? null,
+    parentId: row.parentId ?? null,
+  };
+}
+
+export function diffSnapshots(
+  before: CategorySnapshot | null,
+  after: CategorySnapshot | null
+): CategoryDiff {
+  const diff: CategoryDiff = {};
+  for (const f of TRACKED_FIELDS) {
+    const from = before ? before[f] : null;
+    const to = after ? after[f] : null;
+    if (from !== to) diff[f] = { from, to };
+  }
+  return diff;
+}
+
+/** Email of the signed-in admin, or null outside a request/session. */
+export async function currentActor(): Promise<string | null> {
+  try {
+    const session = await auth();
+    return session?.user?.email ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export type RevisionEntry = {
+  categoryId: string;
+  action: CategoryRevisionAction;
+  before: CategorySnapshot | null;
+  after: CategorySnapshot | null;
+  revertOfId?: string;
+};
+
+/**
+ * Persist revisions. UPDATEs that changed no tracked field are skipped.
+ * Never throws: a failed audit write must not fail the edit itself.
+ */
+export async function recordCategoryRevisions(
+  entries: RevisionEntry[],
+  actor?: string | null
+): Promise<void> {
+  try {
+    const who = actor === undefined ? await currentActor() : actor;
+    const data = entries
+      .map((e) => ({ e, diff: diffSnapshots(e.before, e.after) }))
+      .filter(({ e, diff }) => e.action !== 'UPDATE' || Object.keys(diff).length > 0)
+      .map(({ e, diff }) => ({
+        categoryId: e.categoryId,
+        action: e.action,
+        actor: who,
+        // DELETE keeps the last known state so the trail still shows what was removed
+        snapshot: (e.after ?? e.before ?? {}) as object,
+        diff: diff as object,
+        revertOfId: e.revertOfId ?? null,
+      }));
+    if (data.length) await prisma.categoryRevision.createMany({ data });
+  } catch (e) {
+    console.error('[category-revisions] record failed', e);
+  }
+}
+
+export async function recordCategoryRevision(entry: RevisionEntry, actor?: string | null) {
+  return recordCategoryRevisions([entry], actor);
+}
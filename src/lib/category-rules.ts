@@ -0,0 +1,229 @@
+// src/lib/category-rules.ts
+// Smart categories: a rule set on a category decides which products it gets.
+// Rule-generated links carry source RULE; MANUAL links are never added or removed here.
+import prisma from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { shopifyAdminGraphQL } from '@/lib/shopify';
+import { queueProductRebuild } from '@/lib/product-category-jobs';
+
+export const RULE_FIELDS = ['title', 'vendor', 'productType', 'tag', 'fitmentMake', 'fitmentModel', 'fitmentYear'] as const;
+export const RULE_OPS = ['equals', 'notEquals', 'contains', 'notContains', 'startsWith'] as const;
+
+export type RuleField = (typeof RULE_FIELDS)[number];
+export type RuleOp = (typeof RULE_OPS)[number];
+export type RuleCondition = { field: RuleField; op: RuleOp; value: string };
+export type RuleSet = { match: 'all' | 'any'; conditions: RuleCondition[] };
+
+export type RuleProduct = {
+  id: string;
+  title: string;
+  vendor: string;
+  productType: string;
+  tags: string[];
+  fitments: Array<{ make: string; model: string; yearFrom: number | null; yearTo: number | null }>;
+};
+
+/** Validate untrusted input. Returns the normalized rule set or an error message. */
+export function parseRuleSet(raw: unknown): RuleSet | string {
+  if (!raw || typeof raw !== 'object') return 'Rules must be an object';
+  const r = raw as { match?: unknown; conditions?: unknown };
+  if (r.match !== 'all' && r.match !== 'any') return 'match must be "all" or "any"';
+  if (!Array.isArray(r.conditions) || !r.conditions.length) return 'At least one condition is required';
+
+  const conditions: RuleCondition[] = [];
+  for (const [i, c] of (r.conditions as Array<Partial<RuleCondition>>).entries()) {
+    if (!c || !RULE_FIELDS.includes(c.field as RuleField)) return `Condition ${i + 1}: unknown field`;
+    if (!RULE_OPS.includes(c.op as RuleOp)) return `Condition ${i + 1}: unknown operator`;
+    const value = String(c.value ?? '').trim();
+    if (!value) return `Condition ${i + 1}: value is required`;
+    if (c.field === 'fitmentYear' && !/^\d{4}$/.test(value)) return `Condition ${i + 1}: year must be YYYY`;
+    conditions.push({ field: c.field as RuleField, op: c.op as RuleOp, value });
+  }
+  return { match: r.match, conditions };
+}
+
+function matchString(candidate: string, op: RuleOp, value: string): boolean {
+  const a = candidate.toLowerCase();
+  const b = value.toLowerCase();
+  switch (op) {
+    case 'equals':
+      return a === b;
+    case 'notEquals':
+      return a !== b;
+    case 'contains':
+      return a.includes(b);
+    case 'notContains':
+      return !a.includes(b);
+    case 'startsWith':
+      return a.startsWith(b);
+  }
+}
+
+// Multi-valued fields (tags, fitments): positive ops need one match, negative ops need none.
+function matchAny(candidates: string[], op: RuleOp, value: string): boolean {
+  if (op === 'notEquals' || op === 'notContains') {
+    const positive = op === 'notEquals' ? 'equals' : 'contains';
+    return !candidates.some((c) => matchString(c, positive, value));
+  }
+  return candidates.some((c) => matchString(c, op, value));
+}
+
+export function matchesCondition(p: RuleProduct, c: RuleCondition): boolean {
+  switch (c.field) {
+    case 'title':
+    case 'vendor':
+    case 'productType':
+      return matchString(p[c.field] ?? '', c.op, c.value);
+    case 'tag':
+      return matchAny(p.tags, c.op, c.value);
+    case 'fitmentMake':
+      return matchAny(p.fitments.map((f) => f.make), c.op, c.value);
+    case 'fitmentModel':
+      return matchAny(p.fitments.map((f) => f.model), c.op, c.value);
+    case 'fitmentYear': {
+      const y = Number(c.value);
+      const fits = p.fitments.some(
+        (f) => (f.yearFrom === null || f.yearFrom <= y) && (f.yearTo === null || f.yearTo >= y)
+      );
+      return c.op === 'notEquals' || c.op === 'notContains' ? !fits : fits;
+    }
+  }
+}
+
+export function matchesRuleSet(p: RuleProduct, rules: RuleSet): boolean {
+  return rules.match === 'all'
+    ? rules.conditions.every((c) => matchesCondition(p, c))
+    : rules.conditions.some((c) => matchesCondition(p, c));
+}
+
+/* =========================
+   Product source
+========================= */
+
+const PRODUCTS_PAGE = /* GraphQL */ `
+  query RuleProducts($first: Int!, $after: String) {
+    products(first: $first, after: $after) {
+      pageInfo { hasNextPage endCursor }
+      edges { node { id title vendor productType tags } }
+    }
+  }
+`;
+
+type ProductsPage = {
+  products: {
+    pageInfo: { hasNextPage: boolean; endCursor: string | null };
+    edges: Array<{ node: { id: string; title: string; vendor: string; productType: string; tags: string[] } }>;
+  };
+};
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+/** Every store product with the fields rules can look at, plus its fitments from our DB. */
+export async function loadRuleProducts(): Promise<RuleProduct[]> {
+  const nodes: ProductsPage['products']['edges'][number]['node'][] = [];
+  let after: string | null = null;
+  do {
+    const page: ProductsPage = await shopifyAdminGraphQL<ProductsPage>(PRODUCTS_PAGE, { first: 250, after });
+    nodes.push(...page.products.edges.map((e) => e.node));
+    after = page.products.pageInfo.hasNextPage ? page.products.pageInfo.endCursor : null;
+    if (after) await sleep(250);
+  } while (after);
+
+  const fitments = await prisma.productFitment.findMany({
+    select: { productGid: true, make: true, model: true, yearFrom: true, yearTo: true },
+  });
+  const byProduct = new Map<string, RuleProduct['fitments']>();
+  for (const f of fitments) {
+    if (!byProduct.has(f.productGid)) byProduct.set(f.productGid, []);
+    byProduct.get(f.productGid)!.push(f);
+  }
+
+  return nodes.map((n) => ({ ...n, tags: n.tags ?? [], fitments: byProduct.get(n.id) ?? [] }));
+}
+
+/* =========================
+   Evaluation
+========================= */
+
+export type RuleEvaluation = {
+  categoryId: string;
+  slug: string;
+  matched: number;
+  added: string[];
+  removed: string[];
+  skippedManual: number; // matched, but a manual link already exists
+};
+
+/**
+ * Re-evaluate rule categories (all of them, or `categoryIds`): add RULE links
+ * for matching products, drop RULE links that no longer match, and queue a
+ * metafield rebuild for every product whose links changed.
+ * Categories whose rules were cleared lose all their RULE links.
+ */
+export async function evaluateCategoryRules(opts: { categoryIds?: string[]; dryRun?: boolean } = {}) {
+  // Categories with rules, plus ones still holding RULE links (rules cleared since)
+  const where: Prisma.CategoryWhereInput = {
+    archivedAt: null,
+    OR: [{ rules: { not: Prisma.DbNull } }, { products: { some: { source: 'RULE' } } }],
+  };
+  if (opts.categoryIds?.length) where.id = { in: opts.categoryIds };
+  const categories = await prisma.category.findMany({
+    where,
+    select: { id: true, slug: true, rules: true },
+  });
+
+  const withRules = categories.filter((c) => c.rules !== null);
+  const products = withRules.length ? await loadRuleProducts() : [];
+
+  const results: RuleEvaluation[] = [];
+  const changed = new Set<string>();
+
+  for (const cat of categories) {
+    const rules = cat.rules === null ? null : parseRuleSet(cat.rules);
+    if (typeof rules === 'string') {
+      console.error('[category-rules] invalid stored rules, skipping', cat.slug, rules);
+      continue;
+    }
+
+    const links = await prisma.productCategory.findMany({
+      where: { categoryId: cat.id },
+      select: { productGid: true, source: true },
+    });
+    const manual = new Set(links.filter((l) => l.source === 'MANUAL').map((l) => l.productGid));
+    const ruleLinked = new Set(links.filter((l) => l.source === 'RULE').map((l) => l.productGid));
+
+    const matching = rules ? products.filter((p) => matchesRuleSet(p, rules)).map((p) => p.id) : [];
+    const matchSet = new Set(matching);
+
+    const added = matching.filter((g) => !manual.has(g) && !ruleLinked.has(g));
+    const removed = [...ruleLinked].filter((g) => !matchSet.has(g));
+    if (!rules && !removed.length) continue; // plain category, nothing rule-owned
+
+    results.push({
+      categoryId: cat.id,
+      slug: cat.slug,
+      matched: matching.length,
+      added,
+      removed,
+      skippedManual: matching.filter((g) => manual.has(g)).length,
+    });
+
+    if (opts.dryRun || (!added.length && !removed.length)) continue;
+
+    await prisma.$transaction([
+      prisma.productCategory.createMany({
+        data: added.map((productGid) => ({ productGid, categoryId: cat.id, source: 'RULE' as const })),
+        skipDuplicates: true,
+      }),
+      prisma.productCategory.deleteMany({
+        where: { categoryId: cat.id, source: 'RULE', productGid: { in: removed } },
+      }),
+    ]);
+    for (const g of [...added, ...removed]) changed.add(g);
+  }
+
+  const metafields = opts.dryRun ? null : await queueProductRebuild([...changed]);
+  return { dryRun: Boolean(opts.dryRun), productsScanned: products.length, results, metafields };
+}
@@ -0,0 +1,151 @@
+// src/lib/category-schedule.ts
+// Publish windows: a category is public from publishAt until unpublishAt (either may be open).
+// /api/public/* checks the window per request (publicCategoryWhere); Shopify pages
+// are flipped by runCategorySchedules, which an external cron calls every few minutes.
+import prisma from '@/lib/prisma';
+import { isCategoryPublic } from '@/lib/categories';
+import { setShopifyPagePublished } from '@/lib/category-pages';
+
+/** Parse an optional ISO timestamp from a request body. `undefined` = not given. */
+export function parseScheduleDate(raw: unknown): Date | null | undefined | string {
+  if (raw === undefined) return undefined;
+  if (raw === null || raw === '') return null;
+  const d = new Date(String(raw));
+  return Number.isNaN(d.getTime()) ? `Invalid date: ${String(raw)}` : d;
+}
+
+/** Returns an error message, or null when the window is acceptable. */
+export function validateSchedule(publishAt: Date | null, unpublishAt: Date | null): string | null {
+  if (publishAt && unpublishAt && unpublishAt <= publishAt) return 'Unpublish time must be after publish time';
+  return null;
+}
+
+type ScheduleRow = {
+  id: string;
+  slug: string;
+  shopifyPageId: string | null;
+  archivedAt: Date | null;
+  publishAt: Date | null;
+  unpublishAt: Date | null;
+};
+
+const scheduleSelect = {
+  id: true,
+  slug: true,
+  shopifyPageId: true,
+  archivedAt: true,
+  publishAt: true,
+  unpublishAt: true,
+} as const;
+
+export type ScheduleRunResult = {
+  checkedAt: Date;
+  published: string[]; // slugs
+  unpublished: string[];
+  failed: Array<{ slug: string; error: string }>;
+};
+
+// Timestamps for raw statements: DateTime columns hold UTC without a zone
+const utc = (d: Date | null) => d?.toISOString() ?? null;
+
+// Push each row's current state to its page and remember when that happened.
+// Failed rows keep their old scheduleAppliedAt, so the next run retries them.
+// Raw writes here leave `updatedAt` alone: schedule bookkeeping is not an edit,
+// and lint's staleSync check compares updatedAt with lastSyncedAt.
+async function applyScheduleState(rows: ScheduleRow[], now: Date): Promise<ScheduleRunResult> {
+  const result: ScheduleRunResult = { checkedAt: now, published: [], unpublished: [], failed: [] };
+  for (const r of rows) {
+    const live = isCategoryPublic(r, now);
+    if (r.shopifyPageId) {
+      try {
+        await setShopifyPagePublished(r.shopifyPageId, live);
+      } catch (e) {
+        console.error('[category-schedule] page toggle failed', r.slug, e);
+        result.failed.push({ slug: r.slug, error: e instanceof Error ? e.message : String(e) });
+        continue;
+      }
+    }
+    await prisma.$executeRaw`
+      UPDATE "Category"
+      SET "scheduleAppliedAt" = ${utc(now)}::timestamptz AT TIME ZONE 'UTC'
+      WHERE "id" = ${r.id}
+    `;
+    (live ? result.published : result.unpublished).push(r.slug);
+  }
+  return result;
+}
+
+/**
+ * Apply every publish/unpublish time that has passed since it was last applied.
+ * When both passed between runs the page ends up in the current state.
+ */
+export async function runCategorySchedules(now = new Date()): Promise<ScheduleRunResult> {
+  const rows = await prisma.category.findMany({
+    where: { archivedAt: null, OR: [{ publishAt: { lte: now } }, { unpublishAt: { lte: now } }] },
+    select: { ...scheduleSelect, scheduleAppliedAt: true },
+  });
+  const due = rows.filter((r) =>
+    [r.publishAt, r.unpublishAt].some(
+      (t) => t && t <= now && (!r.scheduleAppliedAt || t > r.scheduleAppliedAt)
+    )
+  );
+  return applyScheduleState(due, now);
+}
+
+/**
+ * Set (or clear, with null) a category's window and bring its page in line
+ * right away, e.g. unpublish it now when the window starts in the future.
+ */
+export async function setCategorySchedule(
+  categoryId: string,
+  window: { publishAt: Date | null; unpublishAt: Date | null }
+) {
+  await prisma.$executeRaw`
+    UPDATE "Category"
+    SET "publishAt" = ${utc(window.publishAt)}::timestamptz AT TIME ZONE 'UTC',
+        "unpublishAt" = ${utc(window.unpublishAt)}::timestamptz AT TIME ZONE 'UTC',
+        "scheduleAppliedAt" = NULL
+    WHERE "id" = ${categoryId}
+  `;
+  const row = await prisma.category.findUniqueOrThrow({ where: { id: categoryId }, select: scheduleSelect });
+  const applied = row.archivedAt ? null : await applyScheduleState([row], new Date());
+  return { publishAt: row.publishAt, unpublishAt: row.unpublishAt, live: isCategoryPublic(row), applied };
+}
+
+export type UpcomingSchedule = {
+  id: string;
+  title: string;
+  slug: string;
+  taxonomy: string;
+  publishAt: Date | null;
+  unpublishAt: Date | null;
+  live: boolean;
+  next: { action: 'publish' | 'unpublish'; at: Date };
+};
+
+/** Non-archived categories with a publish or unpublish time still ahead, soonest first. */
+export async function listUpcomingSchedules(now = new Date()): Promise<UpcomingSchedule[]> {
+  const rows = await prisma.category.findMany({
+    where: { archivedAt: null, OR: [{ publishAt: { gt: now } }, { unpublishAt: { gt: now } }] },
+    select: { ...scheduleSelect, title: true, taxonomy: { select: { key: true } } },
+  });
+  return rows
+    .map((r) => {
+      // Windows are validated to end after they start, so a pending publish always comes first
+      const next: UpcomingSchedule['next'] =
+        r.publishAt && r.publishAt > now
+          ? { action: 'publish', at: r.publishAt }
+          : { action: 'unpublish', at: r.unpublishAt! };
+      return {
+        id: r.id,
+        title: r.title,
+        slug: r.slug,
+        taxonomy: r.taxonomy.key,
+        publishAt: r.publishAt,
+        unpublishAt: r.unpublishAt,
+        live: isCategoryPublic(r, now),
+        next,
+      };
+    })
+    .sort((a, b) => a.next.at.getTime() - b.next.at.getTime());
+}
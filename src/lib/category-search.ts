@@ -0,0 +1,183 @@
+// src/lib/category-search.ts
+// Typeahead search over category titles, aliases and breadcrumb paths.
+// Trigram (pg_trgm) indexes on Category.title and CategoryAlias.term find the
+// seed matches; ranking happens here, over the seeds and their subtrees.
+import prisma from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { publicCategoryWhere } from '@/lib/categories';
+
+export const MAX_ALIAS_LENGTH = 100;
+
+/** Trimmed, lowercased, single-spaced, de-duplicated; empty entries dropped. */
+export function normalizeAliases(raw: string[]): string[] {
+  const out = raw.map((a) => a.trim().toLowerCase().replace(/\s+/g, ' ')).filter(Boolean);
+  return Array.from(new Set(out));
+}
+
+export function tokenize(q: string): string[] {
+  return Array.from(new Set(q.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean))).slice(0, 8);
+}
+
+function likePattern(token: string): string {
+  return `%${token.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+}
+
+type Seed = { id: string; sim: number };
+
+// Categories whose own title or one of whose aliases matches a token (substring) or the
+// whole query (fuzzy word similarity, catches typos). Both branches use the GIN indexes.
+async function findSeeds(query: string, tokens: string[]): Promise<Seed[]> {
+  const titleLike = Prisma.join(tokens.map((t) => Prisma.sql`c."title" ILIKE ${likePattern(t)}`), ' OR ');
+  const aliasLike = Prisma.join(tokens.map((t) => Prisma.sql`a."term" ILIKE ${likePattern(t)}`), ' OR ');
+  return prisma.$queryRaw<Seed[]>`
+    SELECT "id", MAX("sim")::float8 AS "sim" FROM (
+      SELECT c."id", word_similarity(${query}, c."title") AS "sim"
+      FROM "Category" c
+      WHERE ${titleLike} OR ${query} <% c."title"
+      UNION ALL
+      SELECT a."categoryId", word_similarity(${query}, a."term")
+      FROM "CategoryAlias" a
+      WHERE ${aliasLike} OR ${query} <% a."term"
+    ) s
+    GROUP BY "id"
+  `;
+}
+
+type MatchKind = 'title' | 'alias' | 'path';
+
+// How well one token matches a text: whole word > word prefix > substring
+function tokenScore(token: string, text: string): number {
+  const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u);
+  if (words.includes(token)) return 1;
+  if (words.some((w) => w.startsWith(token))) return 0.8;
+  if (text.toLowerCase().includes(token)) return 0.5;
+  return 0;
+}
+
+export type CategorySearchResult = {
+  id: string;
+  title: string;
+  slug: string;
+  image: string | null;
+  path: Array<{ title: string; slug: string }>; // root first, ending with the category itself
+  breadcrumb: string;
+  matchedOn: MatchKind;
+  alias: string | null; // the alias that matched, if one did
+  score: number;
+};
+
+/**
+ * Rank public categories for a typeahead query. Every token must match the
+ * title, an alias or an ancestor title; a category whose title is not a
+ * match but that sits under a matching parent is a path match.
+ * Typo tolerance comes from trigram similarity against the whole query.
+ */
+export async function searchCategories(
+  query: string,
+  limit = 10,
+  taxonomyId?: string
+): Promise<CategorySearchResult[]> {
+  const q = query.trim().toLowerCase();
+  const tokens = tokenize(q);
+  if (!tokens.length) return [];
+
+  const seeds = await findSeeds(q, tokens);
+  if (!seeds.length) return [];
+  const fuzzy = new Map(seeds.map((s) => [s.id, s.sim]));
+
+  // Path matches: everything below a seed
+  const below = await prisma.categoryClosure.findMany({
+    where: { ancestorId: { in: seeds.map((s) => s.id) } },
+    select: { descendantId: true },
+  });
+  const candidateIds = Array.from(new Set([...seeds.map((s) => s.id), ...below.map((b) => b.descendantId)]));
+
+  const [rows, chains] = await Promise.all([
+    prisma.category.findMany({
+      where: { ...publicCategoryWhere(), id: { in: candidateIds }, ...(taxonomyId ? { taxonomyId } : {}) },
+      select: { id: true, title: true, slug: true, image: true, aliases: { select: { term: true } } },
+    }),
+    prisma.categoryClosure.findMany({
+      where: { descendantId: { in: candidateIds } },
+      orderBy: { depth: 'desc' },
+      select: { descendantId: true, ancestor: { select: { title: true, slug: true } } },
+    }),
+  ]);
+
+  const pathOf = new Map<string, Array<{ title: string; slug: string }>>();
+  for (const c of chains) {
+    if (!pathOf.has(c.descendantId)) pathOf.set(c.descendantId, []);
+    pathOf.get(c.descendantId)!.push(c.ancestor);
+  }
+
+  const results: CategorySearchResult[] = [];
+  for (const r of rows) {
+    const path = pathOf.get(r.id) ?? [{ title: r.title, slug: r.slug }];
+    const ancestorTitles = path.slice(0, -1).map((p) => p.title).join(' ');
+    const aliases = r.aliases.map((a) => a.term);
+
+    let score = 0;
+    const won = new Set<MatchKind>();
+    let aliasHit: string | null = null;
+    let complete = true;
+    for (const t of tokens) {
+      const inTitle = tokenScore(t, r.title) * 3;
+      let inAlias = 0;
+      let alias: string | null = null;
+      for (const a of aliases) {
+        const s = tokenScore(t, a) * 2.5;
+        if (s > inAlias) {
+          inAlias = s;
+          alias = a;
+        }
+      }
+      const inPath = tokenScore(t, ancestorTitles);
+      const best = Math.max(inTitle, inAlias, inPath);
+      if (!best) {
+        complete = false;
+        break;
+      }
+      if (best === inTitle) {
+        won.add('title');
+      } else if (best === inAlias) {
+        won.add('alias');
+        aliasHit = alias;
+      } else {
+        won.add('path');
+      }
+      score += best;
+    }
+
+    // A token missing everywhere is fine only for a fuzzy (typo) hit on this very category
+    const sim = fuzzy.get(r.id) ?? 0;
+    if (!complete) {
+      if (sim < 0.5) continue;
+      score = sim * 3 * tokens.length;
+      won.clear();
+      aliasHit = null;
+    }
+
+    const title = r.title.toLowerCase();
+    if (title === q || aliases.includes(q)) score += 5;
+    else if (title.startsWith(q)) score += 2;
+    score -= (path.length - 1) * 0.1; // prefer broader categories on ties
+
+    // Weakest field that was needed for a match
+    const matchedOn: MatchKind = won.has('path') ? 'path' : won.has('alias') ? 'alias' : 'title';
+    results.push({
+      id: r.id,
+      title: r.title,
+      slug: r.slug,
+      image: r.image,
+      path,
+      breadcrumb: path.map((p) => p.title).join(' > '),
+      matchedOn,
+      alias: aliasHit,
+      score: Math.round(score * 100) / 100,
+    });
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.path.length - b.path.length || a.title.localeCompare(b.title))
+    .slice(0, limit);
+}
@@ -0,0 +1,88 @@
+// src/lib/category-slugs.ts
+// Slug history: old slugs keep resolving, and renamed pages get URL redirects.
+import prisma from '@/lib/prisma';
+import type { Prisma } from '@prisma/client';
+import { getDescendantIds, getProductGidsForCategories } from '@/lib/categories';
+import { categoryPageHandle, createShopifyRedirect } from '@/lib/category-pages';
+import { queueProductRebuild } from '@/lib/product-category-jobs';
+
+export type ResolvedCategory = { id: string; slug: string };
+
+/**
+ * Resolve slugs to categories, falling back to slug history for renamed ones.
+ * Keys of the returned map are the requested slugs; unknown slugs are absent.
+ * `where` narrows the categories that may match (e.g. publicCategoryWhere()).
+ */
+export async function resolveCategorySlugs(
+  slugs: string[],
+  where: Prisma.CategoryWhereInput = {}
+): Promise<Map<string, ResolvedCategory>> {
+  const out = new Map<string, ResolvedCategory>();
+  if (!slugs.length) return out;
+
+  const live = await prisma.category.findMany({
+    where: { ...where, slug: { in: slugs } },
+    select: { id: true, slug: true },
+  });
+  for (const c of live) out.set(c.slug, c);
+
+  const missing = slugs.filter((s) => !out.has(s));
+  if (missing.length) {
+    const old = await prisma.categorySlugHistory.findMany({
+      where: { slug: { in: missing }, category: where },
+      select: { slug: true, category: { select: { id: true, slug: true } } },
+    });
+    for (const h of old) out.set(h.slug, h.category);
+  }
+  return out;
+}
+
+export async function resolveCategorySlug(
+  slug: string,
+  where: Prisma.CategoryWhereInput = {}
+): Promise<ResolvedCategory | null> {
+  const map = await resolveCategorySlugs([slug], where);
+  return map.get(slug) ?? null;
+}
+
+/**
+ * Bookkeeping after a category's slug changed from `oldSlug` to `newSlug`:
+ * remember the old slug, redirect its page URL, and queue a metafield rebuild for
+ * every product under the category (their ancestor slug lists changed).
+ */
+export async function handleCategorySlugChange(
+  categoryId: string,
+  oldSlug: string,
+  newSlug: string,
+  opts: { hadPage: boolean }
+) {
+  if (oldSlug === newSlug) return null;
+
+  const { taxonomyId } = await prisma.category.findUniqueOrThrow({
+    where: { id: categoryId },
+    select: { taxonomyId: true },
+  });
+  await prisma.$transaction([
+    // The new slug is live again; it must not also resolve through history
+    prisma.categorySlugHistory.deleteMany({ where: { taxonomyId, slug: newSlug } }),
+    prisma.categorySlugHistory.upsert({
+      where: { taxonomyId_slug: { taxonomyId, slug: oldSlug } },
+      create: { categoryId, taxonomyId, slug: oldSlug },
+      update: { categoryId },
+    }),
+  ]);
+
+  if (opts.hadPage) {
+    try {
+      await createShopifyRedirect(
+        `/pages/${await categoryPageHandle(categoryId, oldSlug)}`,
+        `/pages/${await categoryPageHandle(categoryId, newSlug)}`
+      );
+    } catch (e) {
+      console.error('[category-slugs] redirect failed', oldSlug, '→', newSlug, e);
+    }
+  }
+
+  const productGids = await getProductGidsForCategories(await getDescendantIds(categoryId));
+  return queueProductRebuild(productGids);
+}
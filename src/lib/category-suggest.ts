@@ -0,0 +1,187 @@
+// src/lib/category-suggest.ts
+// Category suggestions from a naive Bayes text classifier trained in-process on
+// the existing product ↔ category links. Features are the product's title words,
+// vendor, product type and tags. The model lives in memory and is retrained
+// when it gets old (or on demand); nothing is persisted.
+import prisma from '@/lib/prisma';
+import { shopifyAdminGraphQL } from '@/lib/shopify';
+import { loadRuleProducts } from '@/lib/category-rules';
+
+const MODEL_TTL_MS = 6 * 60 * 60 * 1000;
+
+const STOPWORDS = new Set(['and', 'the', 'for', 'with', 'of', 'to', 'in', 'on', 'by', 'kit', 'set', 'new']);
+
+export type ProductText = { title: string; vendor: string; productType: string; tags: string[] };
+
+/** Title words plus whole-value vendor / type / tag features, lowercased. */
+export function productTokens(p: ProductText): string[] {
+  const words = p.title
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length > 1 && !STOPWORDS.has(w) && !/^\d{1,2}$/.test(w));
+  const tokens = [...words];
+  if (p.vendor.trim()) tokens.push(`vendor:${p.vendor.trim().toLowerCase()}`);
+  if (p.productType.trim()) tokens.push(`type:${p.productType.trim().toLowerCase()}`);
+  for (const t of p.tags) if (t.trim()) tokens.push(`tag:${t.trim().toLowerCase()}`);
+  return tokens;
+}
+
+type ClassStats = { docs: number; total: number; counts: Map<string, number> };
+
+type Model = {
+  trainedAt: Date;
+  docs: number; // training examples, one per (product, category) link
+  vocabulary: number;
+  classes: Map<string, ClassStats>; // categoryId → stats
+  products: Map<string, ProductText>; // features of every store product at training time
+};
+
+let model: Model | null = null;
+let training: Promise<Model> | null = null;
+
+async function train(): Promise<Model> {
+  const [products, links] = await Promise.all([
+    loadRuleProducts(),
+    prisma.productCategory.findMany({
+      where: { category: { archivedAt: null } },
+      select: { productGid: true, categoryId: true },
+    }),
+  ]);
+  const byGid = new Map<string, ProductText>(products.map((p) => [p.id, p]));
+
+  const classes = new Map<string, ClassStats>();
+  const vocabulary = new Set<string>();
+  let docs = 0;
+  for (const l of links) {
+    const p = byGid.get(l.productGid);
+    if (!p) continue; // deleted in Shopify
+    let c = classes.get(l.categoryId);
+    if (!c) classes.set(l.categoryId, (c = { docs: 0, total: 0, counts: new Map() }));
+    c.docs++;
+    docs++;
+    for (const t of productTokens(p)) {
+      c.counts.set(t, (c.counts.get(t) ?? 0) + 1);
+      c.total++;
+      vocabulary.add(t);
+    }
+  }
+  return { trainedAt: new Date(), docs, vocabulary: vocabulary.size, classes, products: byGid };
+}
+
+async function getModel(force = false): Promise<Model> {
+  if (!force && model && Date.now() - model.trainedAt.getTime() < MODEL_TTL_MS) return model;
+  // Concurrent callers share one training run
+  training ??= train()
+    .then((m) => (model = m))
+    .finally(() => {
+      training = null;
+    });
+  return training;
+}
+
+/** Retrain now (e.g. after a big categorization session). */
+export async function retrainCategorySuggester() {
+  const m = await getModel(true);
+  return { trainedAt: m.trainedAt, examples: m.docs, categories: m.classes.size, vocabulary: m.vocabulary };
+}
+
+export function categorySuggesterStatus() {
+  return model
+    ? { trained: true, trainedAt: model.trainedAt, examples: model.docs, categories: model.classes.size }
+    : { trained: false };
+}
+
+const PRODUCT_TEXT = /* GraphQL */ `
+  query SuggestProducts($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on Product { id title vendor productType tags }
+    }
+  }
+`;
+
+type ProductTextNodes = { nodes: Array<({ id: string } & ProductText) | null> };
+
+// Products created after training are fetched from Shopify
+async function productTexts(m: Model, productGids: string[]): Promise<Map<string, ProductText>> {
+  const out = new Map<string, ProductText>();
+  const missing: string[] = [];
+  for (const g of productGids) {
+    const p = m.products.get(g);
+    if (p) out.set(g, p);
+    else missing.push(g);
+  }
+  for (let i = 0; i < missing.length; i += 250) {
+    const data = await shopifyAdminGraphQL<ProductTextNodes>(PRODUCT_TEXT, { ids: missing.slice(i, i + 250) });
+    for (const n of data.nodes ?? []) if (n?.id) out.set(n.id, { ...n, tags: n.tags ?? [] });
+  }
+  return out;
+}
+
+export type CategorySuggestion = {
+  categoryId: string;
+  slug: string;
+  title: string;
+  score: number; // 0..1, share of the probability mass among candidate categories
+};
+
+/**
+ * Top `limit` categories of `taxonomyId` for each product, skipping ones it is
+ * already linked to. Products with no known words get no suggestions.
+ */
+export async function suggestCategories(
+  productGids: string[],
+  opts: { taxonomyId: string; limit?: number }
+): Promise<Map<string, CategorySuggestion[]>> {
+  const limit = opts.limit ?? 5;
+  const out = new Map<string, CategorySuggestion[]>(productGids.map((g) => [g, []]));
+  if (!productGids.length) return out;
+
+  const m = await getModel();
+  const [texts, candidates, existing] = await Promise.all([
+    productTexts(m, productGids),
+    prisma.category.findMany({
+      where: { taxonomyId: opts.taxonomyId, archivedAt: null, id: { in: [...m.classes.keys()] } },
+      select: { id: true, slug: true, title: true },
+    }),
+    prisma.productCategory.findMany({
+      where: { productGid: { in: productGids } },
+      select: { productGid: true, categoryId: true },
+    }),
+  ]);
+  if (!candidates.length) return out;
+
+  const linked = new Set(existing.map((l) => `${l.productGid}:${l.categoryId}`));
+  const priorTotal = candidates.reduce((n, c) => n + m.classes.get(c.id)!.docs, 0);
+
+  for (const gid of productGids) {
+    const text = texts.get(gid);
+    if (!text) continue;
+    const tokens = productTokens(text).filter((t) => candidates.some((c) => m.classes.get(c.id)!.counts.has(t)));
+    if (!tokens.length) continue;
+
+    // Multinomial naive Bayes with Laplace smoothing, in log space
+    const scored = candidates.map((c) => {
+      const s = m.classes.get(c.id)!;
+      let logP = Math.log(s.docs / priorTotal);
+      for (const t of tokens) logP += Math.log(((s.counts.get(t) ?? 0) + 1) / (s.total + m.vocabulary));
+      return { c, logP };
+    });
+    const max = Math.max(...scored.map((s) => s.logP));
+    const mass = scored.reduce((n, s) => n + Math.exp(s.logP - max), 0);
+
+    out.set(
+      gid,
+      scored
+        .filter((s) => !linked.has(`${gid}:${s.c.id}`))
+        .sort((a, b) => b.logP - a.logP)
+        .slice(0, limit)
+        .map((s) => ({
+          categoryId: s.c.id,
+          slug: s.c.slug,
+          title: s.c.title,
+          score: Math.round((Math.exp(s.logP - max) / mass) * 1000) / 1000,
+        }))
+    );
+  }
+  return out;
+}
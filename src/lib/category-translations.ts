@@ -0,0 +1,98 @@
+// src/lib/category-translations.ts
+// Per-locale category text (title, description, SEO) with default-language fallback.
+import prisma from '@/lib/prisma';
+import { registerShopifyPageTranslations, removeShopifyPageTranslations } from '@/lib/category-pages';
+
+/** Language of Category.title/description themselves. */
+export const DEFAULT_LOCALE = (process.env.DEFAULT_LOCALE || 'en').toLowerCase();
+
+export const TRANSLATED_FIELDS = ['title', 'description', 'seoTitle', 'seoDescription'] as const;
+export type TranslatedField = (typeof TRANSLATED_FIELDS)[number];
+
+/**
+ * `fr`, `FR`, `fr_ca`, `fr-CA` → `fr` / `fr-CA` (Shopify's locale format).
+ * Returns null for anything that is not a language[-REGION] code.
+ */
+export function normalizeLocale(raw: string | null | undefined): string | null {
+  const m = /^([a-z]{2,3})(?:[-_]([a-z]{2}))?$/i.exec((raw ?? '').trim());
+  if (!m) return null;
+  return m[2] ? `${m[1].toLowerCase()}-${m[2].toUpperCase()}` : m[1].toLowerCase();
+}
+
+/** Locales to try, most specific first: `es-MX` → [`es-MX`, `es`]. */
+export function localeFallbacks(locale: string): string[] {
+  const base = locale.split('-')[0];
+  return base === locale ? [locale] : [locale, base];
+}
+
+/**
+ * Overlay translated text onto category rows for `locale`. Each field falls
+ * back independently: region → language → the category's own value.
+ * Rows are returned in the same order; the default locale is a no-op.
+ */
+export async function localizeCategories<
+  T extends { id: string; title: string; description?: string | null }
+>(rows: T[], locale: string | null): Promise<T[]> {
+  if (!locale || locale === DEFAULT_LOCALE || !rows.length) return rows;
+
+  const chain = localeFallbacks(locale);
+  const translations = await prisma.categoryTranslation.findMany({
+    where: { categoryId: { in: rows.map((r) => r.id) }, locale: { in: chain } },
+    select: { categoryId: true, locale: true, title: true, description: true },
+  });
+
+  const byKey = new Map(translations.map((t) => [`${t.categoryId}:${t.locale}`, t]));
+  const pick = (id: string, field: 'title' | 'description') => {
+    for (const l of chain) {
+      const v = byKey.get(`${id}:${l}`)?.[field];
+      if (v) return v;
+    }
+    return undefined;
+  };
+
+  return rows.map((r) => {
+    const title = pick(r.id, 'title');
+    const description = 'description' in r ? pick(r.id, 'description') : undefined;
+    return {
+      ...r,
+      ...(title ? { title } : {}),
+      ...(description ? { description } : {}),
+    };
+  });
+}
+
+/**
+ * Push all of a category's translations to its Shopify page. Logs instead of
+ * throwing, like syncCategoryPage. Returns false when nothing was pushed.
+ */
+export async function registerCategoryTranslations(categoryId: string): Promise<boolean> {
+  const cat = await prisma.category.findUnique({
+    where: { id: categoryId },
+    select: {
+      slug: true,
+      shopifyPageId: true,
+      translations: {
+        select: { locale: true, title: true, description: true, seoTitle: true, seoDescription: true },
+      },
+    },
+  });
+  if (!cat?.shopifyPageId || !cat.translations.length) return false;
+
+  try {
+    await registerShopifyPageTranslations(cat.shopifyPageId, cat.translations);
+    return true;
+  } catch (e) {
+    console.error('[category-translations] register failed', cat.slug, e);
+    return false;
+  }
+}
+
+/** Drop a locale from the category's Shopify page (after deleting it locally). */
+export async function removeCategoryPageLocale(shopifyPageId: string | null, locale: string) {
+  if (!shopifyPageId) return;
+  try {
+    await removeShopifyPageTranslations(shopifyPageId, [locale]);
+  } catch (e) {
+    console.error('[category-translations] remove failed', shopifyPageId, locale, e);
+  }
+}
@@ -0,0 +1,94 @@
+// src/lib/fitments.ts
+// Year/make/model filtering of product sets, shared by the public storefront endpoints.
+import prisma from '@/lib/prisma';
+import type { Prisma } from '@prisma/client';
+
+// YMM as STRINGS (important: make/model are strings in ProductFitment)
+export type YmmParams = {
+  year?: number;
+  make?: string;
+  model?: string;
+  trim?: string;
+  chassis?: string;
+};
+
+export function parseYmmParams(searchParams: URLSearchParams): YmmParams {
+  const yearParam = searchParams.get('year');
+  return {
+    year: yearParam ? Number(yearParam) : undefined,
+    make: searchParams.get('make') || undefined,
+    model: searchParams.get('model') || undefined,
+    trim: searchParams.get('trim') || undefined,
+    chassis: searchParams.get('chassis') || undefined,
+  };
+}
+
+// Safe table existence on Postgres
+export async function tableExists(tableName: string): Promise<boolean> {
+  try {
+    const rows = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+      SELECT EXISTS (
+        SELECT 1
+        FROM information_schema.tables
+        WHERE table_schema = 'public'
+          AND table_name = ${tableName}
+      ) AS "exists";
+    `;
+    return Boolean(rows?.[0]?.exists);
+  } catch {
+    return false;
+  }
+}
+
+// Build WHERE for ProductFitment using string fields (make/model/trim/chassis) and open year ranges
+export function buildFitmentWhere(
+  productGids: string[],
+  params: YmmParams
+): Prisma.ProductFitmentWhereInput | null {
+  const { year, make, model, trim, chassis } = params;
+
+  if (!year && !make && !model && !trim && !chassis) return null;
+
+  const where: Prisma.ProductFitmentWhereInput = {
+    productGid: { in: productGids },
+  };
+
+  // Case-insensitive exact matches on strings
+  if (make)   where.make   = { equals: make.trim(), mode: 'insensitive' };
+  if (model)  where.model  = { equals: model.trim(), mode: 'insensitive' };
+  if (trim)   where.trim   = { equals: trim.trim(),  mode: 'insensitive' };
+  if (chassis)where.chassis= { equals: chassis.trim(), mode: 'insensitive' };
+
+  if (typeof year === 'number') {
+    const y = year;
+    where.AND = [
+      { OR: [{ yearFrom: null }, { yearFrom: { lte: y } }] },
+      { OR: [{ yearTo: null },   { yearTo:   { gte: y } }] },
+    ];
+  }
+
+  return where;
+}
+
+/**
+ * Keep only products that fit the vehicle. Without any YMM param (or without
+ * the ProductFitment table) the input is returned unchanged, order preserved.
+ */
+export async function filterProductsByFitment(
+  productGids: string[],
+  params: YmmParams,
+  opts: { take?: number } = {}
+): Promise<string[]> {
+  if (!productGids.length || !(await tableExists('ProductFitment'))) return productGids;
+
+  const fitWhere = buildFitmentWhere(productGids, params);
+  if (!fitWhere) return productGids;
+
+  const fits = await prisma.productFitment.findMany({
+    where: fitWhere,
+    select: { productGid: true },
+    ...(opts.take ? { take: opts.take } : {}),
+  });
+  const allowed = new Set(fits.map((f) => f.productGid));
+  return productGids.filter((id) => allowed.has(id));
+}
@@ -0,0 +1,276 @@
+// src/lib/product-category-jobs.ts
+// Bulk product ↔ category assignment. Links for every product are written in one
+// transaction; the Shopify side (metafields + product category) is rebuilt per
+// product afterwards, with progress and per-product failures kept on the job.
+import { after } from 'next/server';
+import prisma from '@/lib/prisma';
+import type { ProductCategoryJobMode } from '@prisma/client';
+import { getPrimaryPathsForProducts, getSlugsForProducts } from '@/lib/categories';
+import { rebuildProductCategoryMetafield } from '@/lib/product-metafields';
+import { getShopifyCategoriesForProducts } from '@/lib/shopify-taxonomy';
+
+export const MAX_JOB_PRODUCTS = 5000;
+export const MAX_JOB_CATEGORIES = 50;
+const BATCH = 50;
+// A RUNNING job this old lost its process (deploy, crash) mid-way: a full job of
+// MAX_JOB_PRODUCTS at ~4 products/s finishes well within it
+const STALE_JOB_MS = 2 * 60 * 60 * 1000;
+
+function isStaleJob(job: { status: string; startedAt: Date | null }) {
+  return job.status === 'RUNNING' && (job.startedAt?.getTime() ?? 0) < Date.now() - STALE_JOB_MS;
+}
+
+export function normalizeProductGid(idOrGid: string): string {
+  if (!idOrGid) return idOrGid;
+  if (idOrGid.startsWith('gid://shopify/Product/')) return idOrGid;
+  // numeric id → wrap as GID
+  if (/^\d+$/.test(idOrGid)) return `gid://shopify/Product/${idOrGid}`;
+  return idOrGid;
+}
+
+export type BulkAssignInput = { mode: ProductCategoryJobMode; productGids: string[]; categoryIds: string[] };
+
+/** Returns an error message, or null when the input is acceptable. */
+export function validateBulkAssign(input: BulkAssignInput): string | null {
+  if (!['ADD', 'REMOVE', 'REPLACE'].includes(input.mode)) return 'mode must be ADD, REMOVE or REPLACE';
+  if (!input.productGids.length) return 'productGids is required';
+  if (input.productGids.length > MAX_JOB_PRODUCTS) return `At most ${MAX_JOB_PRODUCTS} products per job`;
+  if (!input.categoryIds.length && input.mode !== 'REPLACE') return 'categoryIds is required';
+  if (input.categoryIds.length > MAX_JOB_CATEGORIES) return `At most ${MAX_JOB_CATEGORIES} categories per job`;
+  return null;
+}
+
+/**
+ * Write the links (same rules as POST /api/product-categories) and queue the
+ * rebuilds. ADD and REPLACE upgrade RULE links to MANUAL; REPLACE clears the
+ * products' links in the taxonomies of `categoryIds` first (or in every taxonomy
+ * when `replaceTaxonomyIds` is given and `categoryIds` is empty, i.e. "unassign all").
+ */
+export async function createBulkAssignJob(input: BulkAssignInput & { replaceTaxonomyIds?: string[] }) {
+  const productGids = Array.from(new Set(input.productGids));
+  const categoryIds = Array.from(new Set(input.categoryIds));
+
+  const found = await prisma.category.findMany({
+    where: { id: { in: categoryIds } },
+    select: { id: true, taxonomyId: true },
+  });
+  if (found.length !== categoryIds.length) return 'Unknown categoryIds';
+
+  return prisma.$transaction(
+    async (tx) => {
+      let linksAdded = 0;
+      let linksRemoved = 0;
+
+      if (input.mode === 'REMOVE') {
+        const del = await tx.productCategory.deleteMany({
+          where: { productGid: { in: productGids }, categoryId: { in: categoryIds } },
+        });
+        linksRemoved = del.count;
+      }
+
+      if (input.mode === 'REPLACE') {
+        const taxonomyIds = categoryIds.length
+          ? Array.from(new Set(found.map((c) => c.taxonomyId)))
+          : (input.replaceTaxonomyIds ?? []);
+        const del = await tx.productCategory.deleteMany({
+          // Links that stay are kept, so their primary flag survives
+          where: {
+            productGid: { in: productGids },
+            categoryId: { notIn: categoryIds },
+            category: { taxonomyId: { in: taxonomyIds } },
+          },
+        });
+        linksRemoved = del.count;
+      }
+
+      if (input.mode !== 'REMOVE' && categoryIds.length) {
+        // An explicit assignment takes ownership of a rule-generated link
+        await tx.productCategory.updateMany({
+          where: { productGid: { in: productGids }, categoryId: { in: categoryIds }, source: 'RULE' },
+          data: { source: 'MANUAL' },
+        });
+        const created = await tx.productCategory.createMany({
+          data: productGids.flatMap((productGid) => categoryIds.map((categoryId) => ({ productGid, categoryId }))),
+          skipDuplicates: true,
+        });
+        linksAdded = created.count;
+      }
+
+      return tx.productCategoryJob.create({
+        data: {
+          mode: input.mode,
+          categoryIds,
+          total: productGids.length,
+          linksAdded,
+          linksRemoved,
+          items: { createMany: { data: productGids.map((productGid) => ({ productGid })) } },
+        },
+        select: { id: true, mode: true, total: true, linksAdded: true, linksRemoved: true, status: true },
+      });
+    },
+    { timeout: 60_000 }
+  );
+}
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+/**
+ * Queue a rebuild for products whose links did not change but whose derived
+ * values did (category moved, re-slugged, remapped, deleted with reassignment).
+ * Runs after the response; returns null when there is nothing to rebuild.
+ */
+export async function queueProductRebuild(productGids: string[]) {
+  const unique = Array.from(new Set(productGids));
+  if (!unique.length) return null;
+  const job = await prisma.productCategoryJob.create({
+    data: {
+      mode: 'REBUILD',
+      categoryIds: [],
+      total: unique.length,
+      items: { createMany: { data: unique.map((productGid) => ({ productGid })) } },
+    },
+    select: { id: true, total: true },
+  });
+  scheduleBulkAssignJob(job.id);
+  return { jobId: job.id, total: job.total };
+}
+
+// One job at a time per process, so parallel requests don't multiply the Shopify call rate
+let jobQueue: Promise<void> = Promise.resolve();
+
+/** Process a QUEUED job after the current response is sent. Call inside a request. */
+export function scheduleBulkAssignJob(jobId: string) {
+  jobQueue = jobQueue
+    .then(() => processBulkAssignJob(jobId))
+    .catch((e) => console.error('[product-category-jobs] job failed', jobId, e));
+  after(() => jobQueue);
+}
+
+/**
+ * Rebuild every PENDING product of a QUEUED job, in batches. Claiming the job
+ * (QUEUED → RUNNING) is atomic, so a second caller for the same job returns at once.
+ */
+export async function processBulkAssignJob(jobId: string) {
+  const claimed = await prisma.productCategoryJob.updateMany({
+    where: { id: jobId, status: 'QUEUED' },
+    data: { status: 'RUNNING', startedAt: new Date(), finishedAt: null },
+  });
+  if (!claimed.count) return;
+
+  try {
+    for (;;) {
+      const batch = await prisma.productCategoryJobItem.findMany({
+        where: { jobId, status: 'PENDING' },
+        orderBy: { id: 'asc' },
+        take: BATCH,
+        select: { id: true, productGid: true },
+      });
+      if (!batch.length) break;
+
+      const gids = batch.map((b) => b.productGid);
+      const [slugs, shopifyCategories, primaryPaths] = await Promise.all([
+        getSlugsForProducts(gids),
+        getShopifyCategoriesForProducts(gids),
+        getPrimaryPathsForProducts(gids),
+      ]);
+
+      for (const item of batch) {
+        let error: string | null = null;
+        try {
+          await rebuildProductCategoryMetafield(item.productGid, {
+            slugs: slugs.get(item.productGid),
+            shopifyCategory: shopifyCategories.get(item.productGid) ?? null,
+            primaryPath: primaryPaths.get(item.productGid),
+          });
+        } catch (e) {
+          error = e instanceof Error ? e.message : 'unknown error';
+        }
+        await prisma.$transaction([
+          prisma.productCategoryJobItem.update({
+            where: { id: item.id },
+            data: { status: error ? 'FAILED' : 'DONE', error },
+          }),
+          prisma.productCategoryJob.update({
+            where: { id: jobId },
+            data: { processed: { increment: 1 }, ...(error ? { failed: { increment: 1 } } : {}) },
+          }),
+        ]);
+        await sleep(250);
+      }
+    }
+    await prisma.productCategoryJob.update({
+      where: { id: jobId },
+      data: { status: 'DONE', finishedAt: new Date(), error: null },
+    });
+  } catch (e) {
+    // Unprocessed items stay PENDING; retryBulkAssignJob picks them up
+    console.error('[product-category-jobs] job stopped', jobId, e);
+    await prisma.productCategoryJob.update({
+      where: { id: jobId },
+      data: { status: 'FAILED', finishedAt: new Date(), error: e instanceof Error ? e.message : String(e) },
+    });
+  }
+}
+
+/**
+ * Put FAILED (and leftover PENDING) products back in the queue. Returns false
+ * when the job does not exist or is still running; a job RUNNING for longer
+ * than STALE_JOB_MS is taken over.
+ */
+export async function retryBulkAssignJob(jobId: string): Promise<boolean> {
+  return prisma.$transaction(async (tx) => {
+    const job = await tx.productCategoryJob.findUnique({
+      where: { id: jobId },
+      select: { status: true, startedAt: true },
+    });
+    if (!job || (job.status === 'RUNNING' && !isStaleJob(job))) return false;
+    const reset = await tx.productCategoryJobItem.updateMany({
+      where: { jobId, status: 'FAILED' },
+      data: { status: 'PENDING', error: null },
+    });
+    await tx.productCategoryJob.update({
+      where: { id: jobId },
+      data: {
+        status: 'QUEUED',
+        error: null,
+        processed: { decrement: reset.count },
+        failed: { decrement: reset.count },
+      },
+    });
+    return true;
+  });
+}
+
+const jobSelect = {
+  id: true,
+  mode: true,
+  categoryIds: true,
+  status: true,
+  total: true,
+  processed: true,
+  failed: true,
+  linksAdded: true,
+  linksRemoved: true,
+  error: true,
+  createdAt: true,
+  startedAt: true,
+  finishedAt: true,
+} as const;
+
+/** Job progress plus the products that failed and why; `stale` jobs can be retried. */
+export async function getBulkAssignJob(jobId: string) {
+  const job = await prisma.productCategoryJob.findUnique({ where: { id: jobId }, select: jobSelect });
+  if (!job) return null;
+  const failures = await prisma.productCategoryJobItem.findMany({
+    where: { jobId, status: 'FAILED' },
+    orderBy: { updatedAt: 'asc' },
+    select: { productGid: true, error: true },
+  });
+  return { ...job, stale: isStaleJob(job), failures };
+}
+
+export async function listBulkAssignJobs(limit = 20) {
+  return prisma.productCategoryJob.findMany({ orderBy: { createdAt: 'desc' }, take: limit, select: jobSelect });
+}
@@ -2,30 +2,59 @@
 // src/lib/product-metafields.ts
 import prisma from '@/lib/prisma';
 import { shopifyAdminGraphQL } from '@/lib/shopify'
-import { getSlugsForProduct } from '@/lib/categories'
+import {
+  getPrimaryPathsForProducts,
+  getSlugsForProduct,
+  getSlugsForProducts,
+  type CategoryCrumb,
+  type TaxonomySlugs,
+} from '@/lib/categories'
+import { getShopifyCategoriesForProducts, syncProductShopifyCategory } from '@/lib/shopify-taxonomy'
 
 const UPSERT = `
-mutation UpsertCats($ownerId: ID!, $value: String!) {
-  metafieldsSet(metafields: [{
-    ownerId: $ownerId,
-    namespace: "taxonomy",
-    key: "category_slugs",
-    type: "list.single_line_text_field",
-    value: $value
-  }]) {
+mutation UpsertCats($metafields: [MetafieldsSetInput!]!) {
+  metafieldsSet(metafields: $metafields) {
     metafields { id key namespace type }
     userErrors { field message }
   }
 }`
 
-export async function rebuildProductCategoryMetafield(productGid: string) {
-  const slugs = await getSlugsForProduct(productGid)   // e.g., ["exhaust-systems","downpipes"]
-  const value = JSON.stringify(slugs)                  // JSON array string for list.single_line_text_field
-  const data = await shopifyAdminGraphQL(UPSERT, { ownerId: productGid, value })
+export type PreloadedCategoryData = {
+  slugs?: TaxonomySlugs
+  shopifyCategory?: string | null
+  primaryPath?: CategoryCrumb[]
+}
+
+// One `taxonomy.<metafieldKey>` list per taxonomy (category_slugs for the default tree),
+// `taxonomy.primary_path` (json breadcrumb of the primary category, `[]` when none),
+// then the product's Shopify standard category (see syncProductShopifyCategory).
+// Pass `slugs` / `shopifyCategory` / `primaryPath` when the caller already loaded them in bulk
+export async function rebuildProductCategoryMetafield(
+  productGid: string,
+  { slugs, shopifyCategory, primaryPath }: PreloadedCategoryData = {}
+) {
+  slugs ??= await getSlugsForProduct(productGid)       // e.g., { category_slugs: ["exhaust-systems","downpipes"] }
+  primaryPath ??= (await getPrimaryPathsForProducts([productGid])).get(productGid)!
+  const metafields = Object.entries(slugs).map(([key, list]) => ({
+    ownerId: productGid,
+    namespace: 'taxonomy',
+    key,
+    type: 'list.single_line_text_field',
+    value: JSON.stringify(list),                       // JSON array string for list.single_line_text_field
+  }))
+  metafields.push({
+    ownerId: productGid,
+    namespace: 'taxonomy',
+    key: 'primary_path',
+    type: 'json',
+    value: JSON.stringify(primaryPath),                // e.g. [{"title":"Exhaust","slug":"exhaust"},{"title":"Downpipes",...}]
+  })
+  const data = await shopifyAdminGraphQL(UPSERT, { metafields })
   const errors = (data as any)?.metafieldsSet?.userErrors
   if (errors?.length) {
     throw new Error('Shopify metafieldsSet error: ' + JSON.stringify(errors))
   }
+  await syncProductShopifyCategory(productGid, shopifyCategory)
 }
 
 export async function rebuildProductFitmentMetafield(productGid: string) {
@@ -72,4 +101,94 @@ export async function rebuildProductFitmentMetafield(productGid: string) {
     throw new Error(`metafieldsSet userErrors: ${JSON.stringify(errs)}`);
   }
 }
-export const writeProductFitmentsMetafield = rebuildProductFitmentMetafield;
\ No newline at end of file
+export const writeProductFitmentsMetafield = rebuildProductFitmentMetafield;
+
+/**
+ * Write `taxonomy.attributes` (json): `{ material: "Stainless", pipe_diameter: { value: 3, unit: "in" } }`.
+ * Numbers carry their unit; products without values get `{}`.
+ */
+export async function rebuildProductAttributeMetafield(productGid: string) {
+  const rows = await prisma.productAttributeValue.findMany({
+    where: { productGid },
+    include: { attribute: { select: { key: true, unit: true } } },
+  })
+
+  const value: Record<string, unknown> = {}
+  for (const r of rows) {
+    const v = r.valueText ?? r.valueNumber ?? r.valueBoolean
+    if (v === null) continue
+    value[r.attribute.key] = r.valueNumber !== null && r.attribute.unit ? { value: v, unit: r.attribute.unit } : v
+  }
+
+  const MUT = `
+    mutation SetMetafields($metafields: [MetafieldsSetInput!]!) {
+      metafieldsSet(metafields: $metafields) {
+        metafields { id key namespace }
+        userErrors { field message }
+      }
+    }
+  `
+
+  const res = await shopifyAdminGraphQL<{
+    metafieldsSet: { userErrors: Array<{ field?: string[]; message: string }> }
+  }>(MUT, {
+    metafields: [{ ownerId: productGid, namespace: 'taxonomy', key: 'attributes', type: 'json', value: JSON.stringify(value) }],
+  })
+
+  const errs = res.metafieldsSet?.userErrors || []
+  if (errs.length) {
+    throw new Error(`metafieldsSet userErrors: ${JSON.stringify(errs)}`)
+  }
+}
+function sleep(ms: number) {
+  return new Promise(r => setTimeout(r, ms))
+}
+
+/**
+ * Rebuild the taxonomy slug metafields for many products, sequentially and paced
+ * for Shopify rate limits. Failures are collected instead of thrown.
+ */
+export async function rebuildProductCategoryMetafields(productGids: string[]) {
+  let updated = 0
+  const failures: { productGid: string; error: string }[] = []
+
+  const [slugsByProduct, shopifyCategories, primaryPaths] = await Promise.all([
+    getSlugsForProducts(productGids),
+    getShopifyCategoriesForProducts(productGids),
+    getPrimaryPathsForProducts(productGids),
+  ])
+
+  for (const productGid of productGids) {
+    try {
+      await rebuildProductCategoryMetafield(productGid, {
+        slugs: slugsByProduct.get(productGid),
+        shopifyCategory: shopifyCategories.get(productGid) ?? null,
+        primaryPath: primaryPaths.get(productGid),
+      })
+      updated++
+    } catch (e: any) {
+      failures.push({ productGid, error: e?.message || 'unknown error' })
+    }
+    await sleep(250)
+  }
+
+  return { total: productGids.length, updated, failures }
+}
+
+/** Bulk form of rebuildProductAttributeMetafield, paced like rebuildProductCategoryMetafields. */
+export async function rebuildProductAttributeMetafields(productGids: string[]) {
+  let updated = 0
+  const failures: { productGid: string; error: string }[] = []
+
+  for (const productGid of productGids) {
+    try {
+      await rebuildProductAttributeMetafield(productGid)
+      updated++
+    } catch (e: any) {
+      failures.push({ productGid, error: e?.message || 'unknown error' })
+    }
+    await sleep(250)
+  }
+
+  return { total: productGids.length, updated, failures }
+}
@@ -0,0 +1,173 @@
+// src/lib/shopify-taxonomy.ts
+// Shopify Standard Product Taxonomy: a local copy for the mapping picker, and
+// pushing each product's `category` from the most specific mapped category.
+import prisma from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { shopifyAdminGraphQL } from '@/lib/shopify';
+
+/** Shopify's published taxonomy file; override with SHOPIFY_TAXONOMY_URL to pin a release. */
+export const SHOPIFY_TAXONOMY_URL =
+  process.env.SHOPIFY_TAXONOMY_URL ??
+  'https://raw.githubusercontent.com/Shopify/product-taxonomy/main/dist/en/categories.json';
+
+type TaxonomyFile = {
+  version?: string;
+  verticals?: Array<{
+    categories?: Array<{
+      id: string;
+      name: string;
+      full_name: string;
+      level: number;
+      parent_id?: string | null;
+      children?: unknown[];
+    }>;
+  }>;
+};
+
+type NodeRow = Prisma.ShopifyTaxonomyNodeCreateManyInput;
+
+/** Flatten categories.json into rows. Returns an error message when the shape is wrong. */
+export function parseTaxonomyFile(raw: unknown): { version: string; nodes: NodeRow[] } | string {
+  const file = raw as TaxonomyFile;
+  if (!file || !Array.isArray(file.verticals)) return 'Not a Shopify taxonomy file (missing verticals)';
+  const version = String(file.version ?? 'unknown');
+  const nodes: NodeRow[] = [];
+  for (const v of file.verticals) {
+    for (const c of v.categories ?? []) {
+      if (!c?.id || !c.name) return 'Not a Shopify taxonomy file (category without id or name)';
+      nodes.push({
+        id: c.id,
+        name: c.name,
+        fullName: c.full_name || c.name,
+        level: Number(c.level) || 0,
+        parentId: c.parent_id ?? null,
+        isLeaf: !c.children?.length,
+        version,
+      });
+    }
+  }
+  if (!nodes.length) return 'Taxonomy file has no categories';
+  return { version, nodes };
+}
+
+/** Replace the local copy. Existing category mappings are kept even if their node disappeared. */
+export async function loadShopifyTaxonomy(raw: unknown) {
+  const parsed = parseTaxonomyFile(raw);
+  if (typeof parsed === 'string') return parsed;
+  await prisma.$transaction(
+    async (tx) => {
+      await tx.shopifyTaxonomyNode.deleteMany({});
+      for (let i = 0; i < parsed.nodes.length; i += 1000) {
+        await tx.shopifyTaxonomyNode.createMany({ data: parsed.nodes.slice(i, i + 1000), skipDuplicates: true });
+      }
+    },
+    { timeout: 120_000 }
+  );
+  // Mappings to nodes Shopify removed in this release; they keep pushing their old id until remapped
+  const [{ unmatched }] = await prisma.$queryRaw<Array<{ unmatched: number }>>`
+    SELECT COUNT(*)::int AS "unmatched" FROM "Category" c
+    WHERE c."shopifyTaxonomyId" IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM "ShopifyTaxonomyNode" n WHERE n."id" = c."shopifyTaxonomyId")
+  `;
+  return { version: parsed.version, nodes: parsed.nodes.length, unmatchedMappings: unmatched };
+}
+
+export async function shopifyTaxonomyStatus() {
+  const [count, sample] = await Promise.all([
+    prisma.shopifyTaxonomyNode.count(),
+    prisma.shopifyTaxonomyNode.findFirst({ select: { version: true } }),
+  ]);
+  return { loaded: count > 0, nodes: count, version: sample?.version ?? null };
+}
+
+const nodeSelect = { id: true, name: true, fullName: true, level: true, isLeaf: true } as const;
+
+/** Every word must appear in the full path; nodes named after the first word, then shallower ones, rank first. */
+export async function searchShopifyTaxonomy(q: string, limit = 20) {
+  const words = q.trim().split(/\s+/).filter(Boolean).slice(0, 6);
+  if (!words.length) return [];
+  const rows = await prisma.shopifyTaxonomyNode.findMany({
+    where: { AND: words.map((w) => ({ fullName: { contains: w, mode: 'insensitive' as const } })) },
+    select: nodeSelect,
+    take: 200,
+  });
+  const first = words[0].toLowerCase();
+  return rows
+    .sort(
+      (a, b) =>
+        Number(b.name.toLowerCase().includes(first)) - Number(a.name.toLowerCase().includes(first)) ||
+        a.level - b.level ||
+        a.fullName.localeCompare(b.fullName)
+    )
+    .slice(0, limit);
+}
+
+export async function getShopifyTaxonomyNode(id: string) {
+  return prisma.shopifyTaxonomyNode.findUnique({ where: { id }, select: nodeSelect });
+}
+
+/* =========================
+   Product category
+========================= */
+
+type MappedRow = { productGid: string; linkId: string; nodeId: string; depth: number; level: number | null };
+
+/**
+ * Shopify category per product: for each linked category its nearest mapped
+ * ancestor (or itself), then the deepest Shopify node among those. Products
+ * with no mapped category are absent from the map.
+ */
+export async function getShopifyCategoriesForProducts(productGids: string[]): Promise<Map<string, string>> {
+  const out = new Map<string, string>();
+  if (!productGids.length) return out;
+
+  const rows = await prisma.$queryRaw<MappedRow[]>`
+    SELECT pc."productGid", pc."id" AS "linkId", c."shopifyTaxonomyId" AS "nodeId", cc."depth", n."level"
+    FROM "ProductCategory" pc
+    JOIN "CategoryClosure" cc ON cc."descendantId" = pc."categoryId"
+    JOIN "Category" c ON c."id" = cc."ancestorId"
+    LEFT JOIN "ShopifyTaxonomyNode" n ON n."id" = c."shopifyTaxonomyId"
+    WHERE pc."productGid" = ANY(${productGids}::text[]) AND c."shopifyTaxonomyId" IS NOT NULL
+    ORDER BY pc."productGid", pc."id", cc."depth"
+  `;
+
+  const nearest = new Map<string, MappedRow>(); // link → nearest mapped ancestor (rows are depth-ordered)
+  for (const r of rows) if (!nearest.has(r.linkId)) nearest.set(r.linkId, r);
+
+  // Deeper Shopify node wins; on a tie, the mapping closer to the linked category
+  const moreSpecific = (a: MappedRow, b: MappedRow) => (a.level ?? -1) - (b.level ?? -1) || b.depth - a.depth;
+  const best = new Map<string, MappedRow>();
+  for (const r of nearest.values()) {
+    const cur = best.get(r.productGid);
+    if (!cur || moreSpecific(r, cur) > 0) best.set(r.productGid, r);
+  }
+  for (const [gid, r] of best) out.set(gid, r.nodeId);
+  return out;
+}
+
+const PRODUCT_SET_CATEGORY = /* GraphQL */ `
+  mutation SetProductCategory($product: ProductUpdateInput!) {
+    productUpdate(product: $product) {
+      product { id }
+      userErrors { field message }
+    }
+  }
+`;
+
+/**
+ * Push the product's Shopify category. Products without a mapped category are
+ * left alone, so categories set by hand in Shopify are not wiped.
+ * Returns the category id pushed, or null.
+ */
+export async function syncProductShopifyCategory(productGid: string, categoryId?: string | null) {
+  if (categoryId === undefined) {
+    categoryId = (await getShopifyCategoriesForProducts([productGid])).get(productGid) ?? null;
+  }
+  if (!categoryId) return null;
+  const data = await shopifyAdminGraphQL<{
+    productUpdate: { userErrors: Array<{ field?: string[]; message: string }> };
+  }>(PRODUCT_SET_CATEGORY, { product: { id: productGid, category: categoryId } });
+  const errs = data.productUpdate?.userErrors || [];
+  if (errs.length) throw new Error(`productUpdate userErrors: ${JSON.stringify(errs)}`);
+  return categoryId;
+}
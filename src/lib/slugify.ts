@@ -0,0 +1,17 @@
+// src/lib/slugify.ts
+// The slug format produced by the category editors (shared so the linter checks the same rule).
+
+/** Lowercase, `&` and whitespace to dashes, drop anything else non-alphanumeric, collapse dashes. */
+export function slugify(input: string): string {
+  return input
+    .toLowerCase()
+    .trim()
+    .replace(/&/g, '-')      // replace & with dash
+    .replace(/\s+/g, '-')    // spaces to dashes
+    .replace(/[^a-z0-9-]/g, '')
+    .replace(/-+/g, '-');    // collapse dashes
+}
+
+export function isSlugFormatted(slug: string): boolean {
+  return slug !== '' && slugify(slug) === slug;
+}
@@ -0,0 +1,85 @@
+// src/lib/taxonomies.ts
+// Parallel category trees. Every category belongs to exactly one taxonomy; slugs
+// are unique per taxonomy and each taxonomy writes its own product metafield.
+import prisma from '@/lib/prisma';
+import type { Taxonomy } from '@prisma/client';
+
+const KEY_RE = /^[a-z][a-z0-9-]{1,39}$/;
+const METAFIELD_KEY_RE = /^[a-z][a-z0-9_]{2,63}$/;
+// Other keys in the `taxonomy` namespace, written by product-metafields
+const RESERVED_METAFIELD_KEYS = new Set(['attributes', 'primary_path']);
+
+export type TaxonomyInput = { key?: string; name?: string; metafieldKey?: string; sortOrder?: number };
+
+/** Returns an error message, or null when the input is acceptable. */
+export function validateTaxonomyInput(input: TaxonomyInput, opts: { partial?: boolean } = {}): string | null {
+  if (!opts.partial || input.key !== undefined) {
+    if (!input.key || !KEY_RE.test(input.key)) {
+      return 'Key must be 2–40 lowercase letters, digits and dashes, starting with a letter';
+    }
+  }
+  if (!opts.partial || input.name !== undefined) {
+    if (!input.name?.trim()) return 'Name is required';
+  }
+  if (input.metafieldKey !== undefined && !METAFIELD_KEY_RE.test(input.metafieldKey)) {
+    return 'Metafield key must be 3–64 lowercase letters, digits and underscores, starting with a letter';
+  }
+  if (input.metafieldKey !== undefined && RESERVED_METAFIELD_KEYS.has(input.metafieldKey)) {
+    return `Metafield key “${input.metafieldKey}” is reserved`;
+  }
+  return null;
+}
+
+/** `build-stage` → `build_stage_slugs`. */
+export function defaultMetafieldKey(key: string): string {
+  return `${key.replace(/-/g, '_')}_slugs`;
+}
+
+export async function listTaxonomies() {
+  return prisma.taxonomy.findMany({ orderBy: [{ isDefault: 'desc' }, { sortOrder: 'asc' }, { name: 'asc' }] });
+}
+
+export async function getDefaultTaxonomy(): Promise<Taxonomy> {
+  const t = await prisma.taxonomy.findFirst({ where: { isDefault: true } });
+  if (!t) throw new Error('No default taxonomy configured');
+  return t;
+}
+
+/**
+ * `?taxonomy=` → the taxonomy (by key or id). Missing/empty means the default
+ * taxonomy, so single-tree callers keep working; unknown values return null.
+ */
+export async function resolveTaxonomy(raw: string | null | undefined): Promise<Taxonomy | null> {
+  const v = (raw ?? '').trim();
+  if (!v) return getDefaultTaxonomy();
+  return prisma.taxonomy.findFirst({ where: { OR: [{ key: v }, { id: v }] } });
+}
+
+/**
+ * Shopify page handle for a category. Page handles are store-wide, so every
+ * taxonomy but the default one prefixes its key to stay clear of the others.
+ */
+export function pageHandleFor(taxonomy: Pick<Taxonomy, 'key' | 'isDefault'>, slug: string): string {
+  return taxonomy.isDefault ? slug : `${taxonomy.key}-${slug}`;
+}
+
+/**
+ * Taxonomy for a new category: its parent's, or the requested one (key or id)
+ * for a root, or the default. Returns an error message on a mismatch.
+ */
+export async function taxonomyForNewCategory(
+  parentId: string | null,
+  requested?: string | null
+): Promise<Taxonomy | string> {
+  const taxonomy = await resolveTaxonomy(requested);
+  if (!taxonomy) return 'Unknown taxonomy';
+  if (!parentId) return taxonomy;
+
+  const parent = await prisma.category.findUnique({
+    where: { id: parentId },
+    select: { taxonomy: true },
+  });
+  if (!parent) return 'Parent not found';
+  if (requested && parent.taxonomy.id !== taxonomy.id) return 'Parent belongs to another taxonomy';
+  return parent.taxonomy;
+}